@@ -3,14 +3,36 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import StudyBookForm, { type FormData } from './components/StartScreen';
 import LoadingScreen from './components/AdjustmentPanel';
 import StudyBookDisplay from './components/FilterPanel';
-import { generateStudyBook, type StudyBookResult } from './services/geminiService';
+import OutlineEditor from './components/OutlineEditor';
+import ReviewSession from './components/ReviewSession';
+import ProjectLibrary from './components/ProjectLibrary';
+import InterruptedJobs from './components/InterruptedJobs';
+import ErrorPanel, { type GenerationFailure } from './components/ErrorPanel';
+import { generateStudyBook, generateBookOutline, generateBook, buildPartialResult, emptyCheckpoint, type GenerationCheckpoint, type GenerationProgress, type StudyBookResult, type OutlineChapter } from './services/geminiService';
+import { type StudyAids } from './services/quizService';
+import { buildDueQueue, countDueCards, loadReviewStore, recordReview, saveReviewStore, type DueCard, type ReviewGrade, type ReviewStore } from './services/reviewScheduler';
+import * as projectStore from './services/projectStore';
+import { buildProjectArchive, projectArchiveFileName, readProjectArchive, type ImportReport } from './services/projectArchive';
+import { downloadBlob } from './services/download';
+import { toGenerationError } from './services/generationErrors';
+import { templateStamp, type TemplateStamp } from './services/promptTemplates';
+import { type Annotation } from './services/annotations';
+import { type ChatMessage } from './services/chatService';
+import { loadReadingPosition, parseRoute, routeHash, saveReadingPosition, type Route } from './services/router';
+import { historyOf, type ProjectRevision } from './services/revisionHistory';
+import Spinner from './components/Spinner';
 
-type AppState = 'form' | 'loading' | 'result' | 'error';
+/**
+ * A generation in progress, or what it left to deal with. Shown over whatever
+ * the route is until it is resolved: a finished result moves on to its
+ * project's route once saved, and stays here if it couldn't be.
+ */
+type TaskState = 'loading' | 'outline' | 'result' | 'error';
 type Theme = 'light' | 'dark';
 
 export interface SavedProject {
@@ -18,6 +40,32 @@ export interface SavedProject {
   timestamp: number;
   result: StudyBookResult;
   formData: FormData;
+  studyAids?: StudyAids;
+  /** The reader's highlights and margin notes. */
+  annotations?: Annotation[];
+  /** Follow-up questions about the book and their answers, oldest first. */
+  chat?: ChatMessage[];
+  /** Last time the project was changed; sorts the library. */
+  updatedAt?: number;
+  tags?: string[];
+  folder?: string;
+  /** The prompt preset, at the version, the project was generated with; unset for projects saved before presets existed. */
+  template?: TemplateStamp;
+  /** Past and current versions, oldest first; unset until the content first changes. See `historyOf`. */
+  revisions?: ProjectRevision[];
+}
+
+/** A generation that was started but hasn't finished, saved so that it can be resumed. */
+export interface GenerationJob {
+  /** When the job was first started; also its key. */
+  id: number;
+  formData: FormData;
+  /** The confirmed table of contents of a book; missing for single guides. */
+  outline?: OutlineChapter[];
+  checkpoint: GenerationCheckpoint;
+  updatedAt: number;
+  /** The saved project this is a regeneration of; the result becomes its new version. */
+  projectId?: number;
 }
 
 const Starfield: React.FC = () => (
@@ -36,29 +84,93 @@ const Starfield: React.FC = () => (
 
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>('form');
-  const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash) ?? { name: 'form' });
+  const [taskState, setTaskState] = useState<TaskState | null>(null);
+  const [loadingProgress, setLoadingProgress] = useState<GenerationProgress>({ stage: 'starting', message: '', percent: 0 });
+  const [previewMarkdown, setPreviewMarkdown] = useState<string>('');
   const [result, setResult] = useState<StudyBookResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [resultTitle, setResultTitle] = useState<string>('');
+  const [failure, setFailure] = useState<GenerationFailure | null>(null);
+  /** A failed request to fill the form with again. */
+  const [editFormData, setEditFormData] = useState<FormData | null>(null);
   const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<number | null>(null);
+  const [pendingFormData, setPendingFormData] = useState<FormData | null>(null);
+  /** The project the generation in hand regenerates: a book awaiting its outline, or a failed generation whose finished part may be kept. */
+  const [pendingProjectId, setPendingProjectId] = useState<number | undefined>(undefined);
+  /** The project the form's input will regenerate, when editing a project's input. */
+  const [regenerateTarget, setRegenerateTarget] = useState<SavedProject | null>(null);
+  const [outline, setOutline] = useState<OutlineChapter[]>([]);
+  const [reviewStore, setReviewStore] = useState<ReviewStore>({});
+  const [storageUsage, setStorageUsage] = useState<projectStore.StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [theme, setTheme] = useState<Theme>('dark');
+  /** The heading being read, kept in the URL and the saved reading position. */
+  const readingSectionRef = useRef<string | undefined>(undefined);
+  /** The route whose reading position has been restored, so edits to the project don't scroll it again. */
+  const restoredRouteRef = useRef<Route | null>(null);
+
+  /** Shows a route, adding a history entry unless `replace` is set. */
+  const navigate = useCallback((next: Route, { replace = false } = {}) => {
+    setTaskState(null);
+    setRoute(next);
+    const hash = routeHash(next);
+    if (window.location.hash === hash) return;
+    if (replace) window.history.replaceState(window.history.state, '', hash);
+    else window.location.hash = hash;
+  }, []);
 
   useEffect(() => {
-    try {
-      // Load projects
-      const savedProjectsJSON = localStorage.getItem('studyBookProjects');
-      if (savedProjectsJSON) {
-        setProjects(JSON.parse(savedProjectsJSON));
+    // Projects load asynchronously, so the browser can't restore the scroll position itself.
+    window.history.scrollRestoration = 'manual';
+    const handleHashChange = () => {
+      const next = parseRoute(window.location.hash);
+      if (!next) return;
+      // A running generation stays on screen; anything else gives way to the new route.
+      setTaskState(prev => (prev === 'loading' ? prev : null));
+      setRoute(next);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const refreshStorageUsage = useCallback(() => {
+    projectStore.getStorageUsage().then(setStorageUsage).catch(e => console.error('Failed to estimate storage usage:', e));
+  }, []);
+
+  const reportStorageError = useCallback((e: unknown, action: string) => {
+    console.error(`Failed to ${action}:`, e);
+    setStorageError(projectStore.isQuotaError(e)
+      ? `Could not ${action}: browser storage is full. Delete or export some projects to free up space.`
+      : `Could not ${action}. ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+  }, []);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        await projectStore.migrateFromLocalStorage();
+        setProjects(await projectStore.listProjects());
+        setJobs(await projectStore.listJobs());
+        await projectStore.requestPersistentStorage();
+      } catch (e) {
+        reportStorageError(e, 'load your projects');
       }
+      refreshStorageUsage();
+    };
+    loadProjects();
+
+    try {
+      setReviewStore(loadReviewStore());
       // Load theme
       const savedTheme = localStorage.getItem('theme') as Theme | null;
       const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
       setTheme(savedTheme || (prefersDark ? 'dark' : 'light'));
     } catch (e) {
       console.error('Failed to load from localStorage:', e);
-      localStorage.clear();
     }
-  }, []);
+  }, [reportStorageError, refreshStorageUsage]);
 
   useEffect(() => {
     if (theme === 'dark') {
@@ -73,87 +185,519 @@ const App: React.FC = () => {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   }, []);
 
-  const handleGenerate = useCallback(async (formData: FormData) => {
-    setAppState('loading');
-    setLoadingMessage('Initializing...');
-    setError(null);
-    setResult(null);
+  const saveProject = useCallback(async (formData: FormData, generatedData: StudyBookResult) => {
+    const timestamp = Date.now();
+    const newProject: SavedProject = {
+      title: `${formData.topic}: ${formData.subtopic}`,
+      timestamp,
+      updatedAt: timestamp,
+      result: generatedData,
+      formData: formData,
+      template: templateStamp(formData.preset),
+    };
 
+    let savedId: number | null = null;
     try {
-      const updateProgress = (message: string) => setLoadingMessage(message);
-      const generatedData = await generateStudyBook(formData, updateProgress);
-      
-      setResult(generatedData);
-      setAppState('result');
-
-      // Save the new project
-      const newProject: SavedProject = {
-        title: `${formData.topic}: ${formData.subtopic}`,
-        timestamp: Date.now(),
-        result: generatedData,
-        formData: formData,
-      };
-
-      setProjects(prevProjects => {
-        const updatedProjects = [newProject, ...prevProjects].slice(0, 10);
-        try {
-          localStorage.setItem('studyBookProjects', JSON.stringify(updatedProjects));
-        } catch (e) {
-          console.error('Failed to save projects to localStorage:', e);
-        }
-        return updatedProjects;
-      });
+      const stored = await projectStore.putProject(newProject);
+      setProjects(prevProjects => [stored, ...prevProjects]);
+      setActiveProjectId(stored.timestamp);
+      setStorageError(null);
+      savedId = stored.timestamp;
+    } catch (e) {
+      setActiveProjectId(null);
+      reportStorageError(e, 'save this project');
+    }
+    refreshStorageUsage();
+    return savedId;
+  }, [reportStorageError, refreshStorageUsage]);
 
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      console.error(err);
-      setError(`Failed to generate study book. ${errorMessage}`);
-      setAppState('error');
+  /**
+   * Saves changes to a project, recording a new version if `revision` is given.
+   * @returns The updated record, `'missing'` if the project no longer exists, or null if it couldn't be saved.
+   */
+  const changeProject = useCallback(async (timestamp: number, changes: Partial<Omit<SavedProject, 'timestamp'>>, revision?: projectStore.RevisionNote): Promise<SavedProject | 'missing' | null> => {
+    let stored: SavedProject | 'missing' | null = null;
+    try {
+      const updated = await projectStore.updateProject(timestamp, changes, revision);
+      setProjects(prevProjects => [updated, ...prevProjects.filter(project => project.timestamp !== timestamp)]);
+      setStorageError(null);
+      stored = updated;
+    } catch (e) {
+      reportStorageError(e, 'save your changes');
+      if (projectStore.isMissingProjectError(e)) stored = 'missing';
     }
+    if (changes.result) refreshStorageUsage();
+    return stored;
+  }, [reportStorageError, refreshStorageUsage]);
+
+  const handleFailure = useCallback((err: unknown, action: string, recovery: Omit<GenerationFailure, 'error' | 'action'> & { formData: FormData; projectId?: number }) => {
+    const error = toGenerationError(err);
+    console.error(`Failed to ${action} (${error.kind}):`, err);
+    const { formData, projectId, ...options } = recovery;
+    setFailure({ error, action, ...options });
+    setEditFormData(formData);
+    setPendingProjectId(projectId);
+    setTaskState('error');
   }, []);
 
+  /**
+   * Saves a generated study book: as a new version of the project it
+   * regenerates, or as a new project if there is none or it has been deleted.
+   * @returns The project's ID, or null if the result couldn't be saved.
+   */
+  const storeGeneration = useCallback(async (formData: FormData, generatedData: StudyBookResult, projectId?: number) => {
+    if (projectId !== undefined) {
+      const regenerated = await changeProject(projectId, {
+        result: generatedData,
+        formData,
+        template: templateStamp(formData.preset),
+      }, { kind: 'regenerated' });
+      if (regenerated !== 'missing') {
+        if (!regenerated) return null;
+        setActiveProjectId(regenerated.timestamp);
+        setResultTitle(regenerated.title);
+        return regenerated.timestamp;
+      }
+    }
+    return saveProject(formData, generatedData);
+  }, [changeProject, saveProject]);
+
   const handleReset = useCallback(() => {
-    setAppState('form');
+    navigate({ name: 'form' });
     setResult(null);
-    setError(null);
-    setLoadingMessage('');
+    setFailure(null);
+    setEditFormData(null);
+    setLoadingProgress({ stage: 'starting', message: '', percent: 0 });
+    setPreviewMarkdown('');
+    setPendingFormData(null);
+    setPendingProjectId(undefined);
+    setRegenerateTarget(null);
+    setOutline([]);
+    setActiveProjectId(null);
+  }, [navigate]);
+
+  const startLoading = useCallback(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setTaskState('loading');
+    setLoadingProgress({ stage: 'starting', message: 'Initializing...', percent: 0 });
+    setPreviewMarkdown('');
+    setFailure(null);
+    setResult(null);
+    return controller.signal;
   }, []);
-  
-  const handleSelectProject = useCallback((project: SavedProject) => {
-    setResult(project.result);
-    setAppState('result');
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
   }, []);
 
+  /** Runs a generation job, checkpointing it so that it can be resumed if it is interrupted. */
+  const runJob = useCallback(async (job: GenerationJob) => {
+    const signal = startLoading();
+    let latestJob = job;
+    const saveCheckpoint = (checkpoint: GenerationCheckpoint) => {
+      const updatedJob = { ...job, checkpoint, updatedAt: Date.now() };
+      latestJob = updatedJob;
+      setJobs(prevJobs => [updatedJob, ...prevJobs.filter(j => j.id !== job.id)]);
+      projectStore.putJob(updatedJob).catch(e => reportStorageError(e, 'save the generation progress'));
+    };
+    saveCheckpoint(job.checkpoint);
+
+    const title = `${job.formData.topic}: ${job.formData.subtopic}`;
+    const control = { signal, resumeFrom: job.checkpoint, onCheckpoint: saveCheckpoint };
+    try {
+      const generatedData = job.outline
+        ? await generateBook(job.formData, job.outline, setLoadingProgress, setPreviewMarkdown, control)
+        : await generateStudyBook(job.formData, setLoadingProgress, setPreviewMarkdown, control);
+
+      setResult(generatedData);
+      setResultTitle(title);
+      setTaskState('result');
+      // Keep the job until the project is safely stored; resuming it then just saves again.
+      const projectId = await storeGeneration(job.formData, generatedData, job.projectId);
+      if (projectId !== null) {
+        navigate({ name: 'project', projectId });
+        await projectStore.deleteJob(job.id);
+        setJobs(prevJobs => prevJobs.filter(j => j.id !== job.id));
+      }
+    } catch (err) {
+      if (signal.aborted) {
+        console.log(`Generation of "${title}" cancelled; it can be resumed from the start screen.`);
+        handleReset();
+      } else {
+        handleFailure(err, job.outline ? 'generate book' : 'generate study book', {
+          formData: job.formData,
+          retry: () => runJob(latestJob),
+          partial: buildPartialResult(latestJob.checkpoint, latestJob.outline),
+          resumable: true,
+          projectId: job.projectId,
+        });
+      }
+    }
+  }, [startLoading, storeGeneration, handleFailure, handleReset, reportStorageError, navigate]);
+
+  /**
+   * Generates a study book or, for a book, its outline to confirm first.
+   * @param projectId The saved project to add the result to as a new version, if this is a regeneration.
+   */
+  const handleGenerate = useCallback(async (formData: FormData, projectId?: number) => {
+    if (formData.mode === 'book') {
+      const signal = startLoading();
+      setLoadingProgress({ stage: 'outlining', message: 'Drafting the table of contents...', percent: 0 });
+      try {
+        const proposedOutline = await generateBookOutline(formData, signal);
+        setPendingFormData(formData);
+        setPendingProjectId(projectId);
+        setOutline(proposedOutline);
+        setTaskState('outline');
+      } catch (err) {
+        if (signal.aborted) handleReset();
+        else handleFailure(err, 'plan the book', { formData, retry: () => handleGenerate(formData, projectId), projectId });
+      }
+      return;
+    }
+
+    runJob({ id: Date.now(), formData, checkpoint: emptyCheckpoint(), updatedAt: Date.now(), projectId });
+  }, [startLoading, runJob, handleFailure, handleReset]);
+
+  const handleGenerateBook = useCallback((confirmedOutline: OutlineChapter[]) => {
+    if (!pendingFormData) return;
+    runJob({ id: Date.now(), formData: pendingFormData, outline: confirmedOutline, checkpoint: emptyCheckpoint(), updatedAt: Date.now(), projectId: pendingProjectId });
+  }, [pendingFormData, pendingProjectId, runJob]);
+
+  const handleSubmitForm = useCallback((formData: FormData) => {
+    handleGenerate(formData, regenerateTarget?.timestamp);
+  }, [handleGenerate, regenerateTarget]);
+
+  /** Saves what a failed generation had finished, as a project or a new version of the one it regenerates, and opens it. */
+  const handleKeepPartial = useCallback(async (partial: StudyBookResult) => {
+    if (!editFormData) return;
+    setResult(partial);
+    setResultTitle(`${editFormData.topic}: ${editFormData.subtopic}`);
+    setFailure(null);
+    setTaskState('result');
+    const projectId = await storeGeneration(editFormData, partial, pendingProjectId);
+    if (projectId !== null) navigate({ name: 'project', projectId });
+  }, [editFormData, pendingProjectId, storeGeneration, navigate]);
+
+  const handleEditRequest = useCallback(() => {
+    setFailure(null);
+    navigate({ name: 'form' });
+  }, [navigate]);
+
+  const handleDiscardJob = useCallback(async (job: GenerationJob) => {
+    try {
+      await projectStore.deleteJob(job.id);
+      setJobs(prevJobs => prevJobs.filter(j => j.id !== job.id));
+    } catch (e) {
+      reportStorageError(e, 'discard this generation');
+    }
+    refreshStorageUsage();
+  }, [reportStorageError, refreshStorageUsage]);
+
+  const handleSelectProject = useCallback((project: SavedProject) => {
+    navigate({ name: 'project', projectId: project.timestamp });
+  }, [navigate]);
+
+  // Open the project the route points to, e.g. after a reload or from a shared link.
+  useEffect(() => {
+    if (route.name !== 'project' || (route.projectId === activeProjectId && result)) return;
+    let cancelled = false;
+    const openProject = async () => {
+      try {
+        // Library records only reference their images; load the full project.
+        const loaded = await projectStore.getProject(route.projectId);
+        if (cancelled) return;
+        if (!loaded) {
+          setStorageError('That project is not in this browser. It may have been deleted, or the link came from another device.');
+          navigate({ name: 'library' }, { replace: true });
+          return;
+        }
+        setResult(loaded.result);
+        setResultTitle(loaded.title);
+        setActiveProjectId(loaded.timestamp);
+      } catch (e) {
+        if (!cancelled) reportStorageError(e, 'open this project');
+      }
+    };
+    openProject();
+    return () => { cancelled = true; };
+  }, [route, activeProjectId, result, navigate, reportStorageError]);
+
+  // Once the project is on screen, go back to where the reader was, or to the linked heading.
+  useEffect(() => {
+    if (route.name !== 'project' || route.projectId !== activeProjectId || !result || taskState || restoredRouteRef.current === route) return;
+    restoredRouteRef.current = route;
+    const saved = loadReadingPosition(route.projectId);
+    readingSectionRef.current = route.section;
+    if (saved && saved.section === route.section) {
+      window.scrollTo({ top: saved.scrollY });
+    } else if (route.section) {
+      document.getElementById(route.section)?.scrollIntoView({ block: 'start' });
+    } else {
+      window.scrollTo({ top: 0 });
+    }
+  }, [route, activeProjectId, result, taskState]);
+
+  // Remember the reading position as the reader scrolls.
+  useEffect(() => {
+    if (route.name !== 'project' || taskState) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleScroll = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => saveReadingPosition(route.projectId, { scrollY: window.scrollY, section: readingSectionRef.current }), 200);
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [route, taskState]);
+
+  /** Keeps the URL on the heading being read, without adding history entries. */
+  const handleSectionChange = useCallback((section: string | null) => {
+    if (route.name !== 'project') return;
+    readingSectionRef.current = section ?? undefined;
+    window.history.replaceState(window.history.state, '', routeHash({ name: 'project', projectId: route.projectId, section: section ?? undefined }));
+  }, [route]);
+
+  const handleRenameProject = useCallback((project: SavedProject, title: string) => {
+    changeProject(project.timestamp, { title });
+  }, [changeProject]);
+
+  const handleOrganizeProject = useCallback((project: SavedProject, changes: Pick<SavedProject, 'tags' | 'folder'>) => {
+    changeProject(project.timestamp, changes);
+  }, [changeProject]);
+
+  const handleDuplicateProject = useCallback(async (project: SavedProject) => {
+    try {
+      const copy = await projectStore.duplicateProject(project.timestamp);
+      setProjects(prevProjects => [copy, ...prevProjects]);
+      setStorageError(null);
+    } catch (e) {
+      reportStorageError(e, 'duplicate this project');
+    }
+    refreshStorageUsage();
+  }, [reportStorageError, refreshStorageUsage]);
+
+  const handleDeleteProject = useCallback(async (project: SavedProject) => {
+    try {
+      await projectStore.deleteProject(project.timestamp);
+      setProjects(prevProjects => prevProjects.filter(p => p.timestamp !== project.timestamp));
+      if (project.timestamp === activeProjectId) {
+        setActiveProjectId(null);
+        setResult(null);
+      }
+      setReviewStore(prevStore => {
+        const { [project.timestamp]: _removed, ...updatedStore } = prevStore;
+        saveReviewStore(updatedStore);
+        return updatedStore;
+      });
+      setStorageError(null);
+    } catch (e) {
+      reportStorageError(e, 'delete this project');
+    }
+    refreshStorageUsage();
+  }, [activeProjectId, reportStorageError, refreshStorageUsage]);
+
+  const handleExportProjects = useCallback(async (selected: SavedProject[]) => {
+    try {
+      const loaded = await Promise.all(selected.map(project => projectStore.getProject(project.timestamp)));
+      const exportable = loaded.filter((project): project is SavedProject => project !== undefined);
+      downloadBlob(buildProjectArchive(exportable), projectArchiveFileName(exportable));
+    } catch (e) {
+      reportStorageError(e, 'export projects');
+    }
+  }, [reportStorageError]);
+
+  const handleImportProjects = useCallback(async (file: File): Promise<ImportReport> => {
+    const report = await readProjectArchive(file, projects.map(project => project.timestamp));
+    const stored: SavedProject[] = [];
+    for (const project of report.imported) {
+      try {
+        stored.push(await projectStore.putProject(project));
+      } catch (e) {
+        console.error(`Failed to import "${project.title}":`, e);
+        const reason = projectStore.isQuotaError(e) ? 'Browser storage is full.' : e instanceof Error ? e.message : 'It could not be saved.';
+        report.rejected.push({ title: project.title, reason });
+      }
+    }
+    if (stored.length > 0) setProjects(await projectStore.listProjects());
+    refreshStorageUsage();
+    return { ...report, imported: stored };
+  }, [projects, refreshStorageUsage]);
+
+  const handleStudyAidsChange = useCallback((studyAids: StudyAids) => {
+    if (activeProjectId !== null) changeProject(activeProjectId, { studyAids });
+  }, [activeProjectId, changeProject]);
+
+  const handleAnnotationsChange = useCallback((annotations: Annotation[]) => {
+    if (activeProjectId !== null) changeProject(activeProjectId, { annotations });
+  }, [activeProjectId, changeProject]);
+
+  const handleChatChange = useCallback((chat: ChatMessage[]) => {
+    if (activeProjectId !== null) changeProject(activeProjectId, { chat });
+  }, [activeProjectId, changeProject]);
+
+  const handleResultChange = useCallback((updatedResult: StudyBookResult, change?: string) => {
+    setResult(updatedResult);
+    if (activeProjectId !== null) changeProject(activeProjectId, { result: updatedResult }, { kind: 'edited', change });
+  }, [activeProjectId, changeProject]);
+
+  /** Makes an earlier version the current one, adding it to the history again so nothing is lost. */
+  const handleRestoreRevision = useCallback(async (revisionId: string) => {
+    if (activeProjectId === null) return;
+    try {
+      // Library records only reference their images; load the full versions.
+      const loaded = await projectStore.getProject(activeProjectId);
+      const revision = loaded && historyOf(loaded).find(r => r.id === revisionId);
+      if (!revision) return;
+      setResult(revision.result);
+      await changeProject(activeProjectId, {
+        result: revision.result,
+        formData: revision.formData,
+        template: templateStamp(revision.formData.preset),
+      }, { kind: 'restored', change: `Restored the version from ${new Date(revision.createdAt).toLocaleString()}` });
+    } catch (e) {
+      reportStorageError(e, 'restore this version');
+    }
+  }, [activeProjectId, changeProject, reportStorageError]);
+
+  const handleRegenerateProject = useCallback(() => {
+    const project = projects.find(p => p.timestamp === activeProjectId);
+    if (project) handleGenerate(project.formData, project.timestamp);
+  }, [projects, activeProjectId, handleGenerate]);
+
+  /** Opens the form with the project's input, to regenerate it with changes. */
+  const handleEditAndRegenerate = useCallback(() => {
+    const project = projects.find(p => p.timestamp === activeProjectId);
+    if (!project) return;
+    setEditFormData(project.formData);
+    setRegenerateTarget(project);
+    navigate({ name: 'form' });
+  }, [projects, activeProjectId, navigate]);
+
+  // A regeneration target only applies to the form it was opened with.
+  useEffect(() => {
+    if (route.name !== 'form' && !taskState) setRegenerateTarget(null);
+  }, [route, taskState]);
+
+  const handleStartReview = useCallback(() => {
+    navigate({ name: 'review' });
+  }, [navigate]);
+
+  const handleGradeCard = useCallback((dueCard: DueCard, grade: ReviewGrade) => {
+    const project = projects.find(p => p.timestamp === dueCard.projectId);
+    if (!project) return;
+    setReviewStore(prevStore => {
+      const updatedStore = recordReview(prevStore, project, dueCard.card.id, grade);
+      saveReviewStore(updatedStore);
+      return updatedStore;
+    });
+  }, [projects]);
+
+  const activeProject = projects.find(project => project.timestamp === activeProjectId);
+
+  const renderStudyBook = () => result && (
+    <StudyBookDisplay
+      key={activeProjectId ?? 'unsaved'}
+      title={resultTitle}
+      result={result}
+      formData={activeProject?.formData}
+      onResultChange={handleResultChange}
+      studyAids={activeProject?.studyAids}
+      onStudyAidsChange={handleStudyAidsChange}
+      annotations={activeProject?.annotations}
+      onAnnotationsChange={handleAnnotationsChange}
+      chat={activeProject?.chat}
+      onChatChange={handleChatChange}
+      revisions={activeProject && historyOf(activeProject)}
+      onRestoreRevision={handleRestoreRevision}
+      onRegenerate={handleRegenerateProject}
+      onEditAndRegenerate={handleEditAndRegenerate}
+      onReset={handleReset}
+      onSectionChange={taskState ? undefined : handleSectionChange}
+    />
+  );
+
   const renderContent = () => {
-    // FIX: Corrected typo from `appstate` to `appState`.
-    switch (appState) {
+    switch (taskState) {
       case 'loading':
-        return <LoadingScreen message={loadingMessage} />;
+        return <LoadingScreen progress={loadingProgress} preview={previewMarkdown} onCancel={handleCancel} />;
+      case 'outline':
+        return pendingFormData && (
+          <OutlineEditor
+            title={`${pendingFormData.topic}: ${pendingFormData.subtopic}`}
+            outline={outline}
+            onConfirm={handleGenerateBook}
+            onCancel={handleReset}
+          />
+        );
       case 'result':
-        return result && <StudyBookDisplay result={result} onReset={handleReset} />;
+        return renderStudyBook();
       case 'error':
+        return failure && (
+          <ErrorPanel failure={failure} onBack={handleReset} onEditRequest={handleEditRequest} onKeepPartial={handleKeepPartial} />
+        );
+    }
+
+    switch (route.name) {
+      case 'project':
+        return route.projectId === activeProjectId && result
+          ? renderStudyBook()
+          : <Spinner className="w-10 h-10 mx-auto text-blue-600" />;
+      case 'review':
+        return <ReviewSession queue={buildDueQueue(projects, reviewStore)} onGrade={handleGradeCard} onExit={() => navigate({ name: 'library' })} />;
+      case 'library':
         return (
-          <div className="text-center animate-fade-in bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-red-700 dark:text-red-300">An Error Occurred</h2>
-            <p className="text-md text-red-600 dark:text-red-400">{error}</p>
-            <button
-                onClick={handleReset}
-                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Try Again
-            </button>
+          <div className="w-full max-w-4xl mx-auto animate-fade-in">
+            <ProjectLibrary
+              projects={projects}
+              dueCounts={countDueCards(projects, reviewStore)}
+              storageUsage={storageUsage}
+              onSelect={handleSelectProject}
+              onRename={handleRenameProject}
+              onOrganize={handleOrganizeProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProjects}
+              onImport={handleImportProjects}
+              onStartReview={handleStartReview}
+            />
           </div>
         );
       case 'form':
-      default:
-        return <StudyBookForm onGenerate={handleGenerate} recentProjects={projects} onSelectProject={handleSelectProject} />;
+        return (
+          <StudyBookForm onGenerate={handleSubmitForm} initialData={editFormData}>
+            {regenerateTarget && (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-blue-50 dark:bg-blue-500/10 border border-blue-200 dark:border-blue-500/30 rounded-lg">
+                <p className="text-sm text-blue-800 dark:text-blue-200">
+                  Regenerating <strong>{regenerateTarget.title}</strong>. The result is added to its version history.
+                </p>
+                <button
+                  onClick={() => setRegenerateTarget(null)}
+                  className="shrink-0 text-sm font-semibold text-blue-700 dark:text-blue-300 hover:underline"
+                >
+                  Save as a new project instead
+                </button>
+              </div>
+            )}
+            <InterruptedJobs jobs={jobs} onResume={runJob} onDiscard={handleDiscardJob} />
+          </StudyBookForm>
+        );
     }
   };
 
   return (
     <div className="min-h-screen text-gray-900 dark:text-gray-100 flex flex-col">
       <Starfield />
-      <Header theme={theme} toggleTheme={toggleTheme} />
+      <Header theme={theme} toggleTheme={toggleTheme} route={route} libraryCount={projects.length} />
+      {storageError && (
+        <div role="alert" className="w-full max-w-4xl mx-auto mt-4 px-4 py-3 flex items-start justify-between gap-4 bg-amber-50 dark:bg-amber-500/10 border border-amber-300 dark:border-amber-500/30 text-amber-800 dark:text-amber-200 rounded-lg">
+          <p className="text-sm">{storageError}</p>
+          <button onClick={() => setStorageError(null)} aria-label="Dismiss" className="text-lg leading-none hover:text-amber-950 dark:hover:text-white">&times;</button>
+        </div>
+      )}
       <main className="flex-grow w-full max-w-7xl mx-auto p-4 md:p-8 flex justify-center items-center">
         {renderContent()}
       </main>
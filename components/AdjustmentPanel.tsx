@@ -3,21 +3,150 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { type GenerationProgress, type GenerationStage } from '../services/geminiService';
+import { escapeHtml } from '../services/markdown';
+import { renderMarkdown } from '../services/markdownRenderer';
+import { PROSE_CLASS_NAME } from './SectionBlock';
 import Spinner from './Spinner';
 
 interface LoadingScreenProps {
-  message: string;
+  progress: GenerationProgress;
+  /** The markdown generated so far, shown as it streams in. */
+  preview?: string;
+  /** Stops the generation; it can be resumed later from its last checkpoint. */
+  onCancel?: () => void;
 }
 
-const LoadingScreen: React.FC<LoadingScreenProps> = ({ message }) => {
+/** Shows an `[IMAGE: ...]` placeholder that is still waiting for its illustration as a pulsing box. */
+const pendingIllustration = (prompt: string) =>
+  `<span class="not-prose my-6 h-48 flex items-center justify-center p-6 text-center text-sm text-gray-500 dark:text-gray-400 bg-gray-200/70 dark:bg-gray-700/50 rounded-lg animate-pulse">Illustrating: ${escapeHtml(prompt)}</span>`;
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  starting: 'Starting',
+  outlining: 'Planning',
+  drafting: 'Drafting',
+  classifying: 'Planning illustrations',
+  illustrating: 'Illustrating',
+  assembling: 'Assembling',
+  reviewing: 'Reviewing',
+};
+
+/** Formats a duration as "m:ss". */
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** Formats a remaining time loosely, e.g. "about 3 min left"; the estimate isn't precise enough for seconds. */
+const formatRemaining = (ms: number) => {
+  const minutes = Math.round(ms / 60_000);
+  return minutes < 1 ? 'less than a minute left' : `about ${minutes} min left`;
+};
+
+/** The overall progress bar with the stage, elapsed time and estimate, and the illustration counts. */
+const ProgressSummary: React.FC<{ progress: GenerationProgress }> = ({ progress }) => {
+  const { stage, percent, images, startedAt, estimatedEndAt } = progress;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const details = [STAGE_LABELS[stage], `${Math.floor(percent)}%`];
+  if (startedAt) details.push(`${formatDuration(now - startedAt)} elapsed`);
+  if (estimatedEndAt) details.push(formatRemaining(estimatedEndAt - now));
+
+  const imageCounts: string[] = [];
+  if (images) {
+    imageCounts.push(`${images.done}/${images.total} images done`);
+    if (images.failed) imageCounts.push(`${images.failed} failed`);
+    if (images.inProgress) imageCounts.push(`${images.inProgress} in progress`);
+    if (images.retrying) imageCounts.push(`${images.retrying} retrying`);
+  }
+
+  return (
+    <div className="w-full">
+      <div
+        className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.floor(percent)}
+      >
+        <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{details.join(' · ')}</p>
+      {imageCounts.length > 0 && (
+        <p className={`text-sm ${images?.retrying ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {imageCounts.join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const LoadingScreen: React.FC<LoadingScreenProps> = ({ progress, preview = '', onCancel }) => {
+  const { message } = progress;
+  // Rendering can fall behind a fast stream; let React skip intermediate states.
+  const deferredPreview = useDeferredValue(preview);
+  const previewHtml = useMemo(() => renderMarkdown(deferredPreview, { renderPlaceholder: pendingIllustration }), [deferredPreview]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef<boolean>(true);
+
+  // Keep the newest text in view unless the reader has scrolled up.
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container && followRef.current) container.scrollTop = container.scrollHeight;
+  }, [previewHtml]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (container) followRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 48;
+  };
+
+  const cancelButton = onCancel && (
+    <button
+      onClick={onCancel}
+      className="shrink-0 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors"
+    >
+      Cancel
+    </button>
+  );
+
+  if (!preview) {
+    return (
+      <div className="w-full max-w-2xl mx-auto flex flex-col items-center justify-center gap-6 text-center animate-fade-in">
+        <Spinner />
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Generating Your Study Book...</h2>
+        <p className="text-lg text-gray-600 dark:text-gray-400 min-h-[2.25rem]">{message}</p>
+        <ProgressSummary progress={progress} />
+        {cancelButton}
+      </div>
+    );
+  }
+
   return (
-    <div className="w-full max-w-2xl mx-auto flex flex-col items-center justify-center gap-6 text-center animate-fade-in">
-      <Spinner />
-      <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Generating Your Study Book...</h2>
-      <p className="text-lg text-gray-600 dark:text-gray-400 min-h-[2.25rem]">{message}</p>
+    <div className="w-full max-w-4xl mx-auto flex flex-col gap-4 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <Spinner className="w-8 h-8 text-blue-600 shrink-0" />
+        <div className="flex-grow">
+          <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Generating Your Study Book...</h2>
+          <p className="text-gray-600 dark:text-gray-400">{message}</p>
+          <ProgressSummary progress={progress} />
+        </div>
+        {cancelButton}
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="max-h-[70vh] overflow-y-auto bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-6 md:p-10 rounded-2xl shadow-lg"
+      >
+        <div className={PROSE_CLASS_NAME} dangerouslySetInnerHTML={{ __html: previewHtml }} />
+      </div>
     </div>
   );
 };
 
-export default LoadingScreen;
\ No newline at end of file
+export default LoadingScreen;
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HIGHLIGHT_COLORS, type HighlightColor } from '../services/annotations';
+
+interface AnnotationPopoverProps {
+  /** Where to point, relative to the positioned ancestor. */
+  position: { top: number; left: number };
+  /** The current color of an existing highlight; unset for a new selection. */
+  color?: HighlightColor;
+  note?: string;
+  onSave: (color: HighlightColor, note: string) => void;
+  /** Removes an existing highlight; unset for a new selection. */
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export const SWATCH_CLASS_NAMES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300',
+  green: 'bg-green-400',
+  blue: 'bg-blue-400',
+  pink: 'bg-pink-400',
+};
+
+/** Highlights a selection in a color, and adds, edits or removes its margin note. */
+const AnnotationPopover: React.FC<AnnotationPopoverProps> = ({ position, color, note = '', onSave, onDelete, onClose }) => {
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const [selectedColor, setSelectedColor] = useState<HighlightColor>(color ?? 'yellow');
+  const [editingNote, setEditingNote] = useState<boolean>(!!note);
+  const [draft, setDraft] = useState<string>(note);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) onClose();
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  const handleColor = (value: HighlightColor) => {
+    setSelectedColor(value);
+    // Without a note to write, picking a color is all there is to do.
+    if (!editingNote) onSave(value, note);
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={color ? 'Edit highlight' : 'Highlight selection'}
+      style={{ top: position.top, left: position.left }}
+      className="absolute z-40 -translate-x-1/2 mt-2 p-2 flex flex-col gap-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-xl animate-fade-in"
+    >
+      <div className="flex items-center gap-2">
+        {HIGHLIGHT_COLORS.map(value => (
+          <button
+            key={value}
+            onClick={() => handleColor(value)}
+            aria-label={`Highlight ${value}`}
+            aria-pressed={selectedColor === value}
+            className={`w-6 h-6 rounded-full ${SWATCH_CLASS_NAMES[value]} ${selectedColor === value ? 'ring-2 ring-offset-2 ring-blue-500 ring-offset-white dark:ring-offset-gray-800' : ''}`}
+          />
+        ))}
+        {!editingNote && (
+          <button onClick={() => setEditingNote(true)} className="ml-1 px-2.5 py-1 text-xs font-semibold rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+            {note ? 'Edit Note' : 'Add Note'}
+          </button>
+        )}
+        {onDelete && (
+          <button onClick={onDelete} className="px-2.5 py-1 text-xs font-semibold rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors">
+            Remove
+          </button>
+        )}
+      </div>
+      {editingNote && (
+        <>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => (e.metaKey || e.ctrlKey) && e.key === 'Enter' && onSave(selectedColor, draft)}
+            rows={3}
+            autoFocus
+            placeholder="Write a note..."
+            aria-label="Note"
+            className="w-64 text-sm bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white transition-colors">
+              Cancel
+            </button>
+            <button onClick={() => onSave(selectedColor, draft)} className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors">
+              Save Note
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationPopover;
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { type StudyBookResult } from '../services/geminiService';
+import { askAboutBook, createMessageId, type ChatMessage } from '../services/chatService';
+import { renderMarkdown } from '../services/markdownRenderer';
+import { toGenerationError } from '../services/generationErrors';
+import Spinner from './Spinner';
+
+interface ChatPanelProps {
+  result: StudyBookResult;
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  /** Adds an answer to the book as a subsection under the question's heading. */
+  onInsert: (question: string, answer: ChatMessage) => void;
+  /** Scrolls the book to a heading or reference. */
+  onJump: (anchor: string) => void;
+  onClose: () => void;
+}
+
+const ANSWER_CLASS_NAME = "prose prose-sm max-w-none dark:prose-invert prose-a:text-blue-600 dark:prose-a:text-blue-400 prose-a:no-underline hover:prose-a:underline";
+const answerButtonClassName = "px-2.5 py-1 text-xs font-semibold rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+const Answer: React.FC<{ text: string }> = ({ text }) => {
+  const html = useMemo(() => renderMarkdown(text), [text]);
+  return <div className={ANSWER_CLASS_NAME} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+/** A side panel for follow-up questions, answered from the book and citing its sections. */
+const ChatPanel: React.FC<ChatPanelProps> = ({ result, messages, onMessagesChange, onInsert, onJump, onClose }) => {
+  const [draft, setDraft] = useState<string>('');
+  /** The answer as it streams in; null when no question is being answered. */
+  const [pendingAnswer, setPendingAnswer] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingClear, setConfirmingClear] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [messages.length, pendingAnswer]);
+
+  const handleSend = async () => {
+    const question = draft.trim();
+    if (!question || pendingAnswer !== null) return;
+    const asked: ChatMessage = { id: createMessageId(), role: 'user', text: question, createdAt: Date.now() };
+    const withQuestion = [...messages, asked];
+    onMessagesChange(withQuestion);
+    setDraft('');
+    setError(null);
+    setPendingAnswer('');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const answer = await askAboutBook(result, messages, question, setPendingAnswer, controller.signal);
+      onMessagesChange([...withQuestion, answer]);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setError(`Couldn't answer that. ${toGenerationError(err).message}`);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setPendingAnswer(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  // Links in answers point at the book's headings and references; scroll the book instead of changing the URL.
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const href = (e.target as HTMLElement).closest('a[href^="#"]')?.getAttribute('href');
+    if (href && !href.startsWith('#/')) {
+      e.preventDefault();
+      onJump(decodeURIComponent(href.slice(1)));
+    }
+  };
+
+  const questionBefore = (index: number) =>
+    messages.slice(0, index).reverse().find(message => message.role === 'user')?.text ?? '';
+
+  return (
+    <aside aria-label="Ask about this book" className="fixed z-40 right-4 bottom-4 top-28 w-[min(26rem,calc(100vw-2rem))] flex flex-col bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-2xl shadow-2xl animate-fade-in">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-bold text-gray-900 dark:text-gray-100">Ask about this book</h3>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && !confirmingClear && (
+            <button onClick={() => setConfirmingClear(true)} disabled={pendingAnswer !== null} className="px-2 py-1 text-xs font-semibold rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+              Clear
+            </button>
+          )}
+          <button onClick={onClose} aria-label="Close" className="p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+            <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+      {confirmingClear && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-red-50 dark:bg-red-500/10 border-b border-red-200 dark:border-red-500/30">
+          <span className="text-sm text-red-700 dark:text-red-300 mr-auto">Delete this conversation?</span>
+          <button
+            onClick={() => {
+              onMessagesChange([]);
+              setConfirmingClear(false);
+            }}
+            className="bg-red-500 hover:bg-red-600 text-white text-xs font-bold py-1 px-3 rounded-md transition-colors"
+          >
+            Delete
+          </button>
+          <button onClick={() => setConfirmingClear(false)} className={answerButtonClassName}>Cancel</button>
+        </div>
+      )}
+
+      <div ref={listRef} onClick={handleClick} className="flex-grow overflow-y-auto px-4 py-4 flex flex-col gap-4">
+        {messages.length === 0 && pendingAnswer === null && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Ask a follow-up question. Answers come from this book only, with links to the sections they draw on.
+          </p>
+        )}
+        {messages.map((message, index) => message.role === 'user' ? (
+          <p key={message.id} className="self-end max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-blue-600 text-white text-sm whitespace-pre-line">
+            {message.text}
+          </p>
+        ) : (
+          <div key={message.id} className="flex flex-col gap-2">
+            <Answer text={message.text} />
+            {!!message.citations?.length && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                <span>From:</span>
+                {message.citations.map(citation => (
+                  <button
+                    key={citation.slug || citation.heading}
+                    onClick={() => citation.slug && onJump(citation.slug)}
+                    className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  >
+                    {citation.heading}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div>
+              {message.insertedAs ? (
+                <button onClick={() => onJump(message.insertedAs!)} className={answerButtonClassName}>
+                  Added to the book · Show
+                </button>
+              ) : (
+                <button onClick={() => onInsert(questionBefore(index), message)} className={answerButtonClassName}>
+                  Insert into Book
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {pendingAnswer !== null && (
+          pendingAnswer
+            ? <Answer text={pendingAnswer} />
+            : <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400"><Spinner className="w-4 h-4 text-blue-600" /> Reading the book...</div>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder="Ask a question about this book..."
+          aria-label="Question"
+          className="flex-grow resize-none text-sm bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+        {pendingAnswer !== null ? (
+          <button onClick={() => abortControllerRef.current?.abort()} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button onClick={handleSend} disabled={!draft.trim()} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Ask
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ChatPanel;
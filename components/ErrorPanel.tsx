@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ERROR_DETAILS, type GenerationError } from '../services/generationErrors';
+import { type StudyBookResult } from '../services/geminiService';
+
+export interface GenerationFailure {
+  error: GenerationError;
+  /** What was being done, e.g. "generate study book". */
+  action: string;
+  /** Runs the failed step again, resuming from its last checkpoint. */
+  retry?: () => void;
+  /** What was finished before the failure, if anything. */
+  partial?: StudyBookResult | null;
+  /** True if the unfinished generation is kept on the start screen. */
+  resumable?: boolean;
+}
+
+interface ErrorPanelProps {
+  failure: GenerationFailure;
+  onBack: () => void;
+  /** Goes back to the form with the failed request filled in. */
+  onEditRequest: () => void;
+  onKeepPartial: (partial: StudyBookResult) => void;
+}
+
+const primaryButton = 'bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors';
+const secondaryButton = 'bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-6 rounded-lg text-md transition-colors';
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ failure, onBack, onEditRequest, onKeepPartial }) => {
+  const { error, action, retry, partial, resumable } = failure;
+  const { title, hint, recovery } = ERROR_DETAILS[error.kind];
+  const partialChapters = partial?.chapters?.length;
+
+  return (
+    <div className="text-center animate-fade-in bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
+      <h2 className="text-2xl font-bold text-red-700 dark:text-red-300">{title}</h2>
+      <p className="text-md text-red-600 dark:text-red-400">Failed to {action}. {error.message}</p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{hint}</p>
+      {resumable && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">The unfinished generation is kept on the start screen, so you can resume it later.</p>
+      )}
+      <div className="flex flex-wrap justify-center gap-3">
+        {recovery === 'edit-request' && <button onClick={onEditRequest} className={primaryButton}>Edit the Request</button>}
+        {retry && recovery !== 'configure' && (
+          <button onClick={retry} className={recovery === 'retry' ? primaryButton : secondaryButton}>
+            {recovery === 'resume-later' ? 'Try Again Now' : 'Try Again'}
+          </button>
+        )}
+        {partial && (
+          <button onClick={() => onKeepPartial(partial)} className={secondaryButton}>
+            Keep What Was Generated{partialChapters ? ` (${partialChapters} chapter${partialChapters === 1 ? '' : 's'})` : ''}
+          </button>
+        )}
+        <button onClick={onBack} className={recovery === 'configure' || recovery === 'resume-later' ? primaryButton : secondaryButton}>
+          Back to Start
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
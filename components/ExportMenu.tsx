@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DownloadIcon } from './icons';
+import Spinner from './Spinner';
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  description: string;
+  run: () => Promise<void>;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  /** Why the last export failed, shown under the button until dismissed or another export starts. */
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [open]);
+
+  const handleSelect = async (option: ExportOption) => {
+    setOpen(false);
+    setError(null);
+    setRunningId(option.id);
+    try {
+      await option.run();
+    } catch (err) {
+      console.error(`Error exporting ${option.label}:`, err);
+      setError(`Couldn't export ${option.label}. ${err instanceof Error ? err.message : 'Please try again.'}`);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const running = options.find(option => option.id === runningId);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => {
+          setOpen(prev => !prev);
+          setError(null);
+        }}
+        disabled={disabled || !!running}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="flex items-center justify-center gap-2 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-rose-800 disabled:cursor-wait min-w-[150px]"
+      >
+        {running ? (
+            <>
+                <Spinner className="w-5 h-5" />
+                <span>Exporting {running.label}...</span>
+            </>
+        ) : (
+            <>
+                <DownloadIcon className="w-5 h-5" />
+                <span>Export</span>
+            </>
+        )}
+      </button>
+      {error && !open && (
+        <div role="alert" className="absolute right-0 mt-2 w-72 p-3 flex items-start justify-between gap-3 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 text-red-700 dark:text-red-300 rounded-lg shadow-xl z-50">
+          <p className="text-sm">{error}</p>
+          <button onClick={() => setError(null)} aria-label="Dismiss" className="text-lg leading-none hover:text-red-900 dark:hover:text-white">&times;</button>
+        </div>
+      )}
+      {open && (
+        <div role="menu" className="absolute right-0 mt-2 w-72 p-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg shadow-xl z-50">
+          {options.map(option => (
+            <button
+              key={option.id}
+              role="menuitem"
+              onClick={() => handleSelect(option)}
+              className="w-full text-left px-3 py-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <p className="font-semibold text-gray-900 dark:text-gray-100">{option.label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -3,126 +3,547 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useState, useEffect } from 'react';
-import { marked } from 'marked';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { type StudyBookResult } from '../services/geminiService';
-import { DownloadIcon, RestartIcon } from './icons';
-import Spinner from './Spinner';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type FormData } from './StartScreen';
+import { formatProgress, getChapters, reviseSection, type Illustration, type RevisionAction, type StudyBookResult } from '../services/geminiService';
+import { createSlugger, escapeHtml, extractHeadings, joinSections, sectionAnchors, slugify, splitSections } from '../services/markdown';
+import { illustrationHtml, renderMarkdown, type IllustrationNode } from '../services/markdownRenderer';
+import { IMG_TAG, failedIllustrationTag, getAttribute, illustrationTag, setIllustrationTag } from '../services/imageAssets';
+import { type CitationStyle } from '../services/citations';
+import { buildStudyBookPdf } from '../services/pdfExport';
+import { buildEpubExport, buildHtmlExport, buildMarkdownBundle, type ExportInput } from '../services/bookExport';
+import { buildDocxExport } from '../services/docxExport';
+import { generateStudyAids, type StudyAids } from '../services/quizService';
+import { downloadBlob, downloadText } from '../services/download';
+import { insertAnswer, type ChatMessage } from '../services/chatService';
+import { markFixed, reviewStudyBook } from '../services/qualityReview';
+import { type ProjectRevision } from '../services/revisionHistory';
+import { resolveGenerationOptions } from '../services/generationOptions';
+import {
+  HIGHLIGHT_COLORS,
+  buildNotesMarkdown,
+  buildTextIndex,
+  clearHighlights,
+  createAnnotationId,
+  describeSpan,
+  locateAnnotation,
+  offsetAtPoint,
+  paintHighlight,
+  rangeOfSpan,
+  searchText,
+  spanOfRange,
+  type Annotation,
+  type HighlightColor,
+  type TextIndex,
+  type TextSpan,
+} from '../services/annotations';
+import ReferenceList from './ReferenceList';
+import ExportMenu, { type ExportOption } from './ExportMenu';
+import PracticePanel from './PracticePanel';
+import SectionBlock from './SectionBlock';
+import IllustrationEditor from './IllustrationEditor';
+import ReaderOutline from './ReaderOutline';
+import ReaderSearch from './ReaderSearch';
+import AnnotationPopover from './AnnotationPopover';
+import MarginNotes, { type PlacedNote } from './MarginNotes';
+import ChatPanel from './ChatPanel';
+import QualityReportPanel from './QualityReportPanel';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import { ChatIcon, RestartIcon } from './icons';
 
 interface StudyBookDisplayProps {
+  title: string;
   result: StudyBookResult;
+  /** The input the book was generated from; section revisions need it. */
+  formData?: FormData;
+  /** Called with the changed book and, for the version history, a short description of the change. */
+  onResultChange: (result: StudyBookResult, change?: string) => void;
+  studyAids?: StudyAids;
+  onStudyAidsChange: (studyAids: StudyAids) => void;
+  annotations?: Annotation[];
+  onAnnotationsChange: (annotations: Annotation[]) => void;
+  chat?: ChatMessage[];
+  onChatChange: (chat: ChatMessage[]) => void;
+  /** The saved project's versions, oldest first; the history tab is hidden without them. */
+  revisions?: ProjectRevision[];
+  onRestoreRevision?: (revisionId: string) => void;
+  onRegenerate?: () => void;
+  onEditAndRegenerate?: () => void;
   onReset: () => void;
+  /** Called with the slug of the heading being read as the reader scrolls, or null above the first one. */
+  onSectionChange?: (section: string | null) => void;
 }
 
-const StudyBookDisplay: React.FC<StudyBookDisplayProps> = ({ result, onReset }) => {
+/** How far below the top of the window a heading must scroll to count as the one being read, clearing the sticky bars. */
+const READING_LINE = 200;
+
+type DisplayMode = 'read' | 'practice' | 'review' | 'history';
+
+/** How a revised section is described in the version history. */
+const REVISION_CHANGES: Record<RevisionAction, string> = {
+  regenerate: 'Rewrote',
+  expand: 'Expanded',
+  simplify: 'Simplified',
+};
+
+/** A highlight being made from a selection, or an existing one being edited. */
+interface PopoverState {
+  span: TextSpan;
+  annotationId?: string;
+  position: { top: number; left: number };
+}
+
+/** Keeps the popover, which is centred on its position, inside the display. */
+const POPOVER_MARGIN = 150;
+
+/**
+ * Renders editable illustrations as clickable, and failed ones as a visible
+ * retry placeholder instead of an empty figure.
+ */
+const illustrationRenderer = (illustrations: Record<string, Illustration>) => (node: IllustrationNode): string => {
+  const id = node.id ?? '';
+  if (node.failed) {
+    const prompt = illustrations[id]?.prompt ?? '';
+    return `<span class="not-prose my-6 flex flex-col items-center gap-2 p-8 text-center border-2 border-dashed border-amber-400 dark:border-amber-500/60 bg-amber-50 dark:bg-amber-500/10 rounded-lg cursor-pointer hover:bg-amber-100 dark:hover:bg-amber-500/20 transition-colors" data-illustration="${escapeHtml(id)}" role="button"><strong class="text-amber-800 dark:text-amber-300">This illustration could not be generated</strong><span class="text-sm italic text-gray-600 dark:text-gray-400">${escapeHtml(prompt)}</span><span class="text-sm font-semibold text-blue-600 dark:text-blue-400">Click to retry, edit the prompt or upload an image</span></span>`;
+  }
+  const tag = illustrationHtml(node);
+  if (!illustrations[id]) return tag;
+  return `<span class="block relative group/ill cursor-pointer" data-illustration="${escapeHtml(id)}" title="Edit illustration">${tag}<span class="absolute top-2 right-2 px-2.5 py-1 text-xs font-semibold rounded-md bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-200 shadow opacity-0 group-hover/ill:opacity-100 transition-opacity">Edit illustration</span></span>`;
+};
+
+const StudyBookDisplay: React.FC<StudyBookDisplayProps> = ({ title, result, formData, onResultChange, studyAids, onStudyAidsChange, annotations, onAnnotationsChange, chat, onChatChange, revisions, onRestoreRevision, onRegenerate, onEditAndRegenerate, onReset, onSectionChange }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  /** The latest book, for changes that finish after it may have been edited again. */
+  const resultRef = useRef<StudyBookResult>(result);
+  resultRef.current = result;
   const contentRef = useRef<HTMLDivElement>(null);
-  const [downloadingPdf, setDownloadingPdf] = useState<boolean>(false);
-  const [htmlContent, setHtmlContent] = useState<string>('');
+  /** The text of the book as rendered, rebuilt whenever it changes; highlights and search hits are spans of it. */
+  const indexRef = useRef<TextIndex | null>(null);
+  const scrollToHitRef = useRef<boolean>(false);
+  const [revision, setRevision] = useState<{ index: number; message: string } | null>(null);
+  /** Cancels the section revision in progress when the book is closed. */
+  const revisionAbortRef = useRef<AbortController | null>(null);
+  const [sectionErrors, setSectionErrors] = useState<Record<number, string>>({});
+  const [editingIllustrationId, setEditingIllustrationId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DisplayMode>('read');
+  // Kept locally too, so practice works even if the project could not be saved.
+  const [localStudyAids, setLocalStudyAids] = useState<StudyAids | undefined>(studyAids);
+  const [localAnnotations, setLocalAnnotations] = useState<Annotation[]>(annotations ?? []);
+  /** Where each annotation was found in the text; null until the text has been indexed. */
+  const [located, setLocated] = useState<Record<string, TextSpan> | null>(null);
+  const [placedNotes, setPlacedNotes] = useState<PlacedNote[]>([]);
+  const [textVersion, setTextVersion] = useState<number>(0);
+  const [activeSection, setActiveSection] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [hits, setHits] = useState<TextSpan[]>([]);
+  const [currentHit, setCurrentHit] = useState<number>(0);
+  const [popover, setPopover] = useState<PopoverState | null>(null);
+  const [localChat, setLocalChat] = useState<ChatMessage[]>(chat ?? []);
+  const [chatOpen, setChatOpen] = useState<boolean>(false);
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>(
+    () => (localStorage.getItem('citationStyle') as CitationStyle | null) || 'apa'
+  );
+
+  useEffect(() => {
+    if (mode !== 'read') return;
+    let current: string | null | undefined;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const headings = contentRef.current?.querySelectorAll<HTMLElement>('h1[id], h2[id], h3[id]') ?? [];
+      const passed = [...headings].filter(heading => heading.getBoundingClientRect().top <= READING_LINE);
+      const section = passed.length ? passed[passed.length - 1].id : null;
+      if (section !== current) {
+        current = section;
+        setActiveSection(section);
+        onSectionChange?.(section);
+      }
+    };
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    handleScroll();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [onSectionChange, mode]);
+
+  // Re-index the text whenever it is re-rendered or reflows, e.g. after an edit or when an image loads.
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    const handleChange = () => setTextVersion(version => version + 1);
+    const mutationObserver = new MutationObserver(handleChange);
+    mutationObserver.observe(content, { childList: true, subtree: true, characterData: true });
+    const resizeObserver = new ResizeObserver(handleChange);
+    resizeObserver.observe(content);
+    return () => {
+      mutationObserver.disconnect();
+      resizeObserver.disconnect();
+    };
+  }, [mode]);
+
+  useEffect(() => () => clearHighlights('reader-'), []);
+
+  const handleCitationStyleChange = (style: CitationStyle) => {
+    setCitationStyle(style);
+    localStorage.setItem('citationStyle', style);
+  };
   
+  const sections = useMemo(() => splitSections(result.content), [result.content]);
+  // One slugger across all sections keeps heading ids identical to rendering the whole document.
+  const sectionHtml = useMemo(() => {
+    const slug = createSlugger();
+    const renderIllustration = illustrationRenderer(result.illustrations ?? {});
+    return sections.map(section => renderMarkdown(section.markdown, { slug, renderIllustration }));
+  }, [sections, result.illustrations]);
+  const headings = useMemo(() => extractHeadings(result.content), [result.content]);
+
+  // Find the annotations in the rendered text and paint them.
   useEffect(() => {
-    if (result.content) {
-      // Configure marked to handle markdown
-      const renderer = new marked.Renderer();
-      marked.setOptions({
-        renderer,
-        gfm: true,
-        breaks: true,
-      });
-      const rawHtml = marked.parse(result.content) as string;
-      setHtmlContent(rawHtml);
+    const content = contentRef.current;
+    if (!content) {
+      indexRef.current = null;
+      clearHighlights('reader-');
+      return;
     }
-  }, [result.content]);
-
-  const handleDownloadPdf = async () => {
-    const contentElement = contentRef.current;
-    if (!contentElement || downloadingPdf) return;
-
-    setDownloadingPdf(true);
-
-    // 1. Clone the element to avoid changing the live view
-    const clone = contentElement.cloneNode(true) as HTMLElement;
-
-    // 2. Prepare the clone for PDF export (light theme)
-    clone.style.position = 'absolute';
-    clone.style.left = '-9999px';
-    clone.style.top = '0';
-    clone.style.width = `${contentElement.offsetWidth}px`;
-    clone.style.backgroundColor = 'white';
-    
-    // Switch to light-mode prose for PDF
-    const proseEl = clone.querySelector('.prose');
-    if (proseEl) {
-        proseEl.classList.remove('dark:prose-invert');
+    const index = buildTextIndex(content);
+    indexRef.current = index;
+    const contentTop = content.getBoundingClientRect().top;
+    const spans: Record<string, TextSpan> = {};
+    const rangesByColor = new Map<HighlightColor, Range[]>(HIGHLIGHT_COLORS.map(color => [color, []]));
+    const notedRanges: Range[] = [];
+    const notes: PlacedNote[] = [];
+    localAnnotations.forEach(annotation => {
+      const span = locateAnnotation(index, annotation);
+      if (!span) return;
+      spans[annotation.id] = span;
+      const range = rangeOfSpan(index, span);
+      rangesByColor.get(annotation.color)?.push(range);
+      if (annotation.note) {
+        notedRanges.push(range);
+        notes.push({ annotation, top: range.getBoundingClientRect().top - contentTop });
+      }
+    });
+    rangesByColor.forEach((ranges, color) => paintHighlight(`reader-${color}`, ranges));
+    paintHighlight('reader-note', notedRanges);
+    setLocated(spans);
+    setPlacedNotes(notes.sort((a, b) => a.top - b.top));
+  }, [localAnnotations, sectionHtml, textVersion, mode]);
+
+  useEffect(() => {
+    const index = indexRef.current;
+    const found = index ? searchText(index, query) : [];
+    setHits(found);
+    paintHighlight('reader-search', index ? found.map(span => rangeOfSpan(index, span)) : []);
+  }, [query, sectionHtml, textVersion, mode]);
+
+  const shownHit = Math.min(currentHit, Math.max(hits.length - 1, 0));
+
+  useEffect(() => {
+    const index = indexRef.current;
+    const hit = hits[shownHit];
+    if (!index || !hit) {
+      paintHighlight('reader-search-current', []);
+      return;
+    }
+    const range = rangeOfSpan(index, hit);
+    paintHighlight('reader-search-current', [range]);
+    if (scrollToHitRef.current) {
+      scrollToHitRef.current = false;
+      window.scrollBy({ top: range.getBoundingClientRect().top - window.innerHeight / 2, behavior: 'smooth' });
     }
-    document.body.appendChild(clone);
+  }, [hits, shownHit]);
 
-    try {
-        const canvas = await html2canvas(clone, {
-            scale: 2,
-            useCORS: true,
-            backgroundColor: '#ffffff',
-            windowWidth: clone.scrollWidth,
-            windowHeight: clone.scrollHeight,
-        });
-
-        const imgData = canvas.toDataURL('image/png');
-        const pdf = new jsPDF('p', 'pt', 'a4');
-        const pageWidth = pdf.internal.pageSize.getWidth();
-        const pageHeight = pdf.internal.pageSize.getHeight();
-        
-        const canvasWidth = canvas.width;
-        const canvasHeight = canvas.height;
-        const ratio = canvasWidth / pageWidth;
-        const imgHeight = canvasHeight / ratio;
-        let heightLeft = imgHeight;
-        let position = 0;
-
-        pdf.addImage(imgData, 'PNG', 0, position, pageWidth, imgHeight);
-        heightLeft -= pageHeight;
-
-        while (heightLeft > 0) {
-          position = -(imgHeight - heightLeft);
-          pdf.addPage();
-          pdf.addImage(imgData, 'PNG', 0, position, pageWidth, imgHeight);
-          heightLeft -= pageHeight;
-        }
-        pdf.save('study-book.pdf');
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setCurrentHit(0);
+    scrollToHitRef.current = true;
+  };
+
+  const handleStepHit = (direction: 1 | -1) => {
+    setCurrentHit((shownHit + direction + hits.length) % hits.length);
+    scrollToHitRef.current = true;
+  };
+
+  const updateAnnotations = (updated: Annotation[]) => {
+    setLocalAnnotations(updated);
+    onAnnotationsChange(updated);
+  };
+
+  const openPopover = (span: TextSpan, rect: DOMRect, annotationId?: string) => {
+    const root = rootRef.current;
+    if (!root) return;
+    const rootRect = root.getBoundingClientRect();
+    const left = rect.left + rect.width / 2 - rootRect.left;
+    setPopover({
+      span,
+      annotationId,
+      position: { top: rect.bottom - rootRect.top, left: Math.min(Math.max(left, POPOVER_MARGIN), rootRect.width - POPOVER_MARGIN) },
+    });
+  };
+
+  const closePopover = useCallback(() => setPopover(null), []);
+
+  /** Offers to highlight the text the reader has just selected. */
+  const handleSelectionEnd = () => {
+    const content = contentRef.current;
+    const index = indexRef.current;
+    const selection = window.getSelection();
+    if (!content || !index || !selection || selection.isCollapsed || !selection.rangeCount) return;
+    const range = selection.getRangeAt(0);
+    if (!content.contains(range.commonAncestorContainer)) return;
+    const span = spanOfRange(index, range);
+    if (span && index.text.slice(span.start, span.end).trim()) openPopover(span, range.getBoundingClientRect());
+  };
+
+  const openAnnotation = (annotation: Annotation) => {
+    const span = located?.[annotation.id];
+    if (span && indexRef.current) openPopover(span, rangeOfSpan(indexRef.current, span).getBoundingClientRect(), annotation.id);
+  };
 
+  const handleSaveAnnotation = (color: HighlightColor, note: string) => {
+    const content = contentRef.current;
+    const index = indexRef.current;
+    if (!popover) return;
+    const trimmedNote = note.trim() || undefined;
+    if (popover.annotationId) {
+      updateAnnotations(localAnnotations.map(annotation => annotation.id === popover.annotationId
+        ? { ...annotation, color, note: trimmedNote, updatedAt: Date.now() }
+        : annotation));
+    } else if (content && index) {
+      updateAnnotations([
+        ...localAnnotations,
+        { id: createAnnotationId(), ...describeSpan(content, index, popover.span), color, note: trimmedNote, createdAt: Date.now() },
+      ]);
+      window.getSelection()?.removeAllRanges();
+    }
+    setPopover(null);
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    updateAnnotations(localAnnotations.filter(annotation => annotation.id !== id));
+    setPopover(null);
+  };
+
+  /** The annotations in reading order, with any whose text is gone at the end. */
+  const orderedAnnotations = () => {
+    const position = (annotation: Annotation) => located?.[annotation.id]?.start ?? Number.MAX_SAFE_INTEGER;
+    return [...localAnnotations].sort((a, b) => position(a) - position(b));
+  };
+
+  /** Replaces a section of the latest book, keeping any changes made since it was rendered. */
+  const replaceSection = (index: number, markdown: string, change: string, changes: Partial<StudyBookResult> = {}) => {
+    const latest = resultRef.current;
+    const content = joinSections(splitSections(latest.content).map((section, i) => (i === index ? { markdown } : section)));
+    resultRef.current = { ...latest, ...changes, content, chapters: latest.chapters && getChapters(content) };
+    onResultChange(resultRef.current, change);
+  };
+
+  const sectionName = (index: number) => (sections[index].heading ? `"${sections[index].heading}"` : 'the introduction');
+
+  useEffect(() => () => revisionAbortRef.current?.abort(), []);
+
+  /** Revises a section; `findingIds` are the review findings the revision fixes, marked fixed once it is in. */
+  const handleReviseSection = async (index: number, action: RevisionAction, instructions: string, findingIds: string[] = []) => {
+    if (!formData) return;
+    setRevision({ index, message: 'Starting...' });
+    setSectionErrors(prev => ({ ...prev, [index]: '' }));
+    const controller = new AbortController();
+    revisionAbortRef.current = controller;
+    // The book may change while the section is revised, so the section is found again by its anchor.
+    const anchor = sectionAnchors(sections)[index];
+    const change = `${REVISION_CHANGES[action]} ${sectionName(index)}`;
+    try {
+      const revised = await reviseSection(formData, result, sections[index], action, instructions,
+        (progress) => setRevision({ index, message: formatProgress(progress) }), controller.signal);
+      const latest = resultRef.current;
+      const target = sectionAnchors(splitSections(latest.content)).indexOf(anchor);
+      if (target === -1) {
+        setSectionErrors(prev => ({ ...prev, [index]: 'This section was changed or removed while it was being revised, so the revision was discarded.' }));
+        return;
+      }
+      replaceSection(target, revised.content, change, {
+        sources: revised.sources,
+        illustrations: { ...latest.illustrations, ...revised.illustrations },
+        ...(latest.review && findingIds.length ? { review: markFixed(latest.review, findingIds) } : {}),
+      });
     } catch (err) {
-        console.error("Error generating PDF:", err);
+      if (controller.signal.aborted) return;
+      console.error(err);
+      setSectionErrors(prev => ({ ...prev, [index]: `Failed to revise this section. ${err instanceof Error ? err.message : ''}` }));
     } finally {
-        document.body.removeChild(clone);
-        setDownloadingPdf(false);
+      revisionAbortRef.current = null;
+      setRevision(null);
+    }
+  };
+
+  const editingIllustration = editingIllustrationId ? result.illustrations?.[editingIllustrationId] : undefined;
+  const editingIllustrationTag = editingIllustrationId
+    ? [...result.content.matchAll(IMG_TAG)].find(([tag]) => getAttribute(tag, 'data-illustration') === editingIllustrationId)?.[0]
+    : undefined;
+
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // In-page links such as citations (`#ref-3`) would otherwise replace the route in the URL.
+    const href = (e.target as HTMLElement).closest('a[href^="#"]')?.getAttribute('href');
+    if (href && !href.startsWith('#/')) {
+      e.preventDefault();
+      document.getElementById(decodeURIComponent(href.slice(1)))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      return;
     }
+    const id = (e.target as HTMLElement).closest('[data-illustration]')?.getAttribute('data-illustration');
+    if (id && result.illustrations?.[id]) {
+      setEditingIllustrationId(id);
+      return;
+    }
+    // A click on a highlight opens it for editing; a click that ends a selection is handled as the selection.
+    const index = indexRef.current;
+    if (!index || !located || !window.getSelection()?.isCollapsed) return;
+    const offset = offsetAtPoint(index, e.clientX, e.clientY);
+    if (offset === null) return;
+    const clicked = localAnnotations.find(annotation => {
+      const span = located[annotation.id];
+      return span && span.start <= offset && offset < span.end;
+    });
+    if (clicked) openAnnotation(clicked);
+  };
+
+  const handleIllustrationChange = (illustration: Illustration, src: string) => {
+    const tag = src ? illustrationTag(illustration.id, src, illustration.prompt) : failedIllustrationTag(illustration.id);
+    onResultChange({
+      ...result,
+      content: setIllustrationTag(result.content, illustration.id, tag),
+      illustrations: { ...result.illustrations, [illustration.id]: illustration },
+    }, 'Changed an illustration');
+  };
+
+  const { language } = resolveGenerationOptions(formData?.options);
+  const exportInput: ExportInput = { title, result, citationStyle, language };
+  const fileBaseName = slugify(title || 'study-book');
+
+  const exportOptions: ExportOption[] = [
+    {
+      id: 'pdf',
+      label: 'PDF',
+      description: 'Paginated, searchable document with a clickable contents page.',
+      run: async () => {
+        const pdf = await buildStudyBookPdf(result.content, { title, sources: result.sources, citationStyle, language });
+        pdf.save(`${fileBaseName}.pdf`);
+      },
+    },
+    {
+      id: 'epub',
+      label: 'EPUB',
+      description: 'E-reader book with chapters, navigation and images.',
+      run: async () => downloadBlob(await buildEpubExport(exportInput), `${fileBaseName}.epub`),
+    },
+    {
+      id: 'docx',
+      label: 'Word (DOCX)',
+      description: 'Editable document with real headings, lists and tables.',
+      run: async () => downloadBlob(await buildDocxExport(exportInput), `${fileBaseName}.docx`),
+    },
+    {
+      id: 'html',
+      label: 'HTML',
+      description: 'A single self-contained web page.',
+      run: async () => downloadBlob(buildHtmlExport(exportInput), `${fileBaseName}.html`),
+    },
+    {
+      id: 'markdown',
+      label: 'Markdown (.zip)',
+      description: 'Raw markdown with images as separate files.',
+      run: async () => downloadBlob(await buildMarkdownBundle(exportInput), `${fileBaseName}-markdown.zip`),
+    },
+    ...(localAnnotations.length ? [{
+      id: 'notes',
+      label: 'My Notes',
+      description: 'Your highlights and notes, by section, as Markdown.',
+      run: async () => downloadText(buildNotesMarkdown(title, orderedAnnotations(), headings), `${fileBaseName}-notes.md`, 'text/markdown'),
+    }] : []),
+  ];
+
+  const handleGenerateStudyAids = async () => {
+    const aids = await generateStudyAids(result);
+    setLocalStudyAids(aids);
+    onStudyAidsChange(aids);
+  };
+
+  const handleRunReview = async () => {
+    if (!formData) return;
+    const review = await reviewStudyBook(formData, result);
+    onResultChange({ ...resultRef.current, review }, 'Ran the quality review');
+  };
+
+  const handleJumpToHeading = (anchor: string) => {
+    contentRef.current?.querySelector(`#${CSS.escape(anchor)}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  /** Shows a heading or reference from outside the text, e.g. a link in a chat answer, switching back to reading if need be. */
+  const handleShowInBook = (anchor: string) => {
+    setMode('read');
+    requestAnimationFrame(() => handleJumpToHeading(anchor));
+  };
+
+  const handleChatChange = (messages: ChatMessage[]) => {
+    setLocalChat(messages);
+    onChatChange(messages);
   };
 
+  const handleInsertAnswer = (question: string, answer: ChatMessage) => {
+    const inserted = insertAnswer(result.content, question, answer);
+    onResultChange({ ...result, content: inserted.content, chapters: result.chapters && getChapters(inserted.content) }, `Added an answer to "${question}"`);
+    handleChatChange(localChat.map(message => (message.id === answer.id ? { ...message, insertedAs: inserted.slug } : message)));
+    handleShowInBook(inserted.slug);
+  };
+
+  const modes: DisplayMode[] = revisions ? ['read', 'practice', 'review', 'history'] : ['read', 'practice', 'review'];
+  const openFindings = result.review?.findings.filter(finding => !finding.fixed && finding.severity === 'warning').length ?? 0;
+  const hasOutline = mode === 'read' && headings.length > 1;
+  const hasNotes = mode === 'read' && localAnnotations.some(annotation => annotation.note);
+  const columnClassName = hasOutline && hasNotes
+    ? 'lg:grid-cols-[15rem_minmax(0,1fr)] xl:grid-cols-[15rem_minmax(0,1fr)_15rem]'
+    : hasOutline ? 'lg:grid-cols-[16rem_minmax(0,1fr)]' : hasNotes ? 'xl:grid-cols-[minmax(0,1fr)_16rem]' : '';
+  const detachedAnnotations = located ? localAnnotations.filter(annotation => !located[annotation.id]) : [];
+  const popoverAnnotation = popover?.annotationId ? localAnnotations.find(annotation => annotation.id === popover.annotationId) : undefined;
+
   return (
-    <div className="w-full max-w-5xl mx-auto animate-fade-in flex flex-col gap-8">
-      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 p-4 bg-gray-100/80 dark:bg-gray-800/60 border border-gray-300 dark:border-gray-700 rounded-xl sticky top-24 z-40 backdrop-blur-sm">
+    <div ref={rootRef} className={`relative w-full ${hasOutline || hasNotes ? 'max-w-7xl' : 'max-w-5xl'} mx-auto animate-fade-in flex flex-col gap-8`}>
+      <div className="flex flex-col sm:flex-row flex-wrap items-center justify-between gap-4 p-4 bg-gray-100/80 dark:bg-gray-800/60 border border-gray-300 dark:border-gray-700 rounded-xl sticky top-24 z-40 backdrop-blur-sm">
         <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Your Study Book is Ready!</h2>
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          {mode === 'read' && (
+            <ReaderSearch query={query} onQueryChange={handleQueryChange} hitCount={hits.length} currentHit={shownHit} onStep={handleStepHit} />
+          )}
+          <div className={`grid ${modes.length === 4 ? 'grid-cols-4' : 'grid-cols-3'} gap-1 p-1 bg-white/60 dark:bg-gray-900/40 border border-gray-300 dark:border-gray-700 rounded-lg`} role="tablist">
+            {modes.map(value => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={mode === value}
+                onClick={() => setMode(value)}
+                className={`py-1.5 px-4 rounded-md text-sm font-semibold capitalize transition-colors ${mode === value ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+              >
+                {value}
+                {value === 'review' && openFindings > 0 && (
+                  <span className={`ml-1.5 px-1.5 rounded-full text-xs ${mode === value ? 'bg-white/25' : 'bg-amber-200 dark:bg-amber-500/30 text-amber-900 dark:text-amber-100'}`}>{openFindings}</span>
+                )}
+              </button>
+            ))}
+          </div>
           <button
-            onClick={handleDownloadPdf}
-            disabled={downloadingPdf}
-            className="flex items-center justify-center gap-2 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-rose-800 disabled:cursor-wait min-w-[190px]"
+            onClick={() => setChatOpen(prev => !prev)}
+            aria-pressed={chatOpen}
+            className={`flex items-center gap-2 font-bold py-2 px-4 rounded-lg transition-colors ${chatOpen ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white'}`}
           >
-            {downloadingPdf ? (
-                <>
-                    <Spinner className="w-5 h-5" />
-                    <span>Downloading...</span>
-                </>
-            ) : (
-                <>
-                    <DownloadIcon className="w-5 h-5" />
-                    <span>Download as PDF</span>
-                </>
-            )}
+            <ChatIcon className="w-5 h-5" />
+            <span>Ask</span>
           </button>
+          <ExportMenu options={exportOptions} />
           <button
             onClick={onReset}
-            disabled={downloadingPdf}
             className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
           >
             <RestartIcon className="w-5 h-5" />
@@ -131,12 +552,104 @@ const StudyBookDisplay: React.FC<StudyBookDisplayProps> = ({ result, onReset })
         </div>
       </div>
 
-      <div ref={contentRef} className="bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-8 sm:p-12 rounded-2xl shadow-lg">
-        <div 
-          className="prose prose-lg max-w-none prose-h1:text-4xl prose-h1:font-extrabold prose-h2:text-3xl prose-h2:border-b prose-h2:border-gray-300 dark:prose-h2:border-gray-600 prose-h2:pb-2 prose-a:text-blue-600 hover:prose-a:text-blue-500 dark:prose-a:text-blue-400 dark:hover:prose-a:text-blue-300 prose-strong:text-gray-800 dark:prose-strong:text-gray-200 dark:prose-invert"
-          dangerouslySetInnerHTML={{ __html: htmlContent }} 
+      {mode === 'practice' ? (
+        <PracticePanel title={title} studyAids={localStudyAids} onGenerate={handleGenerateStudyAids} />
+      ) : mode === 'history' && revisions ? (
+        <VersionHistoryPanel
+          revisions={revisions}
+          onRestore={onRestoreRevision}
+          onRegenerate={onRegenerate}
+          onEditAndRegenerate={onEditAndRegenerate}
         />
+      ) : mode === 'review' ? (
+        <QualityReportPanel
+          report={result.review}
+          sections={sections}
+          headings={headings}
+          onRun={formData ? handleRunReview : undefined}
+          onFix={(index, fix, findingIds) => handleReviseSection(index, fix.action, fix.instructions, findingIds)}
+          onJump={handleShowInBook}
+          revision={revision}
+          sectionErrors={sectionErrors}
+        />
+      ) : (
+      <div className={`grid grid-cols-1 ${columnClassName} gap-8 items-start`}>
+      {hasOutline && <ReaderOutline headings={headings} activeSlug={activeSection} onJump={handleJumpToHeading} />}
+      <div className="flex flex-col gap-6 min-w-0">
+      <div
+        ref={contentRef}
+        onClick={handleContentClick}
+        onMouseUp={handleSelectionEnd}
+        onKeyUp={e => e.shiftKey && handleSelectionEnd()}
+        className="bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-8 sm:p-12 rounded-2xl shadow-lg"
+      >
+        {sections.map((section, index) => (
+          <SectionBlock
+            key={`${index}-${section.heading}`}
+            markdown={section.markdown}
+            html={sectionHtml[index]}
+            progress={revision?.index === index ? revision.message : null}
+            error={sectionErrors[index] || null}
+            locked={revision !== null}
+            canRevise={!!formData}
+            onRevise={(action, instructions) => handleReviseSection(index, action, instructions)}
+            onSave={(markdown) => replaceSection(index, markdown, `Edited ${sectionName(index)}`)}
+          />
+        ))}
+        <ReferenceList sources={result.sources} style={citationStyle} onStyleChange={handleCitationStyleChange} />
+      </div>
+      {detachedAnnotations.length > 0 && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-500/10 border border-amber-300 dark:border-amber-500/30 rounded-xl">
+          <h3 className="text-sm font-semibold text-amber-800 dark:text-amber-200 mb-2">Highlights whose text has changed</h3>
+          <ul className="space-y-2">
+            {detachedAnnotations.map(annotation => (
+              <li key={annotation.id} className="flex items-start justify-between gap-4 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  <q className="italic">{annotation.quote}</q>
+                  {annotation.note && <span className="block mt-1">{annotation.note}</span>}
+                </span>
+                <button onClick={() => handleDeleteAnnotation(annotation.id)} className="shrink-0 text-xs font-semibold text-red-600 dark:text-red-400 hover:underline">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      </div>
+      {hasNotes && <MarginNotes notes={placedNotes} onSelect={openAnnotation} />}
       </div>
+      )}
+      {chatOpen && (
+        <ChatPanel
+          result={result}
+          messages={localChat}
+          onMessagesChange={handleChatChange}
+          onInsert={handleInsertAnswer}
+          onJump={handleShowInBook}
+          onClose={() => setChatOpen(false)}
+        />
+      )}
+      {popover && (
+        <AnnotationPopover
+          key={popover.annotationId ?? `${popover.span.start}-${popover.span.end}`}
+          position={popover.position}
+          color={popoverAnnotation?.color}
+          note={popoverAnnotation?.note}
+          onSave={handleSaveAnnotation}
+          onDelete={popoverAnnotation ? () => handleDeleteAnnotation(popoverAnnotation.id) : undefined}
+          onClose={closePopover}
+        />
+      )}
+      {editingIllustration && (
+        <IllustrationEditor
+          illustration={editingIllustration}
+          src={editingIllustrationTag ? getAttribute(editingIllustrationTag, 'src') : ''}
+          preset={formData?.preset}
+          onApply={handleIllustrationChange}
+          onClose={() => setEditingIllustrationId(null)}
+        />
+      )}
     </div>
   );
 };
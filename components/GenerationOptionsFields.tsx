@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import {
+  AUDIENCES,
+  DEPTHS,
+  LANGUAGES,
+  MAX_ILLUSTRATIONS,
+  WORD_COUNT_RANGE,
+  languageName,
+  type Audience,
+  type Depth,
+  type GenerationOptions,
+} from '../services/generationOptions';
+
+interface GenerationOptionsFieldsProps {
+  options: GenerationOptions;
+  errors: Partial<Record<keyof GenerationOptions, string>>;
+  /** Whether the length and illustrations apply to a whole guide or to each chapter of a book. */
+  perChapter: boolean;
+  onChange: (options: GenerationOptions) => void;
+}
+
+const FIELD_CLASS_NAME = 'w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition';
+const LABEL_CLASS_NAME = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+const TOGGLES: { key: 'includeTables' | 'includeWorkedExamples' | 'includeSummaries' | 'includeGlossary' | 'reviewQuality'; label: string }[] = [
+  { key: 'includeTables', label: 'Tables' },
+  { key: 'includeWorkedExamples', label: 'Worked examples' },
+  { key: 'includeSummaries', label: 'Section summaries' },
+  { key: 'includeGlossary', label: 'Key-term glossary' },
+  { key: 'reviewQuality', label: 'Quality review' },
+];
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-sm text-red-600 dark:text-red-400">{message}</p> : null;
+
+/** The audience, depth, length, language and content options of the study book form, collapsed to a summary line. */
+const GenerationOptionsFields: React.FC<GenerationOptionsFieldsProps> = ({ options, errors, perChapter, onChange }) => {
+  const set = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => onChange({ ...options, [key]: value });
+  const hasErrors = Object.keys(errors).length > 0;
+  const summary = [
+    AUDIENCES.find(a => a.value === options.audience)?.label,
+    DEPTHS.find(d => d.value === options.depth)?.label,
+    `~${Number.isFinite(options.wordCount) ? options.wordCount.toLocaleString() : '?'} words${perChapter ? ' per chapter' : ''}`,
+    LANGUAGES.find(l => l.value === options.language)?.label ?? languageName(options.language),
+    options.illustrationCount === 0 ? 'no illustrations' : `${options.illustrationCount} illustration${options.illustrationCount === 1 ? '' : 's'}`,
+    options.reviewQuality && 'quality review',
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <details open={hasErrors || undefined} className="group border border-gray-300 dark:border-gray-600 rounded-lg">
+      <summary className="cursor-pointer select-none p-3 flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Options</span>
+        <span className={`text-sm ${hasErrors ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {hasErrors ? 'Some options need fixing' : summary}
+        </span>
+      </summary>
+      <div className="p-4 pt-1 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="audience" className={LABEL_CLASS_NAME}>Audience</label>
+          <select id="audience" value={options.audience} onChange={e => set('audience', e.target.value as Audience)} className={FIELD_CLASS_NAME}>
+            {AUDIENCES.map(audience => <option key={audience.value} value={audience.value}>{audience.label}</option>)}
+          </select>
+          <FieldError message={errors.audience} />
+        </div>
+        <div>
+          <label htmlFor="depth" className={LABEL_CLASS_NAME}>Depth</label>
+          <select id="depth" value={options.depth} onChange={e => set('depth', e.target.value as Depth)} className={FIELD_CLASS_NAME}>
+            {DEPTHS.map(depth => <option key={depth.value} value={depth.value}>{depth.label}</option>)}
+          </select>
+          <FieldError message={errors.depth} />
+        </div>
+        <div>
+          <label htmlFor="wordCount" className={LABEL_CLASS_NAME}>Approximate Length {perChapter ? '(words per chapter)' : '(words)'}</label>
+          <input
+            id="wordCount"
+            type="number"
+            min={WORD_COUNT_RANGE.min}
+            max={WORD_COUNT_RANGE.max}
+            step={100}
+            value={Number.isFinite(options.wordCount) ? options.wordCount : ''}
+            onChange={e => set('wordCount', e.target.valueAsNumber)}
+            className={FIELD_CLASS_NAME}
+          />
+          <FieldError message={errors.wordCount} />
+        </div>
+        <div>
+          <label htmlFor="language" className={LABEL_CLASS_NAME}>Language</label>
+          <select id="language" value={options.language} onChange={e => set('language', e.target.value)} className={FIELD_CLASS_NAME}>
+            {!LANGUAGES.some(l => l.value === options.language) && <option value={options.language}>{languageName(options.language)}</option>}
+            {LANGUAGES.map(language => <option key={language.value} value={language.value}>{language.label}</option>)}
+          </select>
+          <FieldError message={errors.language} />
+        </div>
+        <div>
+          <label htmlFor="illustrationCount" className={LABEL_CLASS_NAME}>Illustrations {perChapter ? '(per chapter)' : ''}</label>
+          <input
+            id="illustrationCount"
+            type="number"
+            min={0}
+            max={MAX_ILLUSTRATIONS}
+            value={Number.isFinite(options.illustrationCount) ? options.illustrationCount : ''}
+            onChange={e => set('illustrationCount', e.target.valueAsNumber)}
+            className={FIELD_CLASS_NAME}
+          />
+          <FieldError message={errors.illustrationCount} />
+        </div>
+        <fieldset>
+          <legend className={LABEL_CLASS_NAME}>Include</legend>
+          <div className="grid grid-cols-2 gap-2">
+            {TOGGLES.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={options[key]} onChange={e => set(key, e.target.checked)} className="h-4 w-4 accent-blue-600" />
+                {label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </details>
+  );
+};
+
+export default GenerationOptionsFields;
@@ -4,6 +4,7 @@
 */
 import React from 'react';
 import { SunIcon, MoonIcon } from './icons';
+import { type Route } from '../services/router';
 
 const BookIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -14,9 +15,21 @@ const BookIcon: React.FC<{ className?: string }> = ({ className }) => (
 interface HeaderProps {
     theme: 'light' | 'dark';
     toggleTheme: () => void;
+    route: Route;
+    libraryCount: number;
 }
 
-const Header: React.FC<HeaderProps> = ({ theme, toggleTheme }) => {
+const NavLink: React.FC<{ href: string; active: boolean; children: React.ReactNode }> = ({ href, active, children }) => (
+  <a
+    href={href}
+    aria-current={active ? 'page' : undefined}
+    className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${active ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+  >
+    {children}
+  </a>
+);
+
+const Header: React.FC<HeaderProps> = ({ theme, toggleTheme, route, libraryCount }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-gray-200 dark:border-gray-700 bg-white/80 dark:bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -26,6 +39,13 @@ const Header: React.FC<HeaderProps> = ({ theme, toggleTheme }) => {
                 AI Study Book Generator
               </h1>
           </div>
+          <div className="flex items-center gap-2">
+          <nav className="flex items-center gap-1">
+            <NavLink href="#/" active={route.name === 'form'}>New Book</NavLink>
+            <NavLink href="#/library" active={route.name !== 'form'}>
+              Library{libraryCount > 0 && <span className="ml-1.5 opacity-75">{libraryCount}</span>}
+            </NavLink>
+          </nav>
           <button
             onClick={toggleTheme}
             className="p-2 rounded-full text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-white dark:focus:ring-offset-gray-800 transition-colors"
@@ -33,6 +53,7 @@ const Header: React.FC<HeaderProps> = ({ theme, toggleTheme }) => {
           >
             {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
           </button>
+          </div>
       </div>
     </header>
   );
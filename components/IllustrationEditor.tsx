@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { regenerateIllustration, type Illustration, type IllustrationType } from '../services/geminiService';
+import { type AspectRatio } from '../services/modelProvider';
+import { type PromptPreset } from '../services/promptTemplates';
+import { readFileAsDataUrl } from '../services/imageAssets';
+import Spinner from './Spinner';
+
+interface IllustrationEditorProps {
+  illustration: Illustration;
+  /** The current image, or an empty string if it failed to generate. */
+  src: string;
+  /** The prompt preset the project was generated with; its rewrite templates write the fresh prompts. */
+  preset?: PromptPreset;
+  onApply: (illustration: Illustration, src: string) => void;
+  onClose: () => void;
+}
+
+const TYPES: { value: IllustrationType; label: string }[] = [
+  { value: 'structured', label: 'Structured' },
+  { value: 'diagram', label: 'Diagram' },
+  { value: 'photograph', label: 'Photo' },
+];
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1";
+const buttonClassName = "flex items-center justify-center gap-2 font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const IllustrationEditor: React.FC<IllustrationEditorProps> = ({ illustration, src, preset, onApply, onClose }) => {
+  const [type, setType] = useState<IllustrationType>(illustration.type);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(illustration.aspectRatio);
+  const [visualPrompt, setVisualPrompt] = useState<string>(illustration.visualPrompt);
+  const [code, setCode] = useState<string>(illustration.code ?? '');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !busy) onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [busy, onClose]);
+
+  // Keep the editor in sync after each applied change.
+  useEffect(() => {
+    setVisualPrompt(illustration.visualPrompt);
+    setCode(illustration.code ?? '');
+  }, [illustration.visualPrompt, illustration.code]);
+
+  const isStructured = type === 'structured';
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRegenerate = (rewritePrompt: boolean) =>
+    run(rewritePrompt ? 'Regenerating...' : `Rendering your ${isStructured ? 'code' : 'prompt'}...`, async () => {
+      const regenerated = await regenerateIllustration({ ...illustration, type, aspectRatio, visualPrompt, code: code || undefined }, rewritePrompt, preset);
+      onApply(regenerated.illustration, regenerated.src);
+    });
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run('Uploading...', async () => {
+      if (!file.type.startsWith('image/')) throw new Error('Please choose an image file.');
+      const dataUrl = await readFileAsDataUrl(file);
+      onApply({ ...illustration, origin: 'uploaded', failed: false }, dataUrl);
+    });
+  };
+
+  const settingsChanged = type !== illustration.type || aspectRatio !== illustration.aspectRatio;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={() => !busy && onClose()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit illustration"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-5"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Edit Illustration</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {illustration.origin === 'uploaded'
+                ? 'Uploaded image'
+                : illustration.type === 'structured' ? 'Structured diagram (editable vector)' : `Generated ${illustration.type} · ${illustration.aspectRatio}`}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={!!busy} aria-label="Close" className="text-2xl leading-none text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-50">
+            &times;
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="relative flex items-center justify-center min-h-[12rem] bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden">
+            {src
+              ? <img src={src} alt={illustration.prompt} className="max-h-[24rem] object-contain" />
+              : <p className="p-6 text-center text-amber-700 dark:text-amber-300">This illustration could not be generated.</p>}
+            {busy && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-white/80 dark:bg-gray-900/80">
+                <Spinner className="w-8 h-8 text-blue-600" />
+                <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">{busy}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-4">
+            <div>
+              <span className={labelClassName}>Original prompt</span>
+              <p className="text-sm text-gray-600 dark:text-gray-400 italic">"{illustration.prompt}"</p>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <span className={labelClassName}>Type</span>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg" role="radiogroup">
+                  {TYPES.map(option => (
+                    <button
+                      key={option.value}
+                      role="radio"
+                      aria-checked={type === option.value}
+                      onClick={() => setType(option.value)}
+                      className={`py-1 px-3 rounded-md text-sm font-semibold transition-colors ${type === option.value ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {!isStructured && (
+                <label>
+                  <span className={labelClassName}>Aspect ratio</span>
+                  <select
+                    value={aspectRatio}
+                    onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+                    className="bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                  </select>
+                </label>
+              )}
+            </div>
+            <label className="flex flex-col flex-grow">
+              <span className={labelClassName}>{isStructured ? 'Mermaid code' : 'Image prompt'}</span>
+              <textarea
+                value={isStructured ? code : visualPrompt}
+                onChange={(e) => (isStructured ? setCode(e.target.value) : setVisualPrompt(e.target.value))}
+                rows={isStructured ? 10 : 6}
+                spellCheck={!isStructured}
+                className={`w-full flex-grow text-sm ${isStructured ? 'font-mono' : ''} bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition`}
+              />
+            </label>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!busy}
+            className={`${buttonClassName} bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white`}
+          >
+            Upload Image
+          </button>
+          <button
+            onClick={() => handleRegenerate(false)}
+            disabled={!!busy || !(isStructured ? code : visualPrompt).trim()}
+            title={isStructured ? 'Draw the Mermaid code as written' : 'Render the image prompt exactly as written'}
+            className={`${buttonClassName} bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white`}
+          >
+            {isStructured ? 'Render This Code' : 'Render This Prompt'}
+          </button>
+          <button
+            onClick={() => handleRegenerate(true)}
+            disabled={!!busy}
+            title="Write a fresh image prompt from the original for the selected type, then render it"
+            className={`${buttonClassName} bg-blue-600 hover:bg-blue-700 text-white`}
+          >
+            {src ? (settingsChanged ? 'Apply & Regenerate' : 'Regenerate') : 'Retry'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IllustrationEditor;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type GenerationJob } from '../App';
+
+interface InterruptedJobsProps {
+  jobs: GenerationJob[];
+  onResume: (job: GenerationJob) => void;
+  onDiscard: (job: GenerationJob) => void;
+}
+
+/** Summarizes how far a job got, e.g. "2 of 6 chapters done, text drafted, 1 of 4 illustrations done". */
+const describeProgress = ({ checkpoint, outline }: GenerationJob): string => {
+  const parts: string[] = [];
+  if (outline) parts.push(`${checkpoint.chapters.length} of ${outline.length} chapters done`);
+  const { draft } = checkpoint;
+  if (draft) {
+    const total = draft.markdown.match(/\[IMAGE:\s*(.*?)\]/g)?.length ?? 0;
+    parts.push(total > 0 ? `text drafted, ${Object.keys(draft.finished ?? {}).length} of ${total} illustrations done` : 'text drafted');
+  } else if (!outline) {
+    parts.push('nothing finished yet');
+  }
+  return parts.join(', ');
+};
+
+const InterruptedJobs: React.FC<InterruptedJobsProps> = ({ jobs, onResume, onDiscard }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mt-10 p-8 bg-amber-50/80 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 rounded-2xl">
+      <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200 mb-2">Unfinished Generations</h2>
+      <p className="text-center text-sm text-gray-500 dark:text-gray-400 mb-6">These were interrupted. Resume picks up after the last finished step.</p>
+      <div className="space-y-3">
+        {jobs.map(job => (
+          <div key={job.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-white/80 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg">
+            <div className="flex-grow">
+              <p className="font-semibold text-gray-900 dark:text-gray-100">
+                {job.formData.topic}: {job.formData.subtopic}
+                <span className="ml-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{job.outline ? 'Book' : 'Guide'}</span>
+                {job.projectId !== undefined && (
+                  <span className="ml-2 text-xs font-semibold uppercase tracking-wide text-blue-600 dark:text-blue-400">New version</span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Last progress {new Date(job.updatedAt).toLocaleString()} · {describeProgress(job)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => onResume(job)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                Resume
+              </button>
+              <button onClick={() => onDiscard(job)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default InterruptedJobs;
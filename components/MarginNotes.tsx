@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useLayoutEffect, useRef } from 'react';
+import { type Annotation } from '../services/annotations';
+import { SWATCH_CLASS_NAMES } from './AnnotationPopover';
+
+export interface PlacedNote {
+  annotation: Annotation;
+  /** The top of the highlighted text, relative to the margin. */
+  top: number;
+}
+
+interface MarginNotesProps {
+  notes: PlacedNote[];
+  onSelect: (annotation: Annotation) => void;
+}
+
+const GAP = 8;
+
+/** Notes beside the text they were written on; a note that would overlap the one above moves down. */
+const MarginNotes: React.FC<MarginNotesProps> = ({ notes, onSelect }) => {
+  const cardRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useLayoutEffect(() => {
+    let bottom = 0;
+    notes.forEach((note, i) => {
+      const card = cardRefs.current[i];
+      if (!card) return;
+      const top = Math.max(note.top, bottom);
+      card.style.top = `${top}px`;
+      bottom = top + card.offsetHeight + GAP;
+    });
+  }, [notes]);
+
+  return (
+    <aside aria-label="Margin notes" className="relative self-stretch hidden xl:block">
+      {notes.map(({ annotation }, i) => (
+        <button
+          key={annotation.id}
+          ref={el => { cardRefs.current[i] = el; }}
+          onClick={() => onSelect(annotation)}
+          className="absolute inset-x-0 text-left p-3 bg-white/90 dark:bg-gray-800/80 border border-gray-300 dark:border-gray-700 rounded-lg shadow-sm hover:border-blue-400 dark:hover:border-blue-500 transition-colors"
+        >
+          <span className="flex items-start gap-2">
+            <span className={`mt-1 w-2 h-2 shrink-0 rounded-full ${SWATCH_CLASS_NAMES[annotation.color]}`} />
+            <span className="text-sm text-gray-800 dark:text-gray-200 line-clamp-4 whitespace-pre-line">{annotation.note}</span>
+          </span>
+        </button>
+      ))}
+    </aside>
+  );
+};
+
+export default MarginNotes;
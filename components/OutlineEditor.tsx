@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { type OutlineChapter } from '../services/geminiService';
+
+interface OutlineEditorProps {
+  title: string;
+  outline: OutlineChapter[];
+  onConfirm: (outline: OutlineChapter[]) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none transition";
+const smallButtonClassName = "px-2 py-1 text-sm rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ title, outline, onConfirm, onCancel }) => {
+  const [chapters, setChapters] = useState<OutlineChapter[]>(outline);
+
+  const updateChapter = (index: number, changes: Partial<OutlineChapter>) => {
+    setChapters(prev => prev.map((chapter, i) => (i === index ? { ...chapter, ...changes } : chapter)));
+  };
+
+  const moveChapter = (index: number, offset: -1 | 1) => {
+    setChapters(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeChapter = (index: number) => {
+    setChapters(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addChapter = () => {
+    setChapters(prev => [...prev, { title: '', summary: '' }]);
+  };
+
+  const isValid = chapters.length > 0 && chapters.every(chapter => chapter.title.trim() !== '');
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in">
+      <div className="p-8 bg-white dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-2xl dark:backdrop-blur-sm flex flex-col gap-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-extrabold tracking-tight text-gray-900 dark:text-gray-100">Review the Table of Contents</h1>
+          <p className="mt-2 text-lg text-gray-500 dark:text-gray-400">{title}</p>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Edit, reorder, add or remove chapters. Each chapter is written and illustrated separately.
+          </p>
+        </div>
+
+        <ol className="space-y-4">
+          {chapters.map((chapter, index) => (
+            <li key={index} className="p-4 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg flex flex-col gap-2">
+              <div className="flex items-center gap-3">
+                <span className="font-bold text-gray-500 dark:text-gray-400 w-8 shrink-0">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={chapter.title}
+                  onChange={(e) => updateChapter(index, { title: e.target.value })}
+                  placeholder="Chapter title"
+                  aria-label={`Chapter ${index + 1} title`}
+                  className={`${inputClassName} font-semibold`}
+                />
+                <div className="flex items-center shrink-0">
+                  <button type="button" onClick={() => moveChapter(index, -1)} disabled={index === 0} className={smallButtonClassName} aria-label="Move up">↑</button>
+                  <button type="button" onClick={() => moveChapter(index, 1)} disabled={index === chapters.length - 1} className={smallButtonClassName} aria-label="Move down">↓</button>
+                  <button type="button" onClick={() => removeChapter(index)} className={`${smallButtonClassName} text-red-600 dark:text-red-400`} aria-label="Remove chapter">✕</button>
+                </div>
+              </div>
+              <textarea
+                value={chapter.summary}
+                onChange={(e) => updateChapter(index, { summary: e.target.value })}
+                rows={2}
+                placeholder="What this chapter should cover"
+                aria-label={`Chapter ${index + 1} summary`}
+                className={`${inputClassName} text-sm ml-11 w-[calc(100%-2.75rem)]`}
+              />
+            </li>
+          ))}
+        </ol>
+
+        <button
+          type="button"
+          onClick={addChapter}
+          className="self-start text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          + Add chapter
+        </button>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="sm:w-1/3 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-3 px-6 rounded-lg transition-colors"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(chapters.map(chapter => ({ title: chapter.title.trim(), summary: chapter.summary.trim() })))}
+            disabled={!isValid}
+            className="flex-1 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 disabled:from-gray-400 disabled:to-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            Generate {chapters.length} {chapters.length === 1 ? 'Chapter' : 'Chapters'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { toAnkiCsv, type QuizQuestion, type StudyAids } from '../services/quizService';
+import { downloadText } from '../services/download';
+import { slugify } from '../services/markdown';
+import { DownloadIcon, RestartIcon } from './icons';
+import Spinner from './Spinner';
+
+interface PracticePanelProps {
+  title: string;
+  studyAids?: StudyAids;
+  onGenerate: () => Promise<void>;
+}
+
+type PracticeTab = 'quiz' | 'flashcards';
+
+const cardClassName = "bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-6 sm:p-8 rounded-2xl shadow-lg";
+const secondaryButtonClassName = "flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50";
+const primaryButtonClassName = "bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestion['type'], string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True / false',
+  'short-answer': 'Short answer',
+};
+
+const groupBySection = (questions: QuizQuestion[]): [string, QuizQuestion[]][] => {
+  const groups = new Map<string, QuizQuestion[]>();
+  for (const question of questions) {
+    groups.set(question.section, [...(groups.get(question.section) ?? []), question]);
+  }
+  return Array.from(groups.entries());
+};
+
+const Quiz: React.FC<{ questions: QuizQuestion[] }> = ({ questions }) => {
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const [writtenAnswers, setWrittenAnswers] = useState<Record<string, string>>({});
+  const [selfGrades, setSelfGrades] = useState<Record<string, boolean>>({});
+  const [submitted, setSubmitted] = useState<boolean>(false);
+
+  const isCorrect = (question: QuizQuestion) =>
+    question.type === 'short-answer' ? selfGrades[question.id] === true : choices[question.id] === question.correctChoice;
+
+  const answeredCount = questions.filter(q => (q.type === 'short-answer' ? writtenAnswers[q.id]?.trim() : choices[q.id] !== undefined)).length;
+  const ungradedCount = questions.filter(q => q.type === 'short-answer' && selfGrades[q.id] === undefined).length;
+  const score = questions.filter(isCorrect).length;
+
+  const handleRetake = () => {
+    setChoices({});
+    setWrittenAnswers({});
+    setSelfGrades({});
+    setSubmitted(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {submitted && (
+        <div className={`${cardClassName} flex flex-col sm:flex-row items-center justify-between gap-4`}>
+          <div>
+            <p className="text-3xl font-extrabold text-gray-900 dark:text-gray-100">{score} / {questions.length}</p>
+            <p className="text-gray-500 dark:text-gray-400">
+              {ungradedCount > 0 ? `Grade your ${ungradedCount} short ${ungradedCount === 1 ? 'answer' : 'answers'} below to finish scoring.` : `${Math.round((score / questions.length) * 100)}% correct`}
+            </p>
+          </div>
+          <button onClick={handleRetake} className={secondaryButtonClassName}>
+            <RestartIcon className="w-5 h-5" />
+            <span>Retake Quiz</span>
+          </button>
+        </div>
+      )}
+
+      {groupBySection(questions).map(([section, sectionQuestions]) => (
+        <section key={section} className={cardClassName}>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">{section}</h3>
+          <ol className="space-y-6">
+            {sectionQuestions.map(question => {
+              const correct = isCorrect(question);
+              return (
+                <li key={question.id} className="flex flex-col gap-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{QUESTION_TYPE_LABELS[question.type]}</p>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{question.prompt}</p>
+                  </div>
+
+                  {question.type === 'short-answer' ? (
+                    <textarea
+                      value={writtenAnswers[question.id] ?? ''}
+                      onChange={(e) => setWrittenAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                      disabled={submitted}
+                      rows={2}
+                      placeholder="Your answer"
+                      className="w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-80"
+                    />
+                  ) : (
+                    <div className="flex flex-col gap-2" role="radiogroup">
+                      {question.choices.map((choice, i) => {
+                        const selected = choices[question.id] === i;
+                        const feedback = submitted && (i === question.correctChoice
+                          ? 'border-green-500 bg-green-50 dark:bg-green-500/10'
+                          : selected ? 'border-red-500 bg-red-50 dark:bg-red-500/10' : '');
+                        return (
+                          <label
+                            key={i}
+                            className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${feedback || (selected ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10' : 'border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800')}`}
+                          >
+                            <input
+                              type="radio"
+                              name={question.id}
+                              checked={selected}
+                              disabled={submitted}
+                              onChange={() => setChoices(prev => ({ ...prev, [question.id]: i }))}
+                            />
+                            <span className="text-gray-800 dark:text-gray-200">{choice}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {submitted && (
+                    <div className="p-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300 flex flex-col gap-2">
+                      {question.type === 'short-answer' ? (
+                        <>
+                          <p><span className="font-semibold">Model answer:</span> {question.answer}</p>
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold">Did you get it?</span>
+                            {[true, false].map(grade => (
+                              <button
+                                key={String(grade)}
+                                onClick={() => setSelfGrades(prev => ({ ...prev, [question.id]: grade }))}
+                                className={`px-3 py-1 rounded-md font-semibold transition-colors ${selfGrades[question.id] === grade ? (grade ? 'bg-green-600 text-white' : 'bg-red-600 text-white') : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                              >
+                                {grade ? 'Yes' : 'No'}
+                              </button>
+                            ))}
+                          </div>
+                        </>
+                      ) : (
+                        <p className={`font-semibold ${correct ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                          {correct ? 'Correct.' : `Incorrect. The answer is: ${question.answer}`}
+                        </p>
+                      )}
+                      {question.explanation && <p>{question.explanation}</p>}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ))}
+
+      {!submitted && (
+        <div className="flex items-center justify-end gap-4">
+          <span className="text-sm text-gray-500 dark:text-gray-400">{answeredCount} of {questions.length} answered</span>
+          <button onClick={() => setSubmitted(true)} disabled={answeredCount === 0} className={primaryButtonClassName}>
+            Check Answers
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FlashcardDeck: React.FC<{ studyAids: StudyAids; title: string }> = ({ studyAids, title }) => {
+  const { flashcards } = studyAids;
+  const [index, setIndex] = useState<number>(0);
+  const [flipped, setFlipped] = useState<boolean>(false);
+  const card = flashcards[index];
+
+  const go = (offset: number) => {
+    setIndex(prev => (prev + offset + flashcards.length) % flashcards.length);
+    setFlipped(false);
+  };
+
+  if (!card) {
+    return <p className="text-center text-gray-500 dark:text-gray-400">No flashcards were generated for this book.</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <button
+        onClick={() => setFlipped(prev => !prev)}
+        className={`${cardClassName} w-full max-w-2xl min-h-[16rem] flex flex-col items-center justify-center gap-3 text-center hover:shadow-xl transition-shadow`}
+        aria-label={flipped ? 'Show front' : 'Show back'}
+      >
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{card.section} · {flipped ? 'Back' : 'Front'}</span>
+        <span className={`${flipped ? 'text-lg' : 'text-2xl font-bold'} text-gray-900 dark:text-gray-100`}>{flipped ? card.back : card.front}</span>
+        <span className="text-xs text-gray-400 dark:text-gray-500">Click to flip</span>
+      </button>
+      <div className="flex items-center gap-4">
+        <button onClick={() => go(-1)} className={secondaryButtonClassName}>Previous</button>
+        <span className="text-gray-600 dark:text-gray-400 min-w-[5rem] text-center">{index + 1} / {flashcards.length}</span>
+        <button onClick={() => go(1)} className={secondaryButtonClassName}>Next</button>
+      </div>
+      <button
+        onClick={() => downloadText(toAnkiCsv(flashcards, title), `${slugify(title || 'study-book')}-flashcards.csv`, 'text/csv')}
+        className={secondaryButtonClassName}
+      >
+        <DownloadIcon className="w-5 h-5" />
+        <span>Export for Anki (CSV)</span>
+      </button>
+    </div>
+  );
+};
+
+const PracticePanel: React.FC<PracticePanelProps> = ({ title, studyAids, onGenerate }) => {
+  const [tab, setTab] = useState<PracticeTab>('quiz');
+  const [generating, setGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Remount the quiz when a new set is generated so stale answers are dropped.
+  const quizKey = useMemo(() => studyAids?.generatedAt ?? 0, [studyAids]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      await onGenerate();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (!studyAids) {
+    return (
+      <div className={`${cardClassName} flex flex-col items-center gap-4 text-center`}>
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Test Yourself</h3>
+        <p className="text-gray-500 dark:text-gray-400 max-w-xl">
+          Generate multiple-choice, true/false and short-answer questions for each section, plus a flashcard deck you can review here or export to Anki.
+        </p>
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+        <button onClick={handleGenerate} disabled={generating} className={`${primaryButtonClassName} flex items-center gap-2`}>
+          {generating && <Spinner className="w-5 h-5" />}
+          <span>{generating ? 'Writing questions...' : 'Generate Quiz & Flashcards'}</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div className="grid grid-cols-2 gap-1 p-1 bg-gray-100 dark:bg-gray-800/60 border border-gray-300 dark:border-gray-700 rounded-lg" role="tablist">
+          {([['quiz', `Quiz (${studyAids.questions.length})`], ['flashcards', `Flashcards (${studyAids.flashcards.length})`]] as [PracticeTab, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => setTab(value)}
+              className={`py-1.5 px-4 rounded-md text-sm font-semibold transition-colors ${tab === value ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button onClick={handleGenerate} disabled={generating} className={secondaryButtonClassName}>
+          {generating ? <Spinner className="w-5 h-5" /> : <RestartIcon className="w-5 h-5" />}
+          <span>{generating ? 'Regenerating...' : 'New Questions'}</span>
+        </button>
+      </div>
+      {error && <p className="text-center text-red-600 dark:text-red-400">{error}</p>}
+      {tab === 'quiz'
+        ? (studyAids.questions.length > 0
+            ? <Quiz key={quizKey} questions={studyAids.questions} />
+            : <p className="text-center text-gray-500 dark:text-gray-400">No questions were generated for this book.</p>)
+        : <FlashcardDeck key={quizKey} studyAids={studyAids} title={title} />}
+    </div>
+  );
+};
+
+export default PracticePanel;
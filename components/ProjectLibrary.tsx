@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { type SavedProject } from '../App';
+import { type StorageUsage } from '../services/projectStore';
+import { type ImportReport } from '../services/projectArchive';
+import Spinner from './Spinner';
+import { HistoryIcon } from './icons';
+
+interface ProjectLibraryProps {
+  projects: SavedProject[];
+  /** Flashcards due for review today, keyed by project timestamp. */
+  dueCounts: Record<number, number>;
+  storageUsage: StorageUsage | null;
+  onSelect: (project: SavedProject) => void;
+  onRename: (project: SavedProject, title: string) => void;
+  onOrganize: (project: SavedProject, changes: Pick<SavedProject, 'tags' | 'folder'>) => void;
+  onDuplicate: (project: SavedProject) => void;
+  onDelete: (project: SavedProject) => void;
+  /** Downloads the projects as one archive. */
+  onExport: (projects: SavedProject[]) => void;
+  /** Saves the projects in an archive; rejects if the file can't be read at all. */
+  onImport: (file: File) => Promise<ImportReport>;
+  onStartReview: () => void;
+}
+
+/** Folder filter values besides a folder name. */
+const ALL_FOLDERS = '';
+const UNFILED = '\u0000unfiled';
+
+const inputClassName = "bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none transition";
+const rowButtonClassName = "px-2.5 py-1 text-xs font-semibold rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors";
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const parseTags = (text: string) => [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+const StorageMeter: React.FC<{ usage: StorageUsage }> = ({ usage }) => {
+  const percent = Math.min(100, (usage.usage / usage.quota) * 100);
+  const barColor = percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-amber-500' : 'bg-blue-500';
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+        <span>Storage used</span>
+        <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)}</span>
+      </div>
+      <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuenow={Math.round(percent)} aria-valuemin={0} aria-valuemax={100}>
+        <div className={`h-full ${barColor}`} style={{ width: `${Math.max(percent, 1)}%` }} />
+      </div>
+    </div>
+  );
+};
+
+interface ProjectRowProps {
+  project: SavedProject;
+  dueCount: number;
+  folders: string[];
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onOrganize: (changes: Pick<SavedProject, 'tags' | 'folder'>) => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const ProjectRow: React.FC<ProjectRowProps> = ({ project, dueCount, folders, onSelect, onRename, onOrganize, onDuplicate, onExport, onDelete }) => {
+  const [mode, setMode] = useState<'view' | 'rename' | 'organize' | 'delete'>('view');
+  const [title, setTitle] = useState<string>(project.title);
+  const [tags, setTags] = useState<string>('');
+  const [folder, setFolder] = useState<string>('');
+
+  const startRename = () => {
+    setTitle(project.title);
+    setMode('rename');
+  };
+
+  const startOrganize = () => {
+    setTags((project.tags ?? []).join(', '));
+    setFolder(project.folder ?? '');
+    setMode('organize');
+  };
+
+  const saveRename = () => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== project.title) onRename(trimmed);
+    setMode('view');
+  };
+
+  const saveOrganize = () => {
+    onOrganize({ tags: parseTags(tags), folder: folder.trim() || undefined });
+    setMode('view');
+  };
+
+  const handleKeyDown = (save: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') save();
+    if (e.key === 'Escape') setMode('view');
+  };
+
+  return (
+    <div className="p-4 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg">
+      {mode === 'rename' ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} onKeyDown={handleKeyDown(saveRename)} autoFocus aria-label="Project title" className={`${inputClassName} flex-grow`} />
+          <button onClick={saveRename} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">Save</button>
+          <button onClick={() => setMode('view')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <button onClick={onSelect} className="text-left flex-grow min-w-0 rounded focus:outline-none focus:ring-2 focus:ring-blue-500">
+            <p className="font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400">{project.title}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Created on: {new Date(project.timestamp).toLocaleString()}
+              {project.folder && <> · <span className="font-medium">{project.folder}</span></>}
+              {project.template && <> · {project.template.name} v{project.template.version}</>}
+            </p>
+          </button>
+          {project.studyAids && project.studyAids.flashcards.length > 0 && (
+            <span className={`shrink-0 text-xs font-semibold px-2 py-1 rounded-full ${dueCount ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300' : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-400'}`}>
+              {dueCount} due
+            </span>
+          )}
+        </div>
+      )}
+
+      {mode !== 'rename' && project.tags && project.tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {project.tags.map(tag => (
+            <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300">{tag}</span>
+          ))}
+        </div>
+      )}
+
+      {mode === 'organize' && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+          <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} onKeyDown={handleKeyDown(saveOrganize)} placeholder="Tags, separated by commas" aria-label="Tags" autoFocus className={inputClassName} />
+          <input type="text" value={folder} onChange={(e) => setFolder(e.target.value)} onKeyDown={handleKeyDown(saveOrganize)} placeholder="Folder" aria-label="Folder" list={`folders-${project.timestamp}`} className={inputClassName} />
+          <datalist id={`folders-${project.timestamp}`}>
+            {folders.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <div className="flex gap-2">
+            <button onClick={saveOrganize} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">Save</button>
+            <button onClick={() => setMode('view')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'delete' && (
+        <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+          <span className="text-sm text-red-600 dark:text-red-400 mr-auto">Delete this project and its images? This can't be undone.</span>
+          <button onClick={onDelete} className="bg-red-500 hover:bg-red-600 text-white font-bold py-1.5 px-4 rounded-lg transition-colors">Delete</button>
+          <button onClick={() => setMode('view')} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-1.5 px-4 rounded-lg transition-colors">Cancel</button>
+        </div>
+      )}
+
+      {mode === 'view' && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          <button onClick={startRename} className={rowButtonClassName}>Rename</button>
+          <button onClick={startOrganize} className={rowButtonClassName}>Tags &amp; Folder</button>
+          <button onClick={onDuplicate} className={rowButtonClassName}>Duplicate</button>
+          <button onClick={onExport} className={rowButtonClassName}>Export</button>
+          <button onClick={() => setMode('delete')} className={`${rowButtonClassName} hover:text-red-600 dark:hover:text-red-400`}>Delete</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ImportSummary: React.FC<{ report: ImportReport; onDismiss: () => void }> = ({ report, onDismiss }) => (
+  <div role="status" className="mb-4 p-4 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg text-sm">
+    <div className="flex items-start justify-between gap-4">
+      <p className="font-semibold text-gray-800 dark:text-gray-200">
+        Imported {report.imported.length} {report.imported.length === 1 ? 'project' : 'projects'}
+        {report.renumbered > 0 && <span className="font-normal text-gray-500 dark:text-gray-400"> ({report.renumbered} given a new ID because {report.renumbered === 1 ? 'it was' : 'they were'} already in your library)</span>}
+        {report.rejected.length > 0 && `, rejected ${report.rejected.length}`}.
+      </p>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-lg leading-none text-gray-500 hover:text-gray-800 dark:hover:text-gray-200">&times;</button>
+    </div>
+    {report.rejected.length > 0 && (
+      <ul className="mt-2 list-disc pl-5 text-red-600 dark:text-red-400">
+        {report.rejected.map((item, i) => <li key={i}><span className="font-medium">{item.title}:</span> {item.reason}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, dueCounts, storageUsage, onSelect, onRename, onOrganize, onDuplicate, onDelete, onExport, onImport, onStartReview }) => {
+  const [query, setQuery] = useState<string>('');
+  const [folderFilter, setFolderFilter] = useState<string>(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const folders = useMemo(() => [...new Set(projects.flatMap(project => (project.folder ? [project.folder] : [])))].sort(), [projects]);
+  const tags = useMemo(() => [...new Set(projects.flatMap(project => project.tags ?? []))].sort(), [projects]);
+
+  const filteredProjects = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return projects.filter(project => {
+      if (folderFilter === UNFILED ? project.folder : folderFilter && project.folder !== folderFilter) return false;
+      if (tagFilter && !project.tags?.includes(tagFilter)) return false;
+      const haystack = [project.title, project.formData.topic, project.formData.subtopic, ...(project.tags ?? [])].join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [projects, query, folderFilter, tagFilter]);
+
+  const totalDue = projects.reduce((sum, project) => sum + (dueCounts[project.timestamp] ?? 0), 0);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setImportReport(null);
+    setImportError(null);
+    try {
+      setImportReport(await onImport(file));
+    } catch (err) {
+      console.error(err);
+      setImportError(err instanceof Error ? err.message : 'The archive could not be imported.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const isFiltered = filteredProjects.length !== projects.length;
+
+  return (
+    <div className="mt-10 p-8 bg-white/70 dark:bg-gray-800/30 border border-gray-200/80 dark:border-gray-700/60 rounded-2xl">
+      <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200 mb-6 flex items-center justify-center gap-3">
+        <HistoryIcon className="w-6 h-6" />
+        Your Projects
+        <span className="text-base font-normal text-gray-500 dark:text-gray-400">({projects.length})</span>
+      </h2>
+      {storageUsage && <StorageMeter usage={storageUsage} />}
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {importing && <Spinner className="w-4 h-4" />}
+          {importing ? 'Importing...' : 'Import Projects'}
+        </button>
+        {filteredProjects.length > 0 && (
+          <button
+            onClick={() => onExport(filteredProjects)}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            {isFiltered ? `Export ${filteredProjects.length} Shown` : 'Export All'}
+          </button>
+        )}
+      </div>
+      {importError && <p className="mb-4 text-sm text-center text-red-600 dark:text-red-400">{importError}</p>}
+      {importReport && <ImportSummary report={importReport} onDismiss={() => setImportReport(null)} />}
+      {totalDue > 0 && (
+        <button
+          onClick={onStartReview}
+          className="w-full mb-4 bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          Review {totalDue} due {totalDue === 1 ? 'flashcard' : 'flashcards'}
+        </button>
+      )}
+
+      {projects.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400">No projects yet. Generate one above or import an archive.</p>
+      ) : (
+        <>
+        <div className="flex flex-col sm:flex-row gap-2 mb-3">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by title, topic or tag"
+            aria-label="Search projects"
+            className={`${inputClassName} flex-grow`}
+          />
+          {folders.length > 0 && (
+            <select value={folderFilter} onChange={(e) => setFolderFilter(e.target.value)} aria-label="Folder" className={inputClassName}>
+              <option value={ALL_FOLDERS}>All folders</option>
+              <option value={UNFILED}>Unfiled</option>
+              {folders.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-4">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(prev => (prev === tag ? null : tag))}
+                aria-pressed={tagFilter === tag}
+                className={`text-xs px-2.5 py-1 rounded-full font-semibold transition-colors ${tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {filteredProjects.map((project) => (
+            <ProjectRow
+              key={project.timestamp}
+              project={project}
+              dueCount={dueCounts[project.timestamp] ?? 0}
+              folders={folders}
+              onSelect={() => onSelect(project)}
+              onRename={(title) => onRename(project, title)}
+              onOrganize={(changes) => onOrganize(project, changes)}
+              onDuplicate={() => onDuplicate(project)}
+              onExport={() => onExport([project])}
+              onDelete={() => onDelete(project)}
+            />
+          ))}
+          {filteredProjects.length === 0 && (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-4">No projects match your filters.</p>
+          )}
+        </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
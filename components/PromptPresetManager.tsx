@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { type FormData } from './StartScreen';
+import { previewPrompt } from '../services/geminiService';
+import {
+  BUILT_IN_PRESETS,
+  PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_IDS,
+  saveCustomPresets,
+  validateTemplate,
+  type PromptPreset,
+  type PromptTemplateId,
+} from '../services/promptTemplates';
+
+interface PromptPresetManagerProps {
+  customPresets: PromptPreset[];
+  /** The preset to open first, e.g. the one picked in the form. */
+  initialPresetId: string;
+  /** The form's values, for previewing the prompts. */
+  formData: FormData;
+  /** Called with the custom presets after each successful save. */
+  onPresetsChange: (presets: PromptPreset[]) => void;
+  onUse: (preset: PromptPreset) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<PromptPreset, 'name' | 'description' | 'templates'>;
+
+const toDraft = ({ name, description, templates }: PromptPreset): Draft => ({ name, description, templates });
+
+const newPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1";
+const fieldClassName = "w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-60";
+const buttonClassName = "font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButtonClassName = `${buttonClassName} bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white`;
+
+/** Lists the built-in and custom prompt presets, and edits, previews and saves the custom ones. */
+const PromptPresetManager: React.FC<PromptPresetManagerProps> = ({ customPresets, initialPresetId, formData, onPresetsChange, onUse, onClose }) => {
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const [selectedId, setSelectedId] = useState<string>(presets.some(p => p.id === initialPresetId) ? initialPresetId : BUILT_IN_PRESETS[0].id);
+  const selected = presets.find(p => p.id === selectedId) ?? BUILT_IN_PRESETS[0];
+  const [draft, setDraft] = useState<Draft>(toDraft(selected));
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('studyGuide');
+  const [showPreview, setShowPreview] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const readOnly = !!selected.builtIn;
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(selected));
+  const text = draft.templates[templateId] ?? PROMPT_TEMPLATES[templateId].text;
+  const problems = Object.fromEntries(PROMPT_TEMPLATE_IDS.map(id => [id, validateTemplate(id, draft.templates[id] ?? PROMPT_TEMPLATES[id].text)])) as Record<PromptTemplateId, string[]>;
+  const hasProblems = PROMPT_TEMPLATE_IDS.some(id => problems[id].length > 0) || !draft.name.trim();
+
+  const select = (preset: PromptPreset) => {
+    setSelectedId(preset.id);
+    setDraft(toDraft(preset));
+    setConfirmingDelete(false);
+    setError(null);
+  };
+
+  /** Saves the custom presets, keeping the editor open with a message if storage fails. */
+  const persist = (next: PromptPreset[]) => {
+    try {
+      saveCustomPresets(next);
+    } catch (e) {
+      console.error('Failed to save prompt presets:', e);
+      setError('The templates could not be saved. Browser storage may be full.');
+      return false;
+    }
+    setError(null);
+    onPresetsChange(next);
+    return true;
+  };
+
+  const handleCreate = (from?: PromptPreset) => {
+    const preset: PromptPreset = {
+      id: newPresetId(),
+      name: from ? `${from.name} (copy)` : 'New template',
+      description: from?.description ?? '',
+      version: 1,
+      templates: { ...from?.templates },
+    };
+    if (persist([...customPresets, preset])) select(preset);
+  };
+
+  const handleSave = () => {
+    const saved: PromptPreset = { ...selected, ...draft, name: draft.name.trim(), version: selected.version + 1 };
+    if (persist(customPresets.map(p => (p.id === saved.id ? saved : p)))) select(saved);
+  };
+
+  const handleDelete = () => {
+    if (persist(customPresets.filter(p => p.id !== selected.id))) select(BUILT_IN_PRESETS[0]);
+  };
+
+  const setTemplate = (value: string) => {
+    const templates = { ...draft.templates };
+    if (value === PROMPT_TEMPLATES[templateId].text) delete templates[templateId];
+    else templates[templateId] = value;
+    setDraft({ ...draft, templates });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Prompt templates"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-5"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Prompt Templates</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">The instructions the model is given at each step. Duplicate a built-in template to customize it.</p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="text-2xl leading-none text-gray-500 hover:text-gray-800 dark:hover:text-gray-200">
+            &times;
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6">
+          <div className="flex flex-col gap-2">
+            <ul className="flex flex-col gap-1">
+              {presets.map(preset => (
+                <li key={preset.id}>
+                  <button
+                    onClick={() => select(preset)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${preset.id === selected.id ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    <span className="font-semibold">{preset.name}</span>
+                    <span className={`block text-xs ${preset.id === selected.id ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {preset.builtIn ? 'Built-in' : 'Custom'} · v{preset.version}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => handleCreate()} className={secondaryButtonClassName}>New Template</button>
+          </div>
+
+          <div className="flex flex-col gap-4 min-w-0">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label>
+                <span className={labelClassName}>Name</span>
+                <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} disabled={readOnly} className={fieldClassName} />
+              </label>
+              <label>
+                <span className={labelClassName}>Description</span>
+                <input type="text" value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} disabled={readOnly} className={fieldClassName} />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-1 p-1 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-700 rounded-lg" role="tablist">
+              {PROMPT_TEMPLATE_IDS.map(id => (
+                <button
+                  key={id}
+                  role="tab"
+                  aria-selected={templateId === id}
+                  onClick={() => setTemplateId(id)}
+                  className={`py-1 px-3 rounded-md text-sm font-semibold transition-colors ${templateId === id ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                >
+                  {PROMPT_TEMPLATES[id].label}
+                  {draft.templates[id] !== undefined && ' •'}
+                  {problems[id].length > 0 && <span className="text-red-500"> !</span>}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{PROMPT_TEMPLATES[templateId].description}</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-[1fr_16rem] gap-4">
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <span className={labelClassName}>{showPreview ? 'Preview with your form' : 'Template'}</span>
+                  <div className="flex gap-3 text-sm font-semibold">
+                    {!readOnly && !showPreview && draft.templates[templateId] !== undefined && (
+                      <button onClick={() => setTemplate(PROMPT_TEMPLATES[templateId].text)} className="text-gray-600 dark:text-gray-300 hover:underline">Reset to Default</button>
+                    )}
+                    <button onClick={() => setShowPreview(prev => !prev)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {showPreview ? 'Edit' : 'Preview'}
+                    </button>
+                  </div>
+                </div>
+                {showPreview ? (
+                  <pre className="h-96 overflow-auto whitespace-pre-wrap text-sm bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3">
+                    {previewPrompt(templateId, { ...formData, preset: { ...selected, ...draft } })}
+                  </pre>
+                ) : (
+                  <textarea
+                    value={text}
+                    onChange={e => setTemplate(e.target.value)}
+                    readOnly={readOnly}
+                    rows={18}
+                    spellCheck={false}
+                    aria-label={`${PROMPT_TEMPLATES[templateId].label} template`}
+                    className={`${fieldClassName} h-96 font-mono text-sm`}
+                  />
+                )}
+                {problems[templateId].map(problem => (
+                  <p key={problem} className="text-sm text-red-600 dark:text-red-400">{problem}</p>
+                ))}
+              </div>
+              <div>
+                <span className={labelClassName}>Variables</span>
+                <ul className="flex flex-col gap-2 text-sm">
+                  {PROMPT_TEMPLATES[templateId].variables.map(variable => (
+                    <li key={variable.name}>
+                      <code className="font-mono text-blue-700 dark:text-blue-300">{`{{${variable.name}}}`}</code>
+                      {variable.required && <span className="text-xs text-gray-500 dark:text-gray-400"> (required)</span>}
+                      <p className="text-gray-600 dark:text-gray-400">{variable.description}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          {!readOnly && (confirmingDelete ? (
+            <>
+              <span className="self-center text-sm text-gray-600 dark:text-gray-300">Delete "{selected.name}"?</span>
+              <button onClick={() => setConfirmingDelete(false)} className={secondaryButtonClassName}>Cancel</button>
+              <button onClick={handleDelete} className={`${buttonClassName} bg-red-600 hover:bg-red-700 text-white`}>Delete</button>
+            </>
+          ) : (
+            <button onClick={() => setConfirmingDelete(true)} className={`${buttonClassName} text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10`}>Delete</button>
+          ))}
+          <button onClick={() => handleCreate({ ...selected, ...draft })} className={secondaryButtonClassName}>Duplicate</button>
+          {!readOnly && (
+            <button onClick={handleSave} disabled={!dirty || hasProblems} className={secondaryButtonClassName}>Save</button>
+          )}
+          <button
+            onClick={() => onUse(selected)}
+            disabled={dirty}
+            title={dirty ? 'Save your changes first' : undefined}
+            className={`${buttonClassName} bg-blue-600 hover:bg-blue-700 text-white`}
+          >
+            Use This Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptPresetManager;
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { type RevisionAction } from '../services/geminiService';
+import { type Heading, type Section } from '../services/markdown';
+import {
+  combineFixes,
+  readingEaseLabel,
+  resolveSection,
+  type FindingKind,
+  type QualityReport,
+  type ReviewFinding,
+  type SectionFix,
+} from '../services/qualityReview';
+import { InfoIcon, RestartIcon } from './icons';
+import Spinner from './Spinner';
+
+interface QualityReportPanelProps {
+  report?: QualityReport;
+  /** The book's sections as they are now, which may have changed since the review. */
+  sections: Section[];
+  headings: Heading[];
+  /** Runs the review, or runs it again; unset when the input the book was generated from is missing. */
+  onRun?: () => Promise<void>;
+  /** Revises a section to fix the given findings. */
+  onFix: (sectionIndex: number, fix: SectionFix, findingIds: string[]) => void;
+  onJump: (anchor: string) => void;
+  /** The section being revised and how far it has got, if any. */
+  revision: { index: number; message: string } | null;
+  sectionErrors: Record<number, string>;
+}
+
+const cardClassName = "bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-6 sm:p-8 rounded-2xl shadow-lg";
+const secondaryButtonClassName = "flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50";
+const primaryButtonClassName = "bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  guide: 'Guide',
+  references: 'References',
+  grounding: 'Unsourced claim',
+  structure: 'Structure',
+  readability: 'Readability',
+};
+
+const FIX_LABELS: Record<RevisionAction, string> = {
+  regenerate: 'Rewrite to Fix',
+  expand: 'Expand to Fix',
+  simplify: 'Simplify to Fix',
+};
+
+/** The findings about one section, or about the whole book when `index` is -1. */
+interface FindingGroup {
+  index: number;
+  heading: string;
+  /** Set for a section that has since been removed or renamed. */
+  gone?: boolean;
+  findings: ReviewFinding[];
+}
+
+/** The heading slug of each section, by matching the sections' headings to the document's headings in order. */
+const sectionSlugs = (sections: Section[], headings: Heading[]): string[] => {
+  let next = 0;
+  return sections.map(section => {
+    if (section.heading === null) return '';
+    const found = headings.findIndex((heading, i) => i >= next && heading.depth === section.depth && heading.text === section.heading);
+    if (found === -1) return '';
+    next = found + 1;
+    return headings[found].slug;
+  });
+};
+
+/** Groups findings by section: the whole book first, then the sections in reading order, then any that are gone. */
+const groupFindings = (findings: ReviewFinding[], sections: Section[]): FindingGroup[] => {
+  const groups = new Map<string, FindingGroup>();
+  for (const finding of findings) {
+    const index = finding.section ? resolveSection(sections, finding.section) : -1;
+    const gone = !!finding.section && index === -1;
+    const heading = gone ? finding.section!.heading ?? 'Introduction' : index === -1 ? 'Whole book' : sections[index].heading ?? 'Introduction';
+    const key = gone ? `gone:${heading}` : String(index);
+    const group = groups.get(key) ?? { index, heading, gone, findings: [] };
+    group.findings.push(finding);
+    groups.set(key, group);
+  }
+  const rank = (group: FindingGroup) => (group.gone ? Number.MAX_SAFE_INTEGER : group.index);
+  return [...groups.values()].sort((a, b) => rank(a) - rank(b));
+};
+
+const FindingItem: React.FC<{ finding: ReviewFinding }> = ({ finding }) => (
+  <li className={`flex items-start gap-3 ${finding.fixed ? 'opacity-60' : ''}`}>
+    {finding.severity === 'warning' ? (
+      <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 shrink-0 text-amber-500" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" aria-label="Warning"><path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" /></svg>
+    ) : (
+      <InfoIcon className="w-5 h-5 shrink-0 text-blue-500" />
+    )}
+    <div className="flex flex-col gap-1 text-sm">
+      <span>
+        <span className="mr-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{KIND_LABELS[finding.kind]}</span>
+        <span className={`text-gray-800 dark:text-gray-200 ${finding.fixed ? 'line-through' : ''}`}>{finding.message}</span>
+        {finding.fixed && <span className="ml-2 text-xs font-semibold text-green-600 dark:text-green-400">Fixed</span>}
+      </span>
+      {finding.quote && <q className="italic text-gray-600 dark:text-gray-400">{finding.quote}</q>}
+    </div>
+  </li>
+);
+
+/** The quality review: readability scores and findings by section, each section with a one-click revision that fixes its findings. */
+const QualityReportPanel: React.FC<QualityReportPanelProps> = ({ report, sections, headings, onRun, onFix, onJump, revision, sectionErrors }) => {
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const slugs = useMemo(() => sectionSlugs(sections, headings), [sections, headings]);
+  const groups = useMemo(() => (report ? groupFindings(report.findings, sections) : []), [report, sections]);
+
+  const handleRun = async () => {
+    if (!onRun) return;
+    setRunning(true);
+    setError(null);
+    try {
+      await onRun();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!report) {
+    return (
+      <div className={`${cardClassName} flex flex-col items-center gap-4 text-center`}>
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Quality Review</h3>
+        <p className="text-gray-500 dark:text-gray-400 max-w-xl">
+          Check the book against your guiding instructions and references, find claims without a source, confirm the sections, tables and summaries you asked for are there, and measure how easy it is to read.
+        </p>
+        {!onRun && <p className="text-sm text-gray-500 dark:text-gray-400">This project has no saved input to review against.</p>}
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+        <button onClick={handleRun} disabled={running || !onRun} className={`${primaryButtonClassName} flex items-center gap-2`}>
+          {running && <Spinner className="w-5 h-5" />}
+          <span>{running ? 'Reviewing...' : 'Run Review'}</span>
+        </button>
+      </div>
+    );
+  }
+
+  const { readability } = report;
+  const open = report.findings.filter(finding => !finding.fixed);
+  const scored = readability.sections.filter(score => score.words > 0);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className={`${cardClassName} flex flex-col gap-4`}>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div className="flex flex-wrap gap-8">
+            <div>
+              <p className="text-3xl font-extrabold text-gray-900 dark:text-gray-100">{Math.round(readability.readingEase)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Reading ease · {readingEaseLabel(readability.readingEase)}</p>
+            </div>
+            <div>
+              <p className="text-3xl font-extrabold text-gray-900 dark:text-gray-100">{readability.gradeLevel}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Grade level · {readability.level}</p>
+            </div>
+            <div>
+              <p className="text-3xl font-extrabold text-gray-900 dark:text-gray-100">{open.length}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Open {open.length === 1 ? 'finding' : 'findings'} · {readability.words.toLocaleString()} words</p>
+            </div>
+          </div>
+          <button onClick={handleRun} disabled={running || !onRun || revision !== null} className={secondaryButtonClassName}>
+            {running ? <Spinner className="w-5 h-5" /> : <RestartIcon className="w-5 h-5" />}
+            <span>{running ? 'Reviewing...' : 'Run Again'}</span>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Reviewed {new Date(report.reviewedAt).toLocaleString()}.
+          {readability.approximate && ' The readability formulas are designed for English, so for this language the scores are only a rough guide.'}
+        </p>
+        {report.modelCheckError && (
+          <p className="text-sm text-amber-700 dark:text-amber-300">
+            The check against your instructions and references could not run ({report.modelCheckError}). Only the structure and readability were checked.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {scored.length > 1 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer select-none font-semibold text-gray-700 dark:text-gray-300">Readability by section</summary>
+            <table className="mt-3 w-full text-left">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr><th className="py-1 font-semibold">Section</th><th className="py-1 font-semibold">Words</th><th className="py-1 font-semibold">Ease</th><th className="py-1 font-semibold">Grade</th></tr>
+              </thead>
+              <tbody className="text-gray-800 dark:text-gray-200">
+                {scored.map(score => (
+                  <tr key={score.section.index} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-1 pr-4">{score.section.heading ?? 'Introduction'}</td>
+                    <td className="py-1 pr-4 tabular-nums">{score.words}</td>
+                    <td className="py-1 pr-4 tabular-nums">{Math.round(score.readingEase)}</td>
+                    <td className="py-1 tabular-nums">{score.gradeLevel}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        )}
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-center text-gray-500 dark:text-gray-400">No problems found.</p>
+      )}
+      {groups.map(group => {
+        const fix = group.index >= 0 ? combineFixes(group.findings) : null;
+        const slug = group.index >= 0 ? slugs[group.index] : '';
+        const revising = group.index >= 0 && revision?.index === group.index;
+        return (
+          <section key={group.gone ? `gone-${group.heading}` : group.index} className={cardClassName}>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+              {slug ? (
+                <button onClick={() => onJump(slug)} className="text-left text-xl font-bold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400">
+                  {group.heading}
+                </button>
+              ) : (
+                <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                  {group.heading}
+                  {group.gone && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">(no longer in the book)</span>}
+                </h3>
+              )}
+              {fix && (
+                <button
+                  onClick={() => onFix(group.index, fix, group.findings.filter(finding => finding.fix && !finding.fixed).map(finding => finding.id))}
+                  disabled={revision !== null || running || !onRun}
+                  title={fix.instructions}
+                  className={`${primaryButtonClassName} flex items-center gap-2 text-sm`}
+                >
+                  {revising && <Spinner className="w-4 h-4" />}
+                  <span>{revising ? 'Fixing...' : FIX_LABELS[fix.action]}</span>
+                </button>
+              )}
+            </div>
+            <ul className="space-y-3">
+              {group.findings.map(finding => <FindingItem key={finding.id} finding={finding} />)}
+            </ul>
+            {revising && <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{revision.message}</p>}
+            {group.index >= 0 && sectionErrors[group.index] && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{sectionErrors[group.index]}</p>}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QualityReportPanel;
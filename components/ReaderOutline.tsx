@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type Heading } from '../services/markdown';
+
+interface ReaderOutlineProps {
+  headings: Heading[];
+  /** The slug of the heading being read. */
+  activeSlug: string | null;
+  onJump: (slug: string) => void;
+}
+
+/** The outline deeper headings are left out of, to keep it scannable. */
+const MAX_DEPTH = 3;
+
+/** A sticky table of contents built from the book's headings, marking the one being read. */
+const ReaderOutline: React.FC<ReaderOutlineProps> = ({ headings, activeSlug, onJump }) => {
+  const shown = headings.filter(heading => heading.depth <= MAX_DEPTH);
+  const topDepth = Math.min(...shown.map(heading => heading.depth));
+
+  return (
+    <nav aria-label="Contents" className="lg:sticky lg:top-48 p-4 bg-white/80 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-xl max-h-[calc(100vh-14rem)] overflow-y-auto">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">Contents</h3>
+      <ol className="space-y-0.5">
+        {shown.map(heading => {
+          const active = heading.slug === activeSlug;
+          return (
+            <li key={heading.slug} style={{ paddingLeft: `${(heading.depth - topDepth) * 0.75}rem` }}>
+              <button
+                onClick={() => onJump(heading.slug)}
+                aria-current={active ? 'location' : undefined}
+                className={`w-full text-left px-2 py-1 rounded-md border-l-2 transition-colors ${heading.depth === topDepth ? 'text-sm font-medium' : 'text-xs'} ${active ? 'border-blue-600 bg-blue-50 text-blue-700 dark:bg-blue-500/10 dark:text-blue-300' : 'border-transparent text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+              >
+                {heading.text}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
+
+export default ReaderOutline;
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface ReaderSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  hitCount: number;
+  /** The position of the hit being shown, from 0. */
+  currentHit: number;
+  /** Moves to the next hit (1) or the previous one (-1), wrapping around. */
+  onStep: (direction: 1 | -1) => void;
+}
+
+const stepButtonClassName = "p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+/** Full-text search of the book: Enter goes to the next hit, Shift+Enter to the previous one and Escape clears. */
+const ReaderSearch: React.FC<ReaderSearchProps> = ({ query, onQueryChange, hitCount, currentHit, onStep }) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && hitCount > 0) {
+      e.preventDefault();
+      onStep(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      onQueryChange('');
+    }
+  };
+
+  return (
+    <div role="search" className="flex items-center gap-1 pl-3 pr-1 py-1 bg-white/60 dark:bg-gray-900/40 border border-gray-300 dark:border-gray-700 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+      <input
+        type="search"
+        value={query}
+        onChange={e => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search the book"
+        aria-label="Search the book"
+        className="w-40 bg-transparent text-sm text-gray-900 dark:text-gray-200 focus:outline-none"
+      />
+      {query.trim() && (
+        <span className="text-xs tabular-nums text-gray-500 dark:text-gray-400 whitespace-nowrap" aria-live="polite">
+          {hitCount ? `${currentHit + 1} of ${hitCount}` : 'No matches'}
+        </span>
+      )}
+      <button onClick={() => onStep(-1)} disabled={!hitCount} className={stepButtonClassName} aria-label="Previous match">
+        <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="m4.5 15.75 7.5-7.5 7.5 7.5" /></svg>
+      </button>
+      <button onClick={() => onStep(1)} disabled={!hitCount} className={stepButtonClassName} aria-label="Next match">
+        <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" /></svg>
+      </button>
+    </div>
+  );
+};
+
+export default ReaderSearch;
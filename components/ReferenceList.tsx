@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { type Source } from '../services/modelProvider';
+import { CITATION_STYLES, formatReference, referenceAnchor, toBibtex, toRis, type CitationStyle } from '../services/citations';
+import { downloadText } from '../services/download';
+
+interface ReferenceListProps {
+  sources: Source[];
+  style: CitationStyle;
+  onStyleChange: (style: CitationStyle) => void;
+}
+
+const exportButtonClassName = "text-sm font-semibold px-3 py-1.5 rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-100 transition-colors";
+
+/** Renders the entry text with its URL turned into a link. */
+const linkify = (entry: string, uri: string): React.ReactNode[] =>
+  entry.split(uri).flatMap((part, i) => (i === 0 ? [part] : [
+    <a key={i} href={uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">{uri}</a>,
+    part,
+  ]));
+
+const ReferenceList: React.FC<ReferenceListProps> = ({ sources, style, onStyleChange }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <section className="mt-12 pt-8 border-t border-gray-300 dark:border-gray-600">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">References</h2>
+        <div className="flex items-center gap-2">
+          <label htmlFor="citation-style" className="sr-only">Citation style</label>
+          <select
+            id="citation-style"
+            value={style}
+            onChange={(e) => onStyleChange(e.target.value as CitationStyle)}
+            className="text-sm bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            {CITATION_STYLES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button onClick={() => downloadText(toBibtex(sources), 'study-book-sources.bib', 'application/x-bibtex')} className={exportButtonClassName}>
+            BibTeX
+          </button>
+          <button onClick={() => downloadText(toRis(sources), 'study-book-sources.ris', 'application/x-research-info-systems')} className={exportButtonClassName}>
+            RIS
+          </button>
+        </div>
+      </div>
+      <ol className={`space-y-2 text-gray-700 dark:text-gray-300 ${style === 'ieee' ? 'list-none' : 'list-decimal pl-6'}`}>
+        {sources.map((source, i) => (
+          <li key={source.uri} id={referenceAnchor(i)} className="scroll-mt-48 leading-relaxed">
+            {linkify(formatReference(source, i, style), source.uri)}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default ReferenceList;
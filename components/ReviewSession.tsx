@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { REVIEW_GRADES, describeInterval, scheduleReview, type DueCard, type ReviewGrade } from '../services/reviewScheduler';
+import { RestartIcon } from './icons';
+
+interface ReviewSessionProps {
+  queue: DueCard[];
+  onGrade: (dueCard: DueCard, grade: ReviewGrade) => void;
+  onExit: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-600 hover:bg-red-700',
+  hard: 'bg-amber-600 hover:bg-amber-700',
+  good: 'bg-green-600 hover:bg-green-700',
+  easy: 'bg-blue-600 hover:bg-blue-700',
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ queue, onGrade, onExit }) => {
+  // Snapshot the queue so grading a card doesn't reshuffle the session.
+  const [cards] = useState<DueCard[]>(queue);
+  const [index, setIndex] = useState<number>(0);
+  const [revealed, setRevealed] = useState<boolean>(false);
+  const [recalled, setRecalled] = useState<number>(0);
+
+  const current = cards[index];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    onGrade(current, grade);
+    if (grade !== 'again') setRecalled(prev => prev + 1);
+    setIndex(prev => prev + 1);
+    setRevealed(false);
+  };
+
+  const exitButton = (
+    <button
+      onClick={onExit}
+      className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors"
+    >
+      <RestartIcon className="w-5 h-5" />
+      <span>Back to Projects</span>
+    </button>
+  );
+
+  if (!current) {
+    return (
+      <div className="w-full max-w-2xl mx-auto animate-fade-in text-center bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-8 rounded-2xl shadow-lg flex flex-col items-center gap-4">
+        <h2 className="text-3xl font-extrabold text-gray-900 dark:text-gray-100">All caught up!</h2>
+        <p className="text-gray-500 dark:text-gray-400">
+          {cards.length > 0
+            ? `You reviewed ${cards.length} ${cards.length === 1 ? 'card' : 'cards'} and recalled ${recalled}.`
+            : 'No cards are due today.'}
+        </p>
+        {exitButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl mx-auto animate-fade-in flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Daily Review</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Card {index + 1} of {cards.length} · {current.schedule ? 'Review' : 'New'}</p>
+        </div>
+        {exitButton}
+      </div>
+
+      <div className="bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-8 rounded-2xl shadow-lg min-h-[16rem] flex flex-col items-center justify-center gap-4 text-center">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{current.projectTitle} · {current.card.section}</span>
+        <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{current.card.front}</p>
+        {revealed && (
+          <p className="text-lg text-gray-700 dark:text-gray-300 border-t border-gray-200 dark:border-gray-700 pt-4 w-full">{current.card.back}</p>
+        )}
+      </div>
+
+      {revealed ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {REVIEW_GRADES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => handleGrade(value)}
+              className={`${GRADE_STYLES[value]} text-white font-bold py-3 px-4 rounded-lg transition-colors flex flex-col items-center`}
+            >
+              <span>{label}</span>
+              <span className="text-xs font-normal opacity-80">{describeInterval(scheduleReview(current.schedule, value).interval)}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button
+          onClick={() => setRevealed(true)}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          Show Answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { type RevisionAction } from '../services/geminiService';
+import { renderMarkdown } from '../services/markdownRenderer';
+import Spinner from './Spinner';
+
+export const PROSE_CLASS_NAME = "prose prose-lg max-w-none prose-headings:scroll-mt-48 prose-h1:text-4xl prose-h1:font-extrabold prose-h2:text-3xl prose-h2:border-b prose-h2:border-gray-300 dark:prose-h2:border-gray-600 prose-h2:pb-2 prose-a:text-blue-600 hover:prose-a:text-blue-500 dark:prose-a:text-blue-400 dark:hover:prose-a:text-blue-300 prose-strong:text-gray-800 dark:prose-strong:text-gray-200 dark:prose-invert";
+
+interface SectionBlockProps {
+  markdown: string;
+  html: string;
+  /** Progress message while a revision of this section is running. */
+  progress: string | null;
+  error: string | null;
+  /** True while any section is being revised; edits then wait so they aren't overwritten. */
+  locked: boolean;
+  /** False without the project's form data. */
+  canRevise: boolean;
+  onRevise: (action: RevisionAction, instructions: string) => void;
+  onSave: (markdown: string) => void;
+}
+
+const ACTIONS: { value: RevisionAction; label: string; placeholder: string }[] = [
+  { value: 'regenerate', label: 'Regenerate', placeholder: 'e.g. Focus more on real-world applications' },
+  { value: 'expand', label: 'Expand', placeholder: 'e.g. Add a worked example' },
+  { value: 'simplify', label: 'Simplify', placeholder: 'e.g. Aim at high-school students' },
+];
+
+const toolbarButtonClassName = "px-2.5 py-1 text-xs font-semibold rounded-md bg-white/90 dark:bg-gray-800/90 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const SectionEditor: React.FC<{ initial: string; onSave: (markdown: string) => void; onCancel: () => void }> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<string>(initial);
+  const previewHtml = useMemo(() => renderMarkdown(draft), [draft]);
+
+  return (
+    <div className="flex flex-col gap-3 not-prose">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          spellCheck
+          className="w-full min-h-[24rem] font-mono text-sm bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+          aria-label="Section markdown"
+        />
+        <div className="min-h-[24rem] max-h-[40rem] overflow-y-auto border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4">
+          <div className={PROSE_CLASS_NAME} dangerouslySetInnerHTML={{ __html: previewHtml }} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={draft === initial}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Section
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SectionBlock: React.FC<SectionBlockProps> = ({ markdown, html, progress, error, locked, canRevise, onRevise, onSave }) => {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [pendingAction, setPendingAction] = useState<RevisionAction | null>(null);
+  const [instructions, setInstructions] = useState<string>('');
+
+  const action = ACTIONS.find(a => a.value === pendingAction);
+
+  const handleRun = () => {
+    if (!pendingAction) return;
+    onRevise(pendingAction, instructions);
+    setPendingAction(null);
+    setInstructions('');
+  };
+
+  if (editing) {
+    return (
+      <SectionEditor
+        initial={markdown}
+        onCancel={() => setEditing(false)}
+        onSave={(updated) => {
+          onSave(updated);
+          setEditing(false);
+        }}
+      />
+    );
+  }
+
+  return (
+    <section className="relative group rounded-lg -mx-4 px-4 hover:bg-gray-50/60 dark:hover:bg-gray-800/30 transition-colors">
+      <div className={`absolute top-2 right-2 z-10 flex gap-1 ${progress || action ? 'hidden' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'} transition-opacity`}>
+        {ACTIONS.map(({ value, label }) => (
+          <button key={value} onClick={() => setPendingAction(value)} disabled={locked || !canRevise} className={toolbarButtonClassName}>
+            {label}
+          </button>
+        ))}
+        <button onClick={() => setEditing(true)} disabled={locked} className={toolbarButtonClassName}>
+          Edit
+        </button>
+      </div>
+
+      {action && (
+        <div className="not-prose mt-2 p-3 flex flex-col sm:flex-row gap-2 bg-blue-50 dark:bg-blue-500/10 border border-blue-200 dark:border-blue-500/30 rounded-lg">
+          <input
+            type="text"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+            placeholder={`${action.label} with extra instructions (optional). ${action.placeholder}`}
+            autoFocus
+            className="flex-grow bg-white dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <div className="flex gap-2">
+            <button onClick={handleRun} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              {action.label}
+            </button>
+            <button onClick={() => setPendingAction(null)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {progress && (
+        <div className="not-prose absolute inset-0 z-20 flex flex-col items-center justify-center gap-3 bg-white/80 dark:bg-gray-900/80 rounded-lg backdrop-blur-sm">
+          <Spinner className="w-8 h-8 text-blue-600" />
+          <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">{progress}</p>
+        </div>
+      )}
+      {error && <p className="not-prose mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className={PROSE_CLASS_NAME} data-reader-text="" dangerouslySetInnerHTML={{ __html: html }} />
+    </section>
+  );
+};
+
+export default SectionBlock;
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { ACCEPTED_DOCUMENT_TYPES, extractSourceDocument, type SourceDocument } from '../services/sourceDocuments';
+import Spinner from './Spinner';
+
+interface SourceDocumentPickerProps {
+  documents: SourceDocument[];
+  onChange: (documents: SourceDocument[]) => void;
+  /** Called with true while files are being read, so the form can wait for them. */
+  onBusyChange: (busy: boolean) => void;
+}
+
+const describeDocument = (document: SourceDocument) => {
+  const chars = document.chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  const size = chars >= 1000 ? `${Math.round(chars / 1000)}k characters` : `${chars} characters`;
+  return document.pageCount ? `${document.pageCount} page${document.pageCount === 1 ? '' : 's'} · ${size}` : size;
+};
+
+const SourceDocumentPicker: React.FC<SourceDocumentPickerProps> = ({ documents, onChange, onBusyChange }) => {
+  const [pending, setPending] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Files finish one at a time; add each to the list as it was when the previous one finished.
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setErrors([]);
+    setPending(files.map(file => file.name));
+    onBusyChange(true);
+    for (const file of files) {
+      try {
+        const document = await extractSourceDocument(file);
+        documentsRef.current = [...documentsRef.current, document];
+        onChange(documentsRef.current);
+      } catch (error) {
+        console.error(`Failed to read "${file.name}":`, error);
+        setErrors(prev => [...prev, error instanceof Error ? error.message : `Could not read "${file.name}".`]);
+      }
+      setPending(prev => prev.slice(1));
+    }
+    onBusyChange(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Source Documents</span>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={pending.length > 0}
+          className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Attach Files
+        </button>
+        <input ref={inputRef} type="file" accept={ACCEPTED_DOCUMENT_TYPES} multiple onChange={handleFiles} className="hidden" />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        PDF, Word, Markdown or text files. Their text is read on this device and used as the primary sources, cited by page.
+      </p>
+      {(documents.length > 0 || pending.length > 0) && (
+        <ul className="space-y-2">
+          {documents.map(document => (
+            <li key={document.id} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 rounded-lg">
+              <span className="text-xs font-bold uppercase text-gray-500 dark:text-gray-400 w-12 shrink-0">{document.kind}</span>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{document.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{describeDocument(document)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(documents.filter(d => d.id !== document.id))}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+          {pending.map((name, i) => (
+            <li key={`${name}-${i}`} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 rounded-lg">
+              <Spinner className="w-5 h-5 text-blue-600 shrink-0" />
+              <p className="text-sm text-gray-600 dark:text-gray-300 truncate">Reading {name}...</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.map(message => (
+        <p key={message} className="mt-2 text-sm text-red-600 dark:text-red-400">{message}</p>
+      ))}
+    </div>
+  );
+};
+
+export default SourceDocumentPicker;
@@ -4,30 +4,64 @@
 */
 
 import React, { useState } from 'react';
-import { type SavedProject } from '../App';
-import { HistoryIcon } from './icons';
+import { type SourceDocument } from '../services/sourceDocuments';
+import { DEFAULT_GENERATION_OPTIONS, resolveGenerationOptions, validateGenerationOptions, type GenerationOptions } from '../services/generationOptions';
+import GenerationOptionsFields from './GenerationOptionsFields';
+import SourceDocumentPicker from './SourceDocumentPicker';
+import PromptPresetManager from './PromptPresetManager';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET_ID, loadCustomPresets, type PromptPreset } from '../services/promptTemplates';
+
+export type GenerationMode = 'guide' | 'book';
 
 export interface FormData {
+  /** A single study guide, or a multi-chapter book planned from an outline. */
+  mode: GenerationMode;
   topic: string;
   subtopic: string;
   guide: string;
   references: string;
+  /** Uploaded files whose text grounds the generation and is cited by page. */
+  documents?: SourceDocument[];
+  /** Unset for projects saved before the options existed; read it through `resolveGenerationOptions`. */
+  options?: GenerationOptions;
+  /** The prompt preset to generate with, as it was when the form was submitted; unset means the standard prompts. */
+  preset?: PromptPreset;
 }
 
 interface StudyBookFormProps {
   onGenerate: (formData: FormData) => void;
-  recentProjects: SavedProject[];
-  onSelectProject: (project: SavedProject) => void;
+  /** Fills the form in, e.g. with a request that failed and is being edited. */
+  initialData?: FormData | null;
+  /** Rendered below the form, e.g. the project library. */
+  children?: React.ReactNode;
 }
 
-const StudyBookForm: React.FC<StudyBookFormProps> = ({ onGenerate, recentProjects, onSelectProject }) => {
-  const [formData, setFormData] = useState<FormData>({
+const StudyBookForm: React.FC<StudyBookFormProps> = ({ onGenerate, initialData, children }) => {
+  const [formData, setFormData] = useState<FormData>(initialData ? { ...initialData, options: resolveGenerationOptions(initialData.options) } : {
+    mode: 'guide',
     topic: '',
     subtopic: '',
     guide: '',
     references: '',
+    options: DEFAULT_GENERATION_OPTIONS,
   });
 
+  const [readingDocuments, setReadingDocuments] = useState(false);
+  const [customPresets, setCustomPresets] = useState<PromptPreset[]>(loadCustomPresets);
+  const [managingPresets, setManagingPresets] = useState(false);
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const presetId = formData.preset?.id ?? DEFAULT_PRESET_ID;
+  // A request being edited may use a preset that has since been deleted; keep offering it.
+  if (formData.preset && !presets.some(p => p.id === presetId)) presets.push(formData.preset);
+
+  const handlePresetsChange = (next: PromptPreset[]) => {
+    setCustomPresets(next);
+    // Keep the picked preset in step with its saved edits.
+    const picked = next.find(p => p.id === presetId);
+    if (picked) setFormData(prev => ({ ...prev, preset: picked }));
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -38,8 +72,12 @@ const StudyBookForm: React.FC<StudyBookFormProps> = ({ onGenerate, recentProject
     onGenerate(formData);
   };
   
+  const options = resolveGenerationOptions(formData.options);
+  const optionErrors = validateGenerationOptions(options);
   const isFormValid = formData.topic.trim() !== '' && 
-                      formData.subtopic.trim() !== '';
+                      formData.subtopic.trim() !== '' &&
+                      Object.keys(optionErrors).length === 0 &&
+                      !readingDocuments;
 
   return (
     <div className="w-full max-w-4xl mx-auto animate-fade-in">
@@ -52,6 +90,21 @@ const StudyBookForm: React.FC<StudyBookFormProps> = ({ onGenerate, recentProject
             </p>
           </div>
           
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 rounded-lg" role="radiogroup" aria-label="What to generate">
+            {([['guide', 'Study Guide'], ['book', 'Full Book']] as [GenerationMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                type="button"
+                role="radio"
+                aria-checked={formData.mode === mode}
+                onClick={() => setFormData(prev => ({ ...prev, mode }))}
+                className={`py-2 px-4 rounded-md text-sm font-semibold transition-colors ${formData.mode === mode ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                   <label htmlFor="topic" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Main Topic*</label>
@@ -107,35 +160,65 @@ const StudyBookForm: React.FC<StudyBookFormProps> = ({ onGenerate, recentProject
               />
           </div>
 
+          <div>
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <label htmlFor="preset" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Template</label>
+              <button
+                type="button"
+                onClick={() => setManagingPresets(true)}
+                className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Manage Templates
+              </button>
+            </div>
+            <select
+              id="preset"
+              value={presetId}
+              onChange={e => setFormData(prev => ({ ...prev, preset: presets.find(p => p.id === e.target.value) }))}
+              className="w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+            >
+              {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{presets.find(p => p.id === presetId)?.description}</p>
+          </div>
+
+          <GenerationOptionsFields
+            options={options}
+            errors={optionErrors}
+            perChapter={formData.mode === 'book'}
+            onChange={options => setFormData(prev => ({ ...prev, options }))}
+          />
+
+          <SourceDocumentPicker
+            documents={formData.documents ?? []}
+            onChange={documents => setFormData(prev => ({ ...prev, documents }))}
+            onBusyChange={setReadingDocuments}
+          />
+
           <button
             type="submit"
             disabled={!isFormValid}
             className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-gray-400 disabled:to-gray-400 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none dark:disabled:from-blue-800 dark:disabled:to-blue-700"
           >
-            Generate Study Book
+            {formData.mode === 'book' ? 'Plan Book Outline' : 'Generate Study Book'}
           </button>
         </form>
       </div>
 
-      {recentProjects.length > 0 && (
-        <div className="mt-10 p-8 bg-white/70 dark:bg-gray-800/30 border border-gray-200/80 dark:border-gray-700/60 rounded-2xl">
-          <h2 className="text-2xl font-bold text-center text-gray-800 dark:text-gray-200 mb-6 flex items-center justify-center gap-3">
-            <HistoryIcon className="w-6 h-6" />
-            Recent Projects
-          </h2>
-          <div className="space-y-3">
-            {recentProjects.map((project) => (
-              <button
-                key={project.timestamp}
-                onClick={() => onSelectProject(project)}
-                className="w-full text-left p-4 bg-gray-100 hover:bg-gray-200 dark:bg-gray-900/50 dark:hover:bg-gray-900/80 border border-gray-300 dark:border-gray-700 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <p className="font-semibold text-gray-900 dark:text-gray-100">{project.title}</p>
-                <p className="text-sm text-gray-500 dark:text-gray-400">Created on: {new Date(project.timestamp).toLocaleString()}</p>
-              </button>
-            ))}
-          </div>
-        </div>
+      {children}
+
+      {managingPresets && (
+        <PromptPresetManager
+          customPresets={customPresets}
+          initialPresetId={presetId}
+          formData={formData}
+          onPresetsChange={handlePresetsChange}
+          onUse={preset => {
+            setFormData(prev => ({ ...prev, preset }));
+            setManagingPresets(false);
+          }}
+          onClose={() => setManagingPresets(false)}
+        />
       )}
     </div>
   );
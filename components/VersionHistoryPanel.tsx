@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { IMG_TAG, getAttribute } from '../services/imageAssets';
+import { REVISION_KIND_LABELS, compareInputs, type ProjectRevision } from '../services/revisionHistory';
+import { collapseUnchanged, countChanges, diffLines, type DiffLine, type DiffPart, type SkippedLines } from '../services/textDiff';
+import { HistoryIcon, RestartIcon } from './icons';
+
+interface VersionHistoryPanelProps {
+  /** The project's versions, oldest first; the last is the current one. */
+  revisions: ProjectRevision[];
+  onRestore?: (revisionId: string) => void;
+  /** Regenerates the project from its current input as a new version. */
+  onRegenerate?: () => void;
+  /** Opens the form with the project's input to change it before regenerating. */
+  onEditAndRegenerate?: () => void;
+}
+
+type DiffLayout = 'inline' | 'split';
+
+/** A row of the side-by-side view: the old line on the left, the new one on the right. */
+type SplitRow = { left?: DiffLine; right?: DiffLine } | SkippedLines;
+
+const cardClassName = "bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-6 sm:p-8 rounded-2xl shadow-lg";
+const secondaryButtonClassName = "flex items-center gap-2 bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50";
+const selectClassName = "bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-200 text-sm rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const LINE_CLASS_NAMES: Record<DiffLine['op'], string> = {
+  equal: 'text-gray-700 dark:text-gray-300',
+  removed: 'bg-red-50 dark:bg-red-500/10 text-red-900 dark:text-red-200',
+  added: 'bg-green-50 dark:bg-green-500/10 text-green-900 dark:text-green-200',
+};
+
+const WORD_CLASS_NAMES: Record<DiffPart['op'], string> = {
+  equal: '',
+  removed: 'bg-red-200 dark:bg-red-500/40 rounded-sm',
+  added: 'bg-green-200 dark:bg-green-500/40 rounded-sm',
+};
+
+const LINE_MARKERS: Record<DiffLine['op'], string> = { equal: ' ', removed: '-', added: '+' };
+
+/** Embedded images are long `data:` URLs; diff them by their description instead. */
+const withoutImages = (content: string) =>
+  content.replace(IMG_TAG, tag => `[Image: ${getAttribute(tag, 'alt') || 'illustration'}]`);
+
+/** Lines up removed lines with the added lines that replaced them. */
+const toSplitRows = (lines: (DiffLine | SkippedLines)[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  for (let i = 0; i < lines.length;) {
+    const line = lines[i];
+    if (line.op === 'skipped') {
+      rows.push(line);
+      i++;
+    } else if (line.op === 'equal') {
+      rows.push({ left: line, right: line });
+      i++;
+    } else {
+      const removed: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (i < lines.length && lines[i].op === 'removed') removed.push(lines[i++] as DiffLine);
+      while (i < lines.length && lines[i].op === 'added') added.push(lines[i++] as DiffLine);
+      for (let k = 0; k < Math.max(removed.length, added.length); k++) rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+};
+
+const LineText: React.FC<{ line: DiffLine }> = ({ line }) => (
+  <>
+    {line.words
+      ? line.words.map((word, i) => <span key={i} className={WORD_CLASS_NAMES[word.op]}>{word.text}</span>)
+      : line.text || ' '}
+  </>
+);
+
+const SkippedRow: React.FC<{ count: number }> = ({ count }) => (
+  <div className="px-3 py-1 text-center text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800/60 border-y border-gray-200 dark:border-gray-700">
+    {count} unchanged {count === 1 ? 'line' : 'lines'}
+  </div>
+);
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+/** Lists a project's versions and shows what changed between any two of them. */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ revisions, onRestore, onRegenerate, onEditAndRegenerate }) => {
+  const current = revisions[revisions.length - 1];
+  const previous = revisions[Math.max(0, revisions.length - 2)];
+  const [fromId, setFromId] = useState<string>(previous.id);
+  const [toId, setToId] = useState<string>(current.id);
+  const [layout, setLayout] = useState<DiffLayout>('inline');
+  const [showAll, setShowAll] = useState<boolean>(false);
+  const [confirmingRestore, setConfirmingRestore] = useState<string | null>(null);
+  const [confirmingRegenerate, setConfirmingRegenerate] = useState<boolean>(false);
+
+  // Versions can be dropped from the history or replaced by a newer current one; fall back to the defaults.
+  const from = revisions.find(revision => revision.id === fromId) ?? previous;
+  const to = revisions.find(revision => revision.id === toId) ?? current;
+  const versionNumber = (revision: ProjectRevision) => revisions.indexOf(revision) + 1;
+
+  const lines = useMemo(() => diffLines(withoutImages(from.result.content), withoutImages(to.result.content)), [from, to]);
+  const shown = useMemo(() => (showAll ? lines : collapseUnchanged(lines)), [lines, showAll]);
+  const stats = countChanges(lines);
+  const inputChanges = compareInputs(from.formData, to.formData);
+
+  /** Compares a version with the current one; for the current one, with the version before it. */
+  const handleSelectVersion = (revision: ProjectRevision) => {
+    setFromId(revision === current ? previous.id : revision.id);
+    setToId(current.id);
+  };
+
+  const versionOptions = [...revisions].reverse().map(revision => (
+    <option key={revision.id} value={revision.id}>
+      Version {versionNumber(revision)}{revision === current ? ' (current)' : ''} · {formatTime(revision.createdAt)}
+    </option>
+  ));
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div className={`${cardClassName} flex flex-col sm:flex-row sm:items-center justify-between gap-4`}>
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Version History</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {revisions.length} {revisions.length === 1 ? 'version' : 'versions'}. Regenerating or restoring adds a new version, so no earlier one is lost.
+          </p>
+        </div>
+        {(onRegenerate || onEditAndRegenerate) && (
+          <div className="flex flex-wrap gap-2">
+            {onRegenerate && (confirmingRegenerate ? (
+              <>
+                <button onClick={() => { setConfirmingRegenerate(false); onRegenerate(); }} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                  Regenerate Now
+                </button>
+                <button onClick={() => setConfirmingRegenerate(false)} className={secondaryButtonClassName}>Cancel</button>
+              </>
+            ) : (
+              <button onClick={() => setConfirmingRegenerate(true)} className={secondaryButtonClassName}>
+                <RestartIcon className="w-5 h-5" />
+                <span>Regenerate</span>
+              </button>
+            ))}
+            {onEditAndRegenerate && !confirmingRegenerate && (
+              <button onClick={onEditAndRegenerate} className={secondaryButtonClassName}>Edit Input &amp; Regenerate</button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[18rem_minmax(0,1fr)] gap-6 items-start">
+        <ol className="bg-white dark:bg-gray-900/70 border border-gray-300 dark:border-gray-700 p-3 rounded-2xl shadow-lg flex flex-col gap-1">
+          {[...revisions].reverse().map((revision, i, newestFirst) => {
+            const older = newestFirst[i + 1];
+            const inputChanged = older && compareInputs(older.formData, revision.formData).length > 0;
+            const selected = revision === from || revision === to;
+            return (
+              <li key={revision.id}>
+                <div
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleSelectVersion(revision)}
+                  onKeyDown={e => e.key === 'Enter' && handleSelectVersion(revision)}
+                  className={`p-3 rounded-lg cursor-pointer transition-colors ${selected ? 'bg-blue-50 dark:bg-blue-500/10 ring-1 ring-blue-300 dark:ring-blue-500/40' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-gray-900 dark:text-gray-100">Version {versionNumber(revision)}</span>
+                    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                      {revision === current ? 'Current' : REVISION_KIND_LABELS[revision.kind]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {revision === current && `${REVISION_KIND_LABELS[revision.kind]} · `}
+                    {formatTime(revision.createdAt)}
+                    {revision.updatedAt && ` – ${new Date(revision.updatedAt).toLocaleTimeString()}`}
+                  </p>
+                  {revision.changes.length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-600 dark:text-gray-300 list-disc pl-4">
+                      {revision.changes.slice(0, 3).map(change => <li key={change}>{change}</li>)}
+                      {revision.changes.length > 3 && <li>and {revision.changes.length - 3} more</li>}
+                    </ul>
+                  )}
+                  {inputChanged && <p className="mt-1 text-xs font-semibold text-blue-600 dark:text-blue-400">Input changed</p>}
+                </div>
+                {onRestore && revision !== current && (
+                  <div className="px-3 pb-2">
+                    {confirmingRestore === revision.id ? (
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="text-gray-600 dark:text-gray-300 mr-auto">Make this the current version?</span>
+                        <button
+                          onClick={() => {
+                            setConfirmingRestore(null);
+                            onRestore(revision.id);
+                          }}
+                          className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded-md transition-colors"
+                        >
+                          Restore
+                        </button>
+                        <button onClick={() => setConfirmingRestore(null)} className="font-semibold text-gray-600 dark:text-gray-300 hover:underline">Cancel</button>
+                      </div>
+                    ) : (
+                      <button onClick={() => setConfirmingRestore(revision.id)} className="flex items-center gap-1 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                        <HistoryIcon className="w-4 h-4" />
+                        Restore this version
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className={`${cardClassName} flex flex-col gap-4 min-w-0`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={from.id} onChange={e => setFromId(e.target.value)} aria-label="Compare from" className={selectClassName}>{versionOptions}</select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+            <select value={to.id} onChange={e => setToId(e.target.value)} aria-label="Compare to" className={selectClassName}>{versionOptions}</select>
+            <div className="flex gap-1 p-1 ml-auto bg-gray-100 dark:bg-gray-800 rounded-lg" role="radiogroup" aria-label="Layout">
+              {(['inline', 'split'] as DiffLayout[]).map(value => (
+                <button
+                  key={value}
+                  role="radio"
+                  aria-checked={layout === value}
+                  onClick={() => setLayout(value)}
+                  className={`py-1 px-3 rounded-md text-sm font-semibold transition-colors ${layout === value ? 'bg-blue-600 text-white shadow' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                >
+                  {value === 'inline' ? 'Inline' : 'Side by Side'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-semibold text-green-700 dark:text-green-400">+{stats.added}</span>
+            <span className="font-semibold text-red-700 dark:text-red-400">−{stats.removed}</span>
+            <span className="text-gray-500 dark:text-gray-400">{stats.added + stats.removed === 0 ? 'The text is the same.' : 'lines changed'}</span>
+            <label className="flex items-center gap-2 ml-auto text-gray-600 dark:text-gray-300">
+              <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} className="rounded" />
+              Show unchanged lines
+            </label>
+          </div>
+
+          {inputChanges.length > 0 && (
+            <div className="p-3 bg-blue-50 dark:bg-blue-500/10 border border-blue-200 dark:border-blue-500/30 rounded-lg">
+              <h4 className="text-sm font-semibold text-blue-800 dark:text-blue-200 mb-1">Input changes</h4>
+              <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                {inputChanges.map(change => (
+                  <li key={change.label}>
+                    <span className="font-semibold">{change.label}</span>
+                    {change.before !== undefined ? `: ${change.before} → ${change.after}` : ' changed'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {stats.added + stats.removed > 0 && (
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg font-mono text-xs leading-relaxed">
+              {layout === 'inline' ? shown.map((line, i) => line.op === 'skipped' ? (
+                <SkippedRow key={i} count={line.count} />
+              ) : (
+                <div key={i} className={`flex ${LINE_CLASS_NAMES[line.op]}`}>
+                  <span className="w-10 shrink-0 px-2 text-right text-gray-400 select-none">{line.oldNumber ?? ''}</span>
+                  <span className="w-10 shrink-0 px-2 text-right text-gray-400 select-none">{line.newNumber ?? ''}</span>
+                  <span className="w-4 shrink-0 text-gray-400 select-none">{LINE_MARKERS[line.op]}</span>
+                  <span className="whitespace-pre-wrap break-words min-w-0 pr-3"><LineText line={line} /></span>
+                </div>
+              )) : toSplitRows(shown).map((row, i) => 'count' in row ? (
+                <SkippedRow key={i} count={row.count} />
+              ) : (
+                <div key={i} className="grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-700">
+                  {[row.left, row.right].map((line, side) => (
+                    <div key={side} className={`flex min-w-0 ${line ? LINE_CLASS_NAMES[line.op] : 'bg-gray-50 dark:bg-gray-800/40'}`}>
+                      <span className="w-10 shrink-0 px-2 text-right text-gray-400 select-none">{(side === 0 ? line?.oldNumber : line?.newNumber) ?? ''}</span>
+                      <span className="whitespace-pre-wrap break-words min-w-0 pr-3">{line && <LineText line={line} />}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * The reader's highlights and margin notes. The book is re-rendered from
+ * markdown whenever it changes, so annotations can't point at DOM nodes;
+ * they keep the quoted text with a little context on either side instead,
+ * and are found again in the rendered text on every render. An annotation
+ * whose text was edited away is kept but can't be shown in place.
+ */
+
+import { type Heading } from './markdown';
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+export interface Annotation {
+  id: string;
+  /** The slug of the heading the text is under; null before the first heading. */
+  section: string | null;
+  quote: string;
+  /** The text just before and after the quote, to tell repeated passages apart. */
+  prefix: string;
+  suffix: string;
+  color: HighlightColor;
+  /** The margin note; a plain highlight has none. */
+  note?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+/** Marks the elements whose text can be searched and annotated, leaving out toolbars and editors. */
+export const READER_TEXT_ATTRIBUTE = 'data-reader-text';
+
+const CONTEXT_LENGTH = 32;
+
+/** The readable text under an element, as one string with the text nodes it came from. */
+export interface TextIndex {
+  text: string;
+  nodes: { node: Text; start: number }[];
+}
+
+/** A span of a `TextIndex`, from `start` up to but not including `end`. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Collects the readable text under `root`. KaTeX's hidden MathML copy of each
+ * formula is skipped, so formulas aren't searched twice.
+ */
+export const buildTextIndex = (root: HTMLElement): TextIndex => {
+  const nodes: TextIndex['nodes'] = [];
+  let text = '';
+  root.querySelectorAll(`[${READER_TEXT_ATTRIBUTE}]`).forEach(container => {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => (node.parentElement?.closest('.katex-mathml, .not-prose') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT),
+    });
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      nodes.push({ node: node as Text, start: text.length });
+      text += node.nodeValue ?? '';
+    }
+  });
+  return { text, nodes };
+};
+
+/** Where a DOM boundary point falls in the index; a point between text nodes maps to the start of the next one. */
+export const indexOffset = (index: TextIndex, container: Node, offset: number): number => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = index.nodes.find(n => n.node === container);
+    if (entry) return entry.start + offset;
+  }
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const next = index.nodes.find(n => point.comparePoint(n.node, 0) >= 0);
+  return next ? next.start : index.text.length;
+};
+
+/** The span of the index a DOM range covers; null if it covers no indexed text. */
+export const spanOfRange = (index: TextIndex, range: Range): TextSpan | null => {
+  const start = indexOffset(index, range.startContainer, range.startOffset);
+  const end = indexOffset(index, range.endContainer, range.endOffset);
+  return end > start ? { start, end } : null;
+};
+
+const nodeAt = (index: TextIndex, offset: number, isEnd: boolean) => {
+  // Ends belong to the node they close, starts to the node they open.
+  let found = index.nodes[0];
+  for (const entry of index.nodes) {
+    if (isEnd ? entry.start >= offset : entry.start > offset) break;
+    found = entry;
+  }
+  return { node: found.node, offset: Math.min(offset - found.start, found.node.length) };
+};
+
+/** A DOM range over a span of the index. */
+export const rangeOfSpan = (index: TextIndex, { start, end }: TextSpan): Range => {
+  const range = document.createRange();
+  const from = nodeAt(index, start, false);
+  const to = nodeAt(index, end, true);
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  return range;
+};
+
+/**
+ * Finds every case-insensitive occurrence of the query.
+ * @returns The spans of the matches in document order; none for an empty query.
+ */
+export const searchText = (index: TextIndex, query: string): TextSpan[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const pattern = new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'), 'giu');
+  return [...index.text.matchAll(pattern)].map(match => ({ start: match.index, end: match.index + match[0].length }));
+};
+
+/** The index offset under a point on the screen, e.g. of a click; null if the point isn't over text. */
+export const offsetAtPoint = (index: TextIndex, x: number, y: number): number | null => {
+  // caretRangeFromPoint is the fallback for Safari before 18.4.
+  const caret = document.caretPositionFromPoint?.(x, y);
+  if (caret) return indexOffset(index, caret.offsetNode, caret.offset);
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? indexOffset(index, range.startContainer, range.startOffset) : null;
+};
+
+/** The slug of the last heading at or before a DOM node, i.e. the section it is in. */
+export const sectionOf = (root: HTMLElement, node: Node): string | null => {
+  let section: string | null = null;
+  root.querySelectorAll<HTMLElement>('h1[id], h2[id], h3[id], h4[id], h5[id], h6[id]').forEach(heading => {
+    if (heading === node || heading.contains(node) || heading.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING) {
+      section = heading.id;
+    }
+  });
+  return section;
+};
+
+/** What an annotation of a span needs to find it again: the quote, its context and its section. */
+export const describeSpan = (root: HTMLElement, index: TextIndex, span: TextSpan): Pick<Annotation, 'quote' | 'prefix' | 'suffix' | 'section'> => ({
+  quote: index.text.slice(span.start, span.end),
+  prefix: index.text.slice(Math.max(0, span.start - CONTEXT_LENGTH), span.start),
+  suffix: index.text.slice(span.end, span.end + CONTEXT_LENGTH),
+  section: sectionOf(root, rangeOfSpan(index, span).startContainer),
+});
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+/**
+ * Finds an annotation's text again. Of several occurrences of the quote, the
+ * one whose surroundings best match the saved context wins.
+ * @returns Its span, or null if the quote is no longer in the text.
+ */
+export const locateAnnotation = (index: TextIndex, annotation: Pick<Annotation, 'quote' | 'prefix' | 'suffix'>): TextSpan | null => {
+  const { quote, prefix, suffix } = annotation;
+  if (!quote) return null;
+  let best: TextSpan | null = null;
+  let bestScore = -1;
+  for (let start = index.text.indexOf(quote); start !== -1; start = index.text.indexOf(quote, start + 1)) {
+    const end = start + quote.length;
+    const score = commonSuffixLength(index.text.slice(Math.max(0, start - prefix.length), start), prefix)
+      + commonPrefixLength(index.text.slice(end, end + suffix.length), suffix);
+    if (score > bestScore) {
+      best = { start, end };
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const createAnnotationId = () => `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const supportsHighlights = () => typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+/**
+ * Paints ranges with the `::highlight(name)` style from index.css, without
+ * touching the DOM the ranges are in. Browsers without the CSS Custom
+ * Highlight API show nothing.
+ * @param name The highlight name; painting it again replaces its ranges.
+ */
+export const paintHighlight = (name: string, ranges: Range[]) => {
+  if (!supportsHighlights()) return;
+  if (ranges.length) CSS.highlights.set(name, new Highlight(...ranges));
+  else CSS.highlights.delete(name);
+};
+
+/** Removes every highlight whose name starts with the prefix. */
+export const clearHighlights = (prefix: string) => {
+  if (!supportsHighlights()) return;
+  [...CSS.highlights.keys()].filter(name => name.startsWith(prefix)).forEach(name => CSS.highlights.delete(name));
+};
+
+/**
+ * Writes the highlights and notes as a markdown summary, grouped under the
+ * headings they were made in.
+ * @param title The book's title.
+ * @param annotations The annotations in reading order.
+ * @param headings The book's headings, to title the groups.
+ * @returns The "my notes" markdown document.
+ */
+export const buildNotesMarkdown = (title: string, annotations: Annotation[], headings: Heading[]): string => {
+  const headingText = new Map(headings.map(heading => [heading.slug, heading.text]));
+  const lines = [`# My Notes: ${title}`, '', `_${annotations.length} highlight${annotations.length === 1 ? '' : 's'}, exported ${new Date().toLocaleDateString()}_`];
+  let section: string | null | undefined;
+  annotations.forEach(annotation => {
+    if (annotation.section !== section) {
+      section = annotation.section;
+      lines.push('', `## ${(section && headingText.get(section)) || 'Introduction'}`);
+    }
+    lines.push('', ...annotation.quote.trim().split(/\n+/).map(line => `> ${line}`));
+    if (annotation.note?.trim()) lines.push('', annotation.note.trim());
+  });
+  return lines.join('\n') + '\n';
+};
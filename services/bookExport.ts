@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { marked } from 'marked';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { type StudyBookResult } from './geminiService';
+import { escapeHtml, extractHeadings } from './markdown';
+import { renderMarkdown } from './markdownRenderer';
+import { formatReference, formatReferencesMarkdown, referenceAnchor, toBibtex, type CitationStyle } from './citations';
+import { collectImageAssets, replaceImageTags } from './imageAssets';
+import { textDirection } from './generationOptions';
+
+export interface ExportInput {
+  title: string;
+  result: StudyBookResult;
+  citationStyle: CitationStyle;
+  /** BCP 47 tag of the language the book is written in. */
+  language: string;
+}
+
+const BOOK_CSS = `
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; margin: 0; }
+main { max-width: 46rem; margin: 0 auto; padding: 2rem 1.25rem 4rem; }
+h1, h2, h3, h4 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.25; }
+h2 { border-bottom: 1px solid #d1d5db; padding-bottom: 0.3rem; }
+img { display: block; max-width: 100%; height: auto; margin: 1.5rem auto; border-radius: 0.5rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: start; vertical-align: top; }
+th { background: #f3f4f6; }
+pre { background: #f3f4f6; padding: 0.75rem 1rem; overflow-x: auto; border-radius: 0.375rem; }
+code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+blockquote { border-inline-start: 3px solid #9ca3af; margin-inline-start: 0; padding-inline-start: 1rem; color: #4b5563; }
+.callout { border-inline-start: 4px solid #6366f1; background: #f5f3ff; margin: 1.5rem 0; padding: 0.25rem 1.25rem; border-start-end-radius: 0.375rem; border-end-end-radius: 0.375rem; }
+.callout[data-callout="warning"] { border-color: #f59e0b; background: #fffbeb; }
+.callout > p:first-child { font-family: 'Helvetica Neue', Arial, sans-serif; font-weight: 600; }
+a { color: #2563eb; }
+nav.toc ol { padding-inline-start: 1.25rem; }
+.references li { margin-bottom: 0.5rem; word-break: break-word; }
+`.trim();
+
+const linkifiedReference = (entry: string, uri: string) =>
+  entry.split(uri).map(escapeHtml).join(`<a href="${escapeHtml(uri)}">${escapeHtml(uri)}</a>`);
+
+/** The references as an HTML section, with `ref-N` ids matching the inline citation markers. */
+const referencesHtml = ({ result, citationStyle }: ExportInput) => {
+  if (result.sources.length === 0) return '';
+  const items = result.sources
+    .map((source, i) => `<li id="${referenceAnchor(i)}">${linkifiedReference(formatReference(source, i, citationStyle), source.uri)}</li>`)
+    .join('\n');
+  const listStyle = citationStyle === 'ieee' ? ' style="list-style: none; padding-inline-start: 0;"' : '';
+  return `<section class="references">\n<h2 id="references">References</h2>\n<ol${listStyle}>\n${items}\n</ol>\n</section>`;
+};
+
+/** The `lang` and `dir` attributes of a document in the book's language. */
+const languageAttributes = (language: string) => `lang="${escapeHtml(language)}" dir="${textDirection(language)}"`;
+
+/** Builds a single self-contained HTML file; images stay inline as `data:` URLs. */
+export const buildHtmlExport = (input: ExportInput): Blob => {
+  const { title, result, language } = input;
+  const toc = result.chapters?.length
+    ? `<nav class="toc">\n<h2>Contents</h2>\n<ol>\n${result.chapters.map(chapter => `<li><a href="#${chapter.anchor}">${escapeHtml(chapter.title)}</a></li>`).join('\n')}\n</ol>\n</nav>\n`
+    : '';
+  const html = `<!DOCTYPE html>
+<html ${languageAttributes(language)}>
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>
+${BOOK_CSS}
+</style>
+</head>
+<body>
+<main>
+${toc}<article>
+${renderMarkdown(result.content, { math: 'mathml' })}
+</article>
+${referencesHtml(input)}
+</main>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
+
+/**
+ * Builds a zip with the raw markdown under `lang` and `dir` front matter, the
+ * images pulled out of the inline `data:` tags into `images/`, and the sources as BibTeX.
+ */
+export const buildMarkdownBundle = async ({ result, citationStyle, language }: ExportInput): Promise<Blob> => {
+  const assets = await collectImageAssets(result.content);
+  const markdown = replaceImageTags(result.content, assets, asset =>
+    `![${asset.alt.replace(/[[\]]/g, '')}](images/${asset.fileName})`
+  );
+  const references = formatReferencesMarkdown(result.sources, citationStyle);
+  const frontMatter = `---\nlang: ${language}\ndir: ${textDirection(language)}\n---\n\n`;
+
+  const files: Zippable = {
+    'study-book.md': strToU8(`${frontMatter}${markdown.trim()}\n${references ? `\n${references}` : ''}`),
+    images: Object.fromEntries(assets.map(asset => [asset.fileName, [asset.data, { level: 0 }]])),
+  };
+  if (result.sources.length > 0) {
+    files['sources.bib'] = strToU8(toBibtex(result.sources));
+  }
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+/** Splits the markdown into chapters at each top-level H1, keeping any preamble with the first one. */
+const splitChapters = (markdown: string): string[] => {
+  const chapters: string[] = [];
+  let current = '';
+  for (const token of marked.lexer(markdown)) {
+    if (token.type === 'heading' && token.depth === 1 && current.trim()) {
+      chapters.push(current);
+      current = '';
+    }
+    current += token.raw;
+  }
+  if (current.trim()) chapters.push(current);
+  return chapters;
+};
+
+/** Re-serializes browser-parsed HTML as well-formed XHTML for EPUB content documents. */
+const toXhtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const serializer = new XMLSerializer();
+  return [...doc.body.childNodes].map(node => serializer.serializeToString(node)).join('');
+};
+
+const xhtmlPage = (language: string, title: string, body: string, bodyAttributes = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" ${languageAttributes(language)} xml:lang="${escapeHtml(language)}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body${bodyAttributes}>
+${body}
+</body>
+</html>
+`;
+
+/** Builds an EPUB 3 package: one XHTML document per chapter, a nav document, embedded images and references. */
+export const buildEpubExport = async (input: ExportInput): Promise<Blob> => {
+  const { title, result, language } = input;
+  const assets = await collectImageAssets(result.content);
+  const hasReferences = result.sources.length > 0;
+
+  const chapters = splitChapters(result.content).map((markdown, i) => {
+    const fileName = `chapter-${i + 1}.xhtml`;
+    const headings = extractHeadings(markdown);
+    const chapterTitle = headings.find(heading => heading.depth === 1)?.text ?? title;
+    const prepared = replaceImageTags(markdown, assets, asset =>
+      `<img src="images/${asset.fileName}" alt="${escapeHtml(asset.alt)}" />`
+    ).replace(/\]\(#ref-/g, '](references.xhtml#ref-');
+    return { fileName, chapterTitle, headings, xhtml: xhtmlPage(language, chapterTitle, toXhtml(renderMarkdown(prepared, { math: 'mathml' }))) };
+  });
+
+  const navItems = chapters.map(chapter => {
+    const sections = chapter.headings
+      .filter(heading => heading.depth === 2)
+      .map(heading => `<li><a href="${chapter.fileName}#${heading.slug}">${escapeHtml(heading.text)}</a></li>`)
+      .join('');
+    return `<li><a href="${chapter.fileName}">${escapeHtml(chapter.chapterTitle)}</a>${sections ? `<ol>${sections}</ol>` : ''}</li>`;
+  });
+  if (hasReferences) navItems.push('<li><a href="references.xhtml">References</a></li>');
+  const nav = xhtmlPage(language, title, `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n<ol>\n${navItems.join('\n')}\n</ol>\n</nav>`);
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+    '<item id="style" href="style.css" media-type="text/css" />',
+    ...chapters.map((chapter, i) => `<item id="chapter-${i + 1}" href="${chapter.fileName}" media-type="application/xhtml+xml" />`),
+    ...(hasReferences ? ['<item id="references" href="references.xhtml" media-type="application/xhtml+xml" />'] : []),
+    ...assets.map((asset, i) => `<item id="image-${i + 1}" href="images/${asset.fileName}" media-type="${asset.mimeType}" />`),
+  ];
+  const spine = [
+    ...chapters.map((_, i) => `<itemref idref="chapter-${i + 1}" />`),
+    ...(hasReferences ? ['<itemref idref="references" />'] : []),
+  ];
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+<dc:title>${escapeHtml(title)}</dc:title>
+<dc:language>${escapeHtml(language)}</dc:language>
+<meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>
+</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine page-progression-direction="${textDirection(language)}">
+${spine.join('\n')}
+</spine>
+</package>
+`;
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  const oebps: Zippable = {
+    'content.opf': strToU8(opf),
+    'nav.xhtml': strToU8(nav),
+    'style.css': strToU8(BOOK_CSS),
+    images: Object.fromEntries(assets.map(asset => [asset.fileName, [asset.data, { level: 0 }]])),
+  };
+  chapters.forEach(chapter => (oebps[chapter.fileName] = strToU8(chapter.xhtml)));
+  if (hasReferences) {
+    oebps['references.xhtml'] = strToU8(xhtmlPage(language, 'References', toXhtml(referencesHtml(input))));
+  }
+
+  // The mimetype entry must come first and be stored uncompressed.
+  const epub = zipSync({
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF': { 'container.xml': strToU8(container) },
+    OEBPS: oebps,
+  });
+  return new Blob([epub], { type: 'application/epub+zip' });
+};
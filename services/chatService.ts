@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Follow-up questions about a finished study book. Answers come from the book
+ * alone: the prompt carries its sections, labelled [S1], [S2], ..., and its
+ * numbered references, and the model cites the sections it used. The labels
+ * are turned into links to the sections' headings.
+ */
+
+import { marked, type Tokens } from 'marked';
+import { type StudyBookResult } from './geminiService';
+import { createModelProvider, type ModelProvider } from './modelProvider';
+import { createSlugger } from './markdown';
+import { stripImages } from './imageAssets';
+
+export interface SectionCitation {
+  /** The id of the section's heading in the rendered book. */
+  slug: string;
+  heading: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  /** The question, or the answer as markdown with its section labels turned into links. */
+  text: string;
+  /** The sections an answer drew on, in the order it first cited them. */
+  citations?: SectionCitation[];
+  /** The heading slug of the subsection an answer was inserted into the book as. */
+  insertedAs?: string;
+  createdAt: number;
+}
+
+/** How many earlier messages go into the prompt, so follow-ups make sense without the prompt growing forever. */
+const HISTORY_LENGTH = 6;
+
+const SECTION_LABEL = /\[S(\d+)\]/g;
+
+interface LabelledSection extends SectionCitation {
+  markdown: string;
+}
+
+/** Splits the book at its headings, pairing the text under each with the id its heading gets when rendered. */
+const labelSections = (content: string): LabelledSection[] => {
+  const slug = createSlugger();
+  const sections: LabelledSection[] = [];
+  for (const token of marked.lexer(content)) {
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      sections.push({ slug: slug(heading.text), heading: heading.text, markdown: '' });
+      continue;
+    }
+    if (sections.length === 0) {
+      sections.push({ slug: '', heading: 'Introduction', markdown: '' });
+    }
+    sections[sections.length - 1].markdown += token.raw;
+  }
+  return sections.filter(section => section.markdown.trim());
+};
+
+export const createMessageId = () => `msg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Answers a question about a study book from the book's own content.
+ * @param result The study book to answer from.
+ * @param history The conversation so far, oldest first.
+ * @param question The reader's question.
+ * @param onText Called with the answer received so far as it streams in, with section labels already linked.
+ * @param signal Aborts the request.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the answer message.
+ */
+export const askAboutBook = async (
+    result: StudyBookResult,
+    history: ChatMessage[],
+    question: string,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal,
+    provider: ModelProvider = createModelProvider()
+): Promise<ChatMessage> => {
+    const sections = labelSections(stripImages(result.content));
+    const linkLabels = (text: string) => text.replace(SECTION_LABEL, (_, n: string) => {
+        const section = sections[Number(n) - 1];
+        // Drop labels the model made up rather than show them.
+        return section ? `[§ ${section.heading}](#${section.slug})` : '';
+    });
+    const conversation = history.slice(-HISTORY_LENGTH)
+        .map(message => `${message.role === 'user' ? 'Student' : 'Tutor'}: ${message.text}`)
+        .join('\n\n        ');
+
+    console.log(`Answering a question about the study book from ${sections.length} sections...`);
+    const response = await provider.generateText({
+        prompt: `You are a patient tutor answering a student's follow-up question about the study book below.
+
+        **Rules:**
+        *   Answer only from the study book. If it does not cover the question, say so briefly and point to the closest section, if any.
+        *   After each claim, cite the section it came from with its label, e.g. [S3]. Cite only sections you actually used.
+        *   Where the study book cites a reference for a claim you repeat, keep its marker in the same form, e.g. [[2]](#ref-2).
+        *   Be concise: a few short paragraphs or a list. Use Markdown, and LaTeX between $ signs for math.
+        *   Do not add a heading.
+
+        --- STUDY BOOK ---
+        ${sections.map((section, i) => `[S${i + 1}] ${section.heading}\n${section.markdown.trim()}`).join('\n\n        ')}
+
+        --- REFERENCES ---
+        ${result.sources.length ? result.sources.map((source, i) => `[${i + 1}] ${source.title}`).join('\n        ') : 'None.'}
+        ${conversation ? `\n        --- CONVERSATION SO FAR ---\n        ${conversation}\n` : ''}
+        --- QUESTION ---
+        ${question.trim()}`,
+        format: 'markdown',
+        temperature: 0.3,
+        onText: onText && (textSoFar => onText(linkLabels(textSoFar))),
+        signal,
+    });
+
+    const cited = [...new Set([...response.text.matchAll(SECTION_LABEL)].map(([, n]) => Number(n) - 1))];
+    const citations = cited
+        .map(index => sections[index])
+        .filter((section): section is LabelledSection => !!section)
+        .map(({ slug, heading }) => ({ slug, heading }));
+    console.log(`Answered, citing ${citations.length} sections.`);
+    return { id: createMessageId(), role: 'assistant', text: linkLabels(response.text).trim(), citations, createdAt: Date.now() };
+};
+
+/** Turns a question into a subsection heading, e.g. "why does ice float?" -> "Why does ice float?". */
+const headingFromQuestion = (question: string) => {
+  const line = question.trim().split('\n')[0].replace(/[#*_`]/g, '');
+  const short = line.length > 80 ? `${line.slice(0, 77).trimEnd()}...` : line;
+  return short.charAt(0).toUpperCase() + short.slice(1);
+};
+
+/**
+ * Adds an answer to the book as a subsection at the end of the first section
+ * it cites, or at the end of the book if it cites none.
+ * @param content The book's markdown.
+ * @param question The question, which becomes the subsection's heading.
+ * @param answer The answer message.
+ * @returns The new markdown and the slug of the new heading.
+ */
+export const insertAnswer = (content: string, question: string, answer: ChatMessage): { content: string; slug: string } => {
+  const target = answer.citations?.find(citation => citation.slug)?.slug;
+  const slug = createSlugger();
+  const tokens = marked.lexer(content);
+  let offset = 0;
+  let depth = 1;
+  let insertAt = content.length;
+  let found = false;
+  for (const token of tokens) {
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      const headingSlug = slug(heading.text);
+      if (found && heading.depth <= depth) {
+        insertAt = offset;
+        break;
+      }
+      if (!found && headingSlug === target) {
+        found = true;
+        depth = heading.depth;
+      }
+    }
+    offset += token.raw.length;
+  }
+  const title = headingFromQuestion(question);
+  const subsection = `${'#'.repeat(Math.min(found ? depth + 1 : 2, 6))} ${title}\n\n${answer.text.trim()}\n\n`;
+  const before = content.slice(0, insertAt).trimEnd();
+  const updated = `${before}\n\n${subsection}${content.slice(insertAt).trimStart()}`.trimEnd() + '\n';
+
+  // The new heading's slug depends on the headings before it, so look it up in the updated book.
+  const headingSlugs = createSlugger();
+  let newSlug = '';
+  let position = 0;
+  for (const token of marked.lexer(updated)) {
+    if (token.type === 'heading') {
+      const headingSlug = headingSlugs((token as Tokens.Heading).text);
+      if (position >= before.length && !newSlug) newSlug = headingSlug;
+    }
+    position += token.raw.length;
+  }
+  return { content: updated, slug: newSlug };
+};
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type Source } from './modelProvider';
+
+export type CitationStyle = 'apa' | 'mla' | 'ieee' | 'plain';
+
+export const CITATION_STYLES: { value: CitationStyle; label: string }[] = [
+  { value: 'apa', label: 'APA' },
+  { value: 'mla', label: 'MLA' },
+  { value: 'ieee', label: 'IEEE' },
+  { value: 'plain', label: 'Plain list' },
+];
+
+/** A passage of generated text backed by one or more entries of the result's `sources`. */
+export interface Citation {
+  text: string;
+  /** Indices into the `sources` array the passage was grounded on. */
+  sourceIndices: number[];
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const shortMonth = (month: number) => (MONTHS[month].length > 4 ? `${MONTHS[month].slice(0, 3)}.` : MONTHS[month]);
+
+const siteName = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Anchor id of a source's entry in the rendered reference list. */
+export const referenceAnchor = (index: number) => `ref-${index + 1}`;
+
+/** Formats an uploaded document as a reference entry: its file name and, for PDFs, the page. */
+const formatDocumentReference = ({ name, page }: NonNullable<Source['document']>, index: number, style: CitationStyle): string => {
+  switch (style) {
+    case 'apa':
+      return `${name}${page ? ` (p. ${page})` : ''}. [Uploaded document].`;
+    case 'mla':
+      return `${name}.${page ? ` p. ${page}.` : ''} Uploaded document.`;
+    case 'ieee':
+      return `[${index + 1}] ${name}${page ? `, p. ${page}` : ''}. [Uploaded document].`;
+    case 'plain':
+    default:
+      return `${name}${page ? `, p. ${page}` : ''} — uploaded document`;
+  }
+};
+
+/**
+ * Formats one source as a reference entry. Grounding sources only carry a title
+ * and a URL, so entries are web-page references with an access date; uploaded
+ * documents are cited by file name and page.
+ */
+export const formatReference = (source: Source, index: number, style: CitationStyle, accessed = new Date()): string => {
+  if (source.document) return formatDocumentReference(source.document, index, style);
+  const site = siteName(source.uri);
+  const day = accessed.getDate();
+  const month = accessed.getMonth();
+  const year = accessed.getFullYear();
+  switch (style) {
+    case 'apa':
+      return `${source.title}. (n.d.). ${site}. Retrieved ${MONTHS[month]} ${day}, ${year}, from ${source.uri}`;
+    case 'mla':
+      return `"${source.title}." ${site}, ${source.uri}. Accessed ${day} ${shortMonth(month)} ${year}.`;
+    case 'ieee':
+      return `[${index + 1}] "${source.title}," ${site}. [Online]. Available: ${source.uri} (accessed ${shortMonth(month)} ${day}, ${year}).`;
+    case 'plain':
+    default:
+      return `${source.title} — ${source.uri}`;
+  }
+};
+
+/** Formats the sources as a "References" markdown section for text-based exports. */
+export const formatReferencesMarkdown = (sources: Source[], style: CitationStyle, accessed = new Date()): string => {
+  if (sources.length === 0) return '';
+  const entries = sources.map((source, i) => {
+    const entry = formatReference(source, i, style, accessed);
+    return style === 'ieee' ? entry : `${i + 1}. ${entry}`;
+  });
+  return `## References\n\n${entries.join(style === 'ieee' ? '\n\n' : '\n')}\n`;
+};
+
+const escapeBibtex = (value: string) => value.replace(/([{}&%$#_])/g, '\\$1');
+
+/** Serializes the sources as BibTeX `@misc` entries. */
+export const toBibtex = (sources: Source[], accessed = new Date()): string =>
+  sources
+    .map((source, i) => source.document ? [
+      `@misc{source${i + 1},`,
+      `  title = {${escapeBibtex(source.document.name)}},`,
+      `  note = {Uploaded document${source.document.page ? `, p. ${source.document.page}` : ''}}`,
+      `}`,
+    ].join('\n') : [
+      `@misc{source${i + 1},`,
+      `  title = {${escapeBibtex(source.title)}},`,
+      `  howpublished = {\\url{${source.uri}}},`,
+      `  note = {Accessed: ${isoDate(accessed)}}`,
+      `}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+/** Serializes the sources as RIS electronic-source records. */
+export const toRis = (sources: Source[], accessed = new Date()): string =>
+  sources
+    .map(source => source.document ? [
+      'TY  - GEN',
+      `TI  - ${source.document.name}`,
+      ...(source.document.page ? [`SP  - ${source.document.page}`] : []),
+      'ER  - ',
+    ].join('\r\n') : [
+      'TY  - ELEC',
+      `TI  - ${source.title}`,
+      `UR  - ${source.uri}`,
+      `PB  - ${siteName(source.uri)}`,
+      `Y2  - ${isoDate(accessed).replace(/-/g, '/')}`,
+      'ER  - ',
+    ].join('\r\n'))
+    .join('\r\n') + '\r\n';
+
+/** Lines that must not get a trailing marker: headings, table rows and image placeholders. */
+const UNMARKABLE_LINE = /^\s*(#|\||\[IMAGE:)/;
+
+/**
+ * Appends citation markers such as `[[1]](#ref-1)` to the end of the line on
+ * which each cited passage ends. Passages that cannot be located, or that end
+ * on a heading or table row, are left unmarked.
+ */
+export const insertCitationMarkers = (markdown: string, citations: Citation[]): string => {
+  const markersByLineEnd = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    const passage = citation.text.trim();
+    if (!passage || citation.sourceIndices.length === 0) continue;
+    const start = markdown.indexOf(passage);
+    if (start === -1) continue;
+    const end = start + passage.length;
+    const lineStart = markdown.lastIndexOf('\n', end - 1) + 1;
+    const lineEndIndex = markdown.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? markdown.length : lineEndIndex;
+    if (UNMARKABLE_LINE.test(markdown.slice(lineStart, lineEnd))) continue;
+    const markers = markersByLineEnd.get(lineEnd) ?? new Set<number>();
+    citation.sourceIndices.forEach(index => markers.add(index));
+    markersByLineEnd.set(lineEnd, markers);
+  }
+
+  let result = markdown;
+  [...markersByLineEnd.entries()]
+    .sort(([a], [b]) => b - a)
+    .forEach(([position, indices]) => {
+      const markers = [...indices]
+        .sort((a, b) => a - b)
+        .map(index => `[[${index + 1}]](#${referenceAnchor(index)})`)
+        .join('');
+      result = `${result.slice(0, position).trimEnd()} ${markers}${result.slice(position)}`;
+    });
+  return result;
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import mermaid from 'mermaid';
+
+let initialized = false;
+let renderCount = 0;
+
+const ensureInitialized = () => {
+  if (initialized) return;
+  // Plain SVG text labels (no <foreignObject>) so the output also renders in <img>, canvas and PDF.
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    theme: 'neutral',
+    htmlLabels: false,
+    fontFamily: 'Helvetica, Arial, sans-serif',
+  });
+  initialized = true;
+};
+
+/** Strips the code fences and chatter models tend to wrap Mermaid source in. */
+export const extractMermaidSource = (text: string): string => {
+  const fenced = text.match(/```(?:mermaid)?\s*\n([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : text).trim();
+};
+
+/** Gives the SVG a fixed size from its viewBox so it has natural dimensions as an `<img>`. */
+const withIntrinsicSize = (svg: string): string => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [, , width, height] = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  if (width > 0 && height > 0) {
+    root.setAttribute('width', String(Math.ceil(width)));
+    root.setAttribute('height', String(Math.ceil(height)));
+    root.removeAttribute('style');
+  }
+  return new XMLSerializer().serializeToString(root);
+};
+
+/**
+ * Renders Mermaid source to a standalone SVG document, entirely in the browser.
+ * @param code The Mermaid diagram definition.
+ * @returns A promise that resolves to the SVG markup. Rejects on syntax errors.
+ */
+export const renderMermaid = async (code: string): Promise<string> => {
+  ensureInitialized();
+  const { svg } = await mermaid.render(`mermaid-diagram-${++renderCount}`, code);
+  return withIntrinsicSize(svg);
+};
+
+export const svgToDataUrl = (svg: string): string => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+export const isSvgDataUrl = (src: string) => /^data:image\/svg\+xml[;,]/i.test(src);
+
+/** Parses an SVG `data:` URL back into an element, for exporters that draw vectors. */
+export const parseSvgDataUrl = (src: string): SVGSVGElement | null => {
+  const match = src.match(/^data:image\/svg\+xml(;base64)?,(.*)$/is);
+  if (!match) return null;
+  const markup = match[1]
+    ? new TextDecoder().decode(Uint8Array.from(atob(match[2]), char => char.charCodeAt(0)))
+    : decodeURIComponent(match[2]);
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  return doc.querySelector('parsererror') ? null : doc.documentElement as unknown as SVGSVGElement;
+};
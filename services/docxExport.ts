@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { marked, type Token, type Tokens } from 'marked';
+import { strToU8, zipSync } from 'fflate';
+import { createSlugger, replaceCalloutMarkers, toTextRuns, type TextRun } from './markdown';
+import { formatReference, referenceAnchor } from './citations';
+import { IMG_TAG, collectImageAssets, getAttribute, type ImageAsset } from './imageAssets';
+import { type ExportInput } from './bookExport';
+import { textDirection } from './generationOptions';
+
+const EMU_PER_PIXEL = 9525;
+const MAX_IMAGE_WIDTH_EMU = 5943600; // 6.5in, the text width of a Letter page with 1in margins
+
+const NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+
+/** Word bookmark names allow at most 40 word characters; the leading underscore hides them from Word's bookmark list. */
+const bookmarkName = (anchor: string) => `_${anchor.replace(/[^\p{L}\p{N}_]/gu, '_')}`.slice(0, 40);
+
+interface DocxState {
+  images: Map<string, { asset: ImageAsset; relId: string }>;
+  links: Map<string, string>;
+  /** One numbering instance per list so ordered lists restart at 1. */
+  lists: { ordered: boolean }[];
+  slug: (text: string) => string;
+  bookmarkId: number;
+  drawingId: number;
+}
+
+const linkRelId = (state: DocxState, url: string) => {
+  if (!state.links.has(url)) state.links.set(url, `rIdLink${state.links.size + 1}`);
+  return state.links.get(url)!;
+};
+
+const runXml = (run: TextRun) => {
+  const properties = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : '',
+    run.href ? '<w:rStyle w:val="Hyperlink"/>' : '',
+  ].join('');
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : '';
+  return run.text
+    .split('\n')
+    .map((line, i) => `<w:r>${rPr}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('');
+};
+
+/** Renders runs, grouping consecutive runs with the same link into one hyperlink element. */
+const runsXml = (state: DocxState, runs: TextRun[]) => {
+  let xml = '';
+  for (let i = 0; i < runs.length; i++) {
+    const href = runs[i].href;
+    if (!href) {
+      xml += runXml(runs[i]);
+      continue;
+    }
+    let inner = '';
+    while (i < runs.length && runs[i].href === href) inner += runXml(runs[i++]);
+    i--;
+    xml += href.startsWith('#')
+      ? `<w:hyperlink w:anchor="${escapeXml(bookmarkName(href.slice(1)))}">${inner}</w:hyperlink>`
+      : `<w:hyperlink r:id="${linkRelId(state, href)}">${inner}</w:hyperlink>`;
+  }
+  return xml;
+};
+
+const paragraphXml = (content: string, properties = '') =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+const bookmarked = (state: DocxState, anchor: string, content: string) => {
+  const id = state.bookmarkId++;
+  return `<w:bookmarkStart w:id="${id}" w:name="${escapeXml(bookmarkName(anchor))}"/>${content}<w:bookmarkEnd w:id="${id}"/>`;
+};
+
+/** Word 2016+ shows the SVG from this extension and falls back to the PNG elsewhere. */
+const SVG_BLIP_EXTENSION = '{96DAC541-7B7A-43D3-8B79-37D633B846F1}';
+
+const imageXml = (state: DocxState, src: string) => {
+  const image = state.images.get(src);
+  if (!image) return '';
+  const { asset, relId } = image;
+  const id = state.drawingId++;
+  const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (asset.width * EMU_PER_PIXEL));
+  const cx = Math.round(asset.width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(asset.height * EMU_PER_PIXEL * scale);
+  const drawing = `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(asset.alt)}"/><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${asset.fileName}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relId}">${asset.vector ? `<a:extLst><a:ext uri="${SVG_BLIP_EXTENSION}"><asvg:svgBlip xmlns:asvg="http://schemas.microsoft.com/office/drawing/2016/SVG/main" r:embed="${relId}Svg"/></a:ext></a:extLst>` : ''}</a:blip><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+  return paragraphXml(drawing, '<w:jc w:val="center"/>');
+};
+
+/** Emits paragraph text and pulls inline `<img>` tags out into their own paragraphs. */
+const inlineBlockXml = (state: DocxState, tokens: Token[], properties = '') => {
+  const textTokens = tokens.filter(token => !(token.type === 'html' && /<img\b/i.test(token.raw)));
+  const images = tokens
+    .filter(token => token.type === 'html' && /<img\b/i.test(token.raw))
+    .flatMap(token => token.raw.match(IMG_TAG) ?? [])
+    .map(tag => imageXml(state, getAttribute(tag, 'src')));
+  const runs = toTextRuns(textTokens);
+  const text = runs.some(run => run.text.trim()) ? paragraphXml(runsXml(state, runs), properties) : '';
+  return text + images.join('');
+};
+
+const tableXml = (state: DocxState, table: Tokens.Table) => {
+  const cell = (tokens: Token[], header: boolean) =>
+    `<w:tc><w:tcPr>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''}</w:tcPr>${paragraphXml(runsXml(state, toTextRuns(tokens, header ? { bold: true } : {})))}</w:tc>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`;
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('');
+  const header = `<w:tr><w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>${table.header.map(c => cell(c.tokens, true)).join('')}</w:tr>`;
+  const rows = table.rows.map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map(c => cell(c.tokens, false)).join('')}</w:tr>`).join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>${header}${rows}</w:tbl>${paragraphXml('')}`;
+};
+
+const listXml = (state: DocxState, list: Tokens.List, level: number): string => {
+  state.lists.push({ ordered: list.ordered });
+  const numId = state.lists.length;
+  return list.items.map(item => item.tokens.map(token => {
+    if (token.type === 'list') return listXml(state, token as Tokens.List, level + 1);
+    const tokens = token.type === 'text' || token.type === 'paragraph' ? (token as Tokens.Text).tokens ?? [token] : [token];
+    return inlineBlockXml(state, tokens, `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${Math.min(level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`);
+  }).join('')).join('');
+};
+
+const blocksXml = (state: DocxState, tokens: Token[], paragraphStyle = ''): string =>
+  tokens.map(token => {
+    const style = paragraphStyle ? `<w:pStyle w:val="${paragraphStyle}"/>` : '';
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        const content = runsXml(state, toTextRuns(heading.tokens));
+        return paragraphXml(bookmarked(state, state.slug(heading.text), content), `<w:pStyle w:val="Heading${heading.depth}"/>`);
+      }
+      case 'paragraph':
+        return inlineBlockXml(state, (token as Tokens.Paragraph).tokens, style);
+      case 'text':
+        return inlineBlockXml(state, (token as Tokens.Text).tokens ?? [token], style);
+      case 'list':
+        return listXml(state, token as Tokens.List, 0);
+      case 'table':
+        return tableXml(state, token as Tokens.Table);
+      case 'code':
+        return (token as Tokens.Code).text.split('\n')
+          .map(line => paragraphXml(runXml({ text: line }), '<w:pStyle w:val="Code"/>'))
+          .join('');
+      case 'blockquote':
+        return blocksXml(state, (token as Tokens.Blockquote).tokens, 'Quote');
+      case 'html':
+        return (token.raw.match(IMG_TAG) ?? []).map(tag => imageXml(state, getAttribute(tag, 'src'))).join('');
+      case 'hr':
+        return paragraphXml('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>');
+      default:
+        return '';
+    }
+  }).join('');
+
+/** The styles, with the document's language for spelling and fonts, and right-to-left paragraphs for languages such as Arabic. */
+const stylesXml = (language: string, rightToLeft: boolean) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:lang w:val="${escapeXml(language)}" w:eastAsia="${escapeXml(language)}" w:bidi="${escapeXml(language)}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr>${rightToLeft ? '<w:bidi/>' : ''}<w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="480"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/></w:rPr></w:style>
+${[1, 2, 3, 4, 5, 6].map(level => `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:color w:val="1F2937"/><w:sz w:val="${[40, 32, 28, 24, 22, 22][level - 1]}"/></w:rPr></w:style>`).join('\n')}
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="567"/><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="9CA3AF"/></w:pBdr></w:pPr><w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+const numberingXml = (lists: { ordered: boolean }[]) => {
+  const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) =>
+    `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${ordered ? ['decimal', 'lowerLetter', 'lowerRoman'][level % 3] : 'bullet'}"/><w:lvlText w:val="${ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level % 3]}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+  ).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>
+${lists.map((list, i) => `<w:num w:numId="${i + 1}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>${list.ordered ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>' : ''}</w:num>`).join('\n')}
+</w:numbering>`;
+};
+
+/**
+ * Builds a Word document with real heading styles (so Word's navigation pane
+ * and TOC field work), numbered and bulleted lists, tables with repeating
+ * header rows, embedded images and a References section.
+ */
+export const buildDocxExport = async ({ title, result, citationStyle, language }: ExportInput): Promise<Blob> => {
+  const rightToLeft = textDirection(language) === 'rtl';
+  const assets = await collectImageAssets(result.content, { rasterOnly: true });
+  const state: DocxState = {
+    images: new Map(assets.map((asset, i) => [asset.src, { asset, relId: `rIdImg${i + 1}` }])),
+    links: new Map(),
+    lists: [],
+    slug: createSlugger(),
+    bookmarkId: 0,
+    drawingId: 1,
+  };
+
+  let body = paragraphXml(runXml({ text: title }), '<w:pStyle w:val="Title"/>');
+  body += blocksXml(state, marked.lexer(replaceCalloutMarkers(result.content), { gfm: true, breaks: true }));
+  if (result.sources.length > 0) {
+    body += paragraphXml(runXml({ text: 'References' }), '<w:pStyle w:val="Heading2"/>');
+    result.sources.forEach((source, i) => {
+      const label = citationStyle === 'ieee' ? '' : `${i + 1}. `;
+      const runs = (label + formatReference(source, i, citationStyle))
+        .split(source.uri)
+        .flatMap((part, index): TextRun[] => (index === 0 ? [{ text: part }] : [{ text: source.uri, href: source.uri }, { text: part }]));
+      body += paragraphXml(bookmarked(state, referenceAnchor(i), runsXml(state, runs)));
+    });
+  }
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${NAMESPACES}><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/>${rightToLeft ? '<w:bidi/>' : ''}</w:sectPr></w:body></w:document>`;
+
+  const relationships = [
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+    ...[...state.images.values()].map(({ asset, relId }) => `<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${asset.fileName}"/>`),
+    ...[...state.images.values()].filter(({ asset }) => asset.vector).map(({ asset, relId }) => `<Relationship Id="${relId}Svg" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${asset.vector!.fileName}"/>`),
+    ...[...state.links.entries()].map(([url, relId]) => `<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`),
+  ];
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="png" ContentType="image/png"/>
+<Default Extension="jpeg" ContentType="image/jpeg"/>
+<Default Extension="svg" ContentType="image/svg+xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:language>${escapeXml(language)}</dc:language><dc:creator>AI Study Book Generator</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>`;
+
+  const docx = zipSync({
+    '[Content_Types].xml': strToU8(contentTypes),
+    _rels: {
+      '.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`),
+    },
+    docProps: { 'core.xml': strToU8(core) },
+    word: {
+      'document.xml': strToU8(document),
+      'styles.xml': strToU8(stylesXml(language, rightToLeft)),
+      'numbering.xml': strToU8(numberingXml(state.lists)),
+      _rels: { 'document.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join('')}</Relationships>`) },
+      media: Object.fromEntries(assets.flatMap(asset => [
+        [asset.fileName, [asset.data, { level: 0 }]],
+        ...(asset.vector ? [[asset.vector.fileName, [asset.vector.data, { level: 0 }]]] : []),
+      ])),
+    },
+  });
+  return new Blob([docx], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Saves a blob to the user's downloads under the given file name. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Saves text content as a file of the given MIME type. */
+export const downloadText = (text: string, filename: string, mimeType = 'text/plain') => {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+};
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, type GenerateContentResponse, type GroundingMetadata, type Schema, type Type } from "@google/genai";
+import { GenerationError } from './generationErrors';
+import type { JsonSchema, ModelProvider, TextResult } from './modelProvider';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+
+/** Finish reasons that mean the response was withheld rather than finished. */
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']);
+
+/** Throws a safety-block error if the prompt or the response was blocked. */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new GenerationError('safety-block', `The request was blocked by the model's safety filters (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+        throw new GenerationError('safety-block', `The response was blocked by the model's safety filters (${finishReason}).`);
+    }
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    items: schema.items && toGeminiSchema(schema.items),
+    minItems: schema.minItems?.toString(),
+    maxItems: schema.maxItems?.toString(),
+    minimum: schema.minimum,
+    maximum: schema.maximum,
+    properties: schema.properties && Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+    required: schema.required,
+});
+
+/** Collects the de-duplicated web sources and the passages attributed to them. */
+const toTextResult = (text: string, groundingMetadata: GroundingMetadata | undefined): TextResult => {
+    const chunks = groundingMetadata?.groundingChunks ?? [];
+    const sources = chunks
+        .map(chunk => chunk.web)
+        .filter((web, index, self) => web?.uri && self.findIndex(w => w?.uri === web.uri) === index) // Filter out duplicates
+        .map(web => ({ title: web!.title || web!.uri!, uri: web!.uri! }));
+
+    // Supports point at raw chunk indices; re-point them at the de-duplicated sources.
+    const sourceIndexOfChunk = chunks.map(chunk => sources.findIndex(source => source.uri === chunk.web?.uri));
+    const citations = (groundingMetadata?.groundingSupports ?? [])
+        .map(support => ({
+            text: support.segment?.text ?? '',
+            sourceIndices: [...new Set((support.groundingChunkIndices ?? [])
+                .map(index => sourceIndexOfChunk[index])
+                .filter(index => index !== undefined && index >= 0))],
+        }))
+        .filter(citation => citation.text && citation.sourceIndices.length > 0);
+
+    return { text, sources, citations };
+};
+
+/**
+ * Creates a provider backed by the live Gemini and Imagen APIs.
+ * @param apiKey The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string): ModelProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        async generateText({ prompt, useSearch, temperature, onText, signal }) {
+            const request = {
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    temperature,
+                    tools: useSearch ? [{ googleSearch: {} }] : undefined,
+                    abortSignal: signal,
+                },
+            };
+            if (!onText) {
+                const response = await ai.models.generateContent(request);
+                throwIfBlocked(response);
+                return toTextResult(response.text ?? '', response.candidates?.[0]?.groundingMetadata);
+            }
+
+            let text = '';
+            let groundingMetadata: GroundingMetadata | undefined;
+            for await (const chunk of await ai.models.generateContentStream(request)) {
+                signal?.throwIfAborted();
+                throwIfBlocked(chunk);
+                if (chunk.text) {
+                    text += chunk.text;
+                    onText(text);
+                }
+                // Grounding arrives with the last chunks and describes the whole response.
+                groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+            }
+            return toTextResult(text, groundingMetadata);
+        },
+
+        async generateJson({ prompt, schema, temperature, signal }) {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    temperature,
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                    abortSignal: signal,
+                },
+            });
+            throwIfBlocked(response);
+            try {
+                return JSON.parse(response.text ?? '');
+            } catch (e) {
+                throw new GenerationError('malformed-output', 'The model returned malformed JSON.', { cause: e });
+            }
+        },
+
+        async generateImage({ prompt, aspectRatio = '16:9', signal }) {
+            const response = await ai.models.generateImages({
+                model: IMAGE_MODEL,
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType: 'image/png',
+                    aspectRatio,
+                    abortSignal: signal,
+                },
+            });
+            const image = response.generatedImages?.[0];
+            if (image?.raiFilteredReason) {
+                throw new GenerationError('safety-block', `The image was blocked by the model's safety filters: ${image.raiFilteredReason}`);
+            }
+            const imageBytes = image?.image?.imageBytes;
+            if (!imageBytes) {
+                throw new Error('The image model returned no image.');
+            }
+            return `data:image/png;base64,${imageBytes}`;
+        },
+    };
+};
@@ -3,185 +3,961 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
 import { type FormData } from "../components/StartScreen";
+import { createModelProvider, type AspectRatio, type ModelProvider, type Source, type TextResult } from "./modelProvider";
+import { extractHeadings, type Section } from "./markdown";
+import { insertCitationMarkers } from "./citations";
+import { ILLUSTRATION_TAG, failedIllustrationTag, illustrationTag } from "./imageAssets";
+import { extractMermaidSource, renderMermaid, svgToDataUrl } from "./diagrams";
+import { createScheduler, scheduleProvider, type Scheduler } from "./scheduler";
+import { GenerationError } from "./generationErrors";
+import { citeExcerpts, formatExcerpts, selectExcerpts, type Excerpt } from "./sourceDocuments";
+import { audienceBrief, depthBrief, languageName, resolveGenerationOptions, type GenerationOptions } from "./generationOptions";
+import { renderTemplate, resolveTemplates, type PromptPreset, type PromptTemplateId } from "./promptTemplates";
+import { reviewStudyBook, type QualityReport } from "./qualityReview";
+
+export interface Chapter {
+  title: string;
+  /** The heading slug of the chapter's H1, used for jump-to links. */
+  anchor: string;
+}
+
+/** `structured` diagrams are Mermaid source rendered locally to SVG; the others come from the image model. */
+export type IllustrationType = 'diagram' | 'photograph' | 'structured';
+
+export interface Illustration {
+  /** Matches the `data-illustration` attribute of the image in the markdown. */
+  id: string;
+  /** The `[IMAGE: ...]` prompt the text model wrote. */
+  prompt: string;
+  /** The detailed prompt actually sent to the image model. */
+  visualPrompt: string;
+  type: IllustrationType;
+  /** The Mermaid source of a structured diagram. */
+  code?: string;
+  aspectRatio: AspectRatio;
+  origin: 'generated' | 'uploaded';
+  /** True while the book shows a retry placeholder instead of the image. */
+  failed: boolean;
+}
 
 export interface StudyBookResult {
   content: string;
-  sources: { title: string; uri: string }[];
+  sources: Source[];
+  /** Present for multi-chapter books; single guides have no chapters. */
+  chapters?: Chapter[];
+  /** Metadata for each illustration, keyed by id. Missing for books made before illustrations were editable. */
+  illustrations?: Record<string, Illustration>;
+  /** The quality review, if one was run. */
+  review?: QualityReport;
+}
+
+interface IllustratedContent {
+  content: string;
+  illustrations: Record<string, Illustration>;
+}
+
+interface IllustrateOptions {
+  /** Called with the markdown each time another illustration is in place. */
+  onPreview?: (markdown: string) => void;
+  signal?: AbortSignal;
+  /** Illustrations finished before an interruption; they are kept rather than generated again. */
+  resumeFrom?: DraftCheckpoint;
+  /** Called after the classification and after each illustration. */
+  onCheckpoint?: (draft: DraftCheckpoint) => void;
+  scheduler?: Scheduler;
+}
+
+const DEFAULT_ASPECT_RATIO: AspectRatio = '16:9';
+
+/** Shared by every generation so that they respect the same rate limits. */
+const defaultScheduler = createScheduler();
+
+export interface OutlineChapter {
+  title: string;
+  summary: string;
+}
+
+export type RevisionAction = 'regenerate' | 'expand' | 'simplify';
+
+export interface SectionRevision {
+  /** The revised section markdown, heading included. */
+  content: string;
+  /** The book's full source list, with any new sources appended. */
+  sources: Source[];
+  /** Metadata for illustrations added by the revision. */
+  illustrations: Record<string, Illustration>;
+}
+
+/** The progress on the part being written: a whole guide, or one chapter of a book. */
+export interface DraftCheckpoint {
+  /** The drafted markdown, with citation markers and `[IMAGE: ...]` placeholders. */
+  markdown: string;
+  /** Set once the illustrations are classified. */
+  imageTypes?: IllustrationType[];
+  /** The finished illustrations by the index of their placeholder; they finish in any order. */
+  finished: Record<number, FinishedIllustration>;
+}
+
+export interface FinishedIllustration {
+  illustration: Illustration;
+  /** The image, or an empty string if it failed. */
+  src: string;
 }
 
+/** How far the illustrations of the part being written have got. */
+export interface ImageProgress {
+  total: number;
+  /** Finished illustrations, failed ones included. */
+  done: number;
+  failed: number;
+  inProgress: number;
+  /** In-progress illustrations that hit an error and are being retried. */
+  retrying: number;
+}
+
+export type GenerationStage = 'starting' | 'outlining' | 'drafting' | 'classifying' | 'illustrating' | 'assembling' | 'reviewing';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  message: string;
+  /** How much of the whole generation is done, from 0 to 100. */
+  percent: number;
+  /** Set while illustrations are being generated. */
+  images?: ImageProgress;
+  /** When this run of the generation started, in epoch milliseconds. */
+  startedAt?: number;
+  /** When it is expected to finish, once there has been enough progress to estimate it. */
+  estimatedEndAt?: number;
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+/** Everything a generation had finished at its last step, enough to resume it. */
+export interface GenerationCheckpoint {
+  /** The finished chapters of a book; always empty for a single guide. */
+  chapters: string[];
+  sources: Source[];
+  /** Metadata for the illustrations of the finished chapters. */
+  illustrations: Record<string, Illustration>;
+  /** The guide or chapter in progress, once its text is drafted. */
+  draft?: DraftCheckpoint;
+}
+
+export interface GenerationControl {
+  /** Cancels the generation; it then rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** The last checkpoint of an interrupted generation, to continue from. */
+  resumeFrom?: GenerationCheckpoint;
+  /** Called after each finished step: the text, the illustration types, and every image. */
+  onCheckpoint?: (checkpoint: GenerationCheckpoint) => void;
+  /** Runs the illustration model calls; pass one to change the concurrency or limits. */
+  scheduler?: Scheduler;
+}
+
+/** The checkpoint of a generation that hasn't finished any step yet. */
+export const emptyCheckpoint = (): GenerationCheckpoint => ({ chapters: [], sources: [], illustrations: {} });
+
+interface ChapterContext {
+  index: number;
+  outline: OutlineChapter[];
+}
+
+/** A prompt's requirements as a numbered Markdown list. */
+const formatRequirements = (requirements: string[]) =>
+    requirements.map((requirement, i) => `${i + 1}.  ${requirement}`).join('\n');
+
 /**
- * Generates a study book with text and images based on user input.
- * @param formData The user's input for the study book.
- * @param updateProgress A callback function to report progress.
- * @returns A promise that resolves to the generated study book content and sources.
+ * The content requirements for the reader's options: audience, depth, length, language and which elements to include.
+ * @param options The resolved generation options.
+ * @param unit What is being written, e.g. "chapter" or "study guide".
  */
-export const generateStudyBook = async (
-    formData: FormData,
-    updateProgress: (message: string) => void
-): Promise<StudyBookResult> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    // 1. Generate text content with image placeholders
-    updateProgress('Researching and drafting content...');
-    console.log('Generating text content...');
-    
-    const textPrompt = `You are an expert educator and content creator. Your task is to generate a comprehensive, professional, and easy-to-understand study guide based on the user's request.
-
-    **Main Topic:** ${formData.topic}
-    **Subtopic:** ${formData.subtopic}
-    
-    **Guiding Instructions:**
-    ${formData.guide}
-    
-    **Reference Books/Sources to consult:**
-    ${formData.references}
-    
-    **Content Requirements:**
-    1.  **Structure and Formatting:**
+const contentRequirements = (options: GenerationOptions, unit: string): string[] => {
+    const requirements = [
+        `**Structure and Formatting:**
         *   Organize the content logically with clear headings (H1, H2, H3), subheadings, and paragraphs. Use Markdown for all formatting.
         *   Keep paragraphs short (2-4 sentences maximum) for excellent readability.
         *   Utilize bullet points and numbered lists frequently to break down complex information into digestible pieces.
-        *   Ensure generous spacing between paragraphs, lists, and headings to create a clean, uncluttered layout.
-    2.  **Tone:** Maintain a professional yet accessible tone. The content should be easy for a college student to study and understand, while still being comprehensive.
-    3.  **Illustrations:** To enhance understanding, insert placeholders for images, diagrams, or tables where they would be most effective. Use the format \`[IMAGE: A clear, descriptive prompt for an image]\`. For example: \`[IMAGE: A diagram showing the process of photosynthesis, labeling the inputs and outputs.]\`. Be specific in your image prompts. Insert a variety of placeholders for both diagrams and photos where appropriate.
-    4.  **Tables:** Use markdown tables for comparisons or data summaries where appropriate. Ensure any tables are well-structured in Markdown, with clear headers, aligned columns, and concise data presentation. The table should be easy to read and integrate seamlessly with the surrounding text.
-    
-    Generate the study guide now.`;
-
-    const textResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: textPrompt,
-        config: { tools: [{ googleSearch: {} }] },
+        *   Ensure generous spacing between paragraphs, lists, and headings to create a clean, uncluttered layout.`,
+        `**Callouts, Math and Code:** Put the most important ideas, warnings and examples in callout blocks: a block quote whose first line is a marker such as \`> [!KEY IDEA]\`, \`> [!WARNING]\`, \`> [!EXAMPLE]\`, \`> [!TIP]\`, \`> [!NOTE]\` or \`> [!DEFINITION]\`, followed by the quoted content. Write mathematical notation in LaTeX, between \`$...$\` inline or \`$$...$$\` on lines of their own for displayed equations. Put code in fenced code blocks tagged with the language.`,
+        `**Audience and Tone:** Write for ${audienceBrief(options.audience)}`,
+        `**Depth and Length:** ${depthBrief(options.depth)} Aim for about ${options.wordCount.toLocaleString('en-US')} words for the whole ${unit}, not counting image placeholders.`,
+        `**Language:** Write the entire ${unit}, including headings, in ${languageName(options.language)} (\`${options.language}\`). Write image placeholder prompts in English.`,
+        options.illustrationCount > 0
+            ? `**Illustrations:** To enhance understanding, insert ${options.illustrationCount === 1 ? 'one placeholder' : `${options.illustrationCount} placeholders`} for images or diagrams where ${options.illustrationCount === 1 ? 'it' : 'they'} would be most effective, no more. Use the format \`[IMAGE: A clear, descriptive prompt for an image]\`. For example: \`[IMAGE: A diagram showing the process of photosynthesis, labeling the inputs and outputs.]\`. Be specific in your image prompts.${options.illustrationCount > 1 ? ' Use a variety of diagrams and photos where appropriate.' : ''}`
+            : `**Illustrations:** Do not insert any images or image placeholders.`,
+        options.includeTables
+            ? `**Tables:** Use markdown tables for comparisons or data summaries where appropriate. Ensure any tables are well-structured in Markdown, with clear headers, aligned columns, and concise data presentation. The table should be easy to read and integrate seamlessly with the surrounding text.`
+            : `**Tables:** Do not use tables; present comparisons as lists instead.`,
+    ];
+    if (options.includeWorkedExamples) {
+        requirements.push(`**Worked Examples:** Include worked examples that apply the key ideas step by step, showing the reasoning at each step.`);
+    }
+    if (options.includeSummaries) {
+        requirements.push(`**Summaries:** End each major (H2) section with a short "Key Takeaways" list of its main points.`);
+    }
+    if (options.includeGlossary) {
+        requirements.push(`**Glossary:** End the ${unit} with a "Key Terms" section: an alphabetical list of the important terms it introduces, each with a one-sentence definition.`);
+    }
+    return requirements;
+};
+
+/** Asks the model to draw on the reader's uploaded documents, quoted in full; empty if there are none. */
+const excerptsBrief = (excerpts: Excerpt[]): string => excerpts.length > 0 ? `
+**Uploaded Source Documents (primary sources):**
+The reader uploaded the documents excerpted below. Treat them as your primary sources: base the content on them wherever they cover the topic and prefer them over web results. Right after each sentence that draws on an excerpt, cite it by its label in double brackets, e.g. \`[[EXCERPT-3]]\` or \`[[EXCERPT-3, EXCERPT-7]]\`.
+
+--- EXCERPTS ---
+${formatExcerpts(excerpts)}
+--- END OF EXCERPTS ---
+` : '';
+
+/** The values of the study guide template's variables for a guide, or for one chapter of a book. */
+const studyGuideVariables = (formData: FormData, chapter?: ChapterContext, excerpts: Excerpt[] = []): Record<string, string> => {
+    const unit = chapter ? 'chapter' : 'study guide';
+    const chapterBrief = chapter ? `
+**Book Chapter:** This is chapter ${chapter.index + 1} of ${chapter.outline.length} in a multi-chapter course book. Write only this chapter.
+**Chapter Title:** ${chapter.outline[chapter.index].title}
+**Chapter Summary:** ${chapter.outline[chapter.index].summary}
+
+**Full Table of Contents (for context only, do not write the other chapters):**
+${chapter.outline.map((c, i) => `${i + 1}. ${c.title}`).join('\n')}
+
+Do not repeat the chapter title as a heading; it is added separately. Start directly with H2 sections.
+` : '';
+    return {
+        topic: formData.topic,
+        subtopic: formData.subtopic,
+        unit,
+        chapterBrief,
+        guide: formData.guide,
+        references: formData.references,
+        sourceExcerpts: excerptsBrief(excerpts),
+        requirements: formatRequirements(contentRequirements(resolveGenerationOptions(formData.options), unit)),
+    };
+};
+
+const buildTextPrompt = (formData: FormData, chapter?: ChapterContext, excerpts: Excerpt[] = []): string =>
+    renderTemplate(resolveTemplates(formData.preset).studyGuide, studyGuideVariables(formData, chapter, excerpts));
+
+const buildClassifierPrompt = (formData: FormData, imagePrompts: string[]): string =>
+    renderTemplate(resolveTemplates(formData.preset).classifyIllustrations, {
+        topic: formData.topic,
+        subtopic: formData.subtopic,
+        prompts: imagePrompts.map((p, i) => `${i + 1}. "${p}"`).join('\n'),
     });
 
-    let markdownContent = textResponse.text;
-    console.log('Text content received.');
+const rewriteImagePrompt = async (
+    originalPrompt: string,
+    imageType: IllustrationType,
+    preset: PromptPreset | undefined,
+    provider: ModelProvider,
+    signal?: AbortSignal
+): Promise<string> => {
+    const templates = resolveTemplates(preset);
+    const rewriteInstruction = renderTemplate(imageType === 'diagram' ? templates.rewriteDiagram : templates.rewritePhotograph, { concept: originalPrompt });
 
-    const groundingMetadata = textResponse.candidates?.[0]?.groundingMetadata;
-    const sources = groundingMetadata?.groundingChunks
-        ?.map(chunk => chunk.web)
-        .filter((web, index, self) => web && self.findIndex(w => w.uri === web.uri) === index) // Filter out duplicates
-        .map(web => ({ title: web.title || web.uri, uri: web.uri })) as { title: string; uri: string }[] || [];
+    const rewrittenPromptResponse = await provider.generateText({
+        prompt: rewriteInstruction,
+        format: 'plain',
+        temperature: 0.4,
+        signal,
+    });
+    return rewrittenPromptResponse.text;
+};
 
-    // 2. Extract image prompts from the markdown
-    updateProgress('Planning illustrations...');
-    const imagePrompts: string[] = [];
-    const imagePlaceholderRegex = /\[IMAGE:\s*(.*?)\]/g;
-    let match;
-    while ((match = imagePlaceholderRegex.exec(markdownContent)) !== null) {
-        imagePrompts.push(match[1]);
+/**
+ * Renders one of a preset's templates with the form's values, as it would be sent.
+ * The illustration templates get sample placeholder prompts, since those only exist
+ * once a draft is written.
+ * @param templateId The template to preview.
+ * @param formData The form's values, with the preset to preview in `preset`.
+ * @returns The prompt text.
+ */
+export const previewPrompt = (templateId: PromptTemplateId, formData: FormData): string => {
+    const samplePrompts = [
+        `The main stages of ${formData.subtopic || formData.topic || 'the topic'} as a flowchart`,
+        `A real-world example of ${formData.subtopic || formData.topic || 'the topic'}`,
+    ];
+    switch (templateId) {
+        case 'studyGuide':
+            return buildTextPrompt(formData, undefined, selectExcerpts(formData.documents ?? [], `${formData.topic} ${formData.subtopic} ${formData.guide}`));
+        case 'classifyIllustrations':
+            return buildClassifierPrompt(formData, samplePrompts);
+        case 'rewriteDiagram':
+            return renderTemplate(resolveTemplates(formData.preset).rewriteDiagram, { concept: samplePrompts[0] });
+        case 'rewritePhotograph':
+            return renderTemplate(resolveTemplates(formData.preset).rewritePhotograph, { concept: samplePrompts[1] });
     }
+};
+
+/**
+ * Writes a structured diagram as Mermaid source and renders it to SVG. If the
+ * source doesn't parse, the model gets one chance to fix it.
+ * @param originalPrompt What the diagram should show.
+ * @param provider The model provider to write the source with.
+ * @param signal Cancels the model calls.
+ * @returns A promise that resolves to the Mermaid source and an SVG data URL.
+ */
+const createStructuredDiagram = async (originalPrompt: string, provider: ModelProvider, signal?: AbortSignal): Promise<{ code: string; src: string }> => {
+    const instruction = `You are an expert at explaining ideas with diagrams. Write Mermaid code for a study book diagram that shows:
+    "${originalPrompt}"
+
+    - Pick the Mermaid diagram type that fits best: flowchart, sequenceDiagram, timeline, mindmap, stateDiagram-v2 or classDiagram.
+    - Keep it readable: at most 12 nodes, and labels of at most six words. Put labels containing punctuation in double quotes.
+    - Do not use styling, click handlers or HTML in labels.
+    - Output only the Mermaid code, without code fences or explanation.`;
+
+    const draft = await provider.generateText({ prompt: instruction, format: 'plain', temperature: 0.2, signal });
+    let code = extractMermaidSource(draft.text);
+    try {
+        return { code, src: svgToDataUrl(await renderMermaid(code)) };
+    } catch (e) {
+        signal?.throwIfAborted();
+        console.warn(`Mermaid source for "${originalPrompt}" did not render, asking for a fix.`, e);
+        const repair = await provider.generateText({
+            prompt: `${instruction}\n\n    Your previous attempt failed to parse with this error:\n    ${e instanceof Error ? e.message : String(e)}\n\n    Previous attempt:\n${code}`,
+            format: 'plain',
+            temperature: 0.2,
+            signal,
+        });
+        code = extractMermaidSource(repair.text);
+        return { code, src: svgToDataUrl(await renderMermaid(code)) };
+    }
+};
+
+const createIllustrationId = () => `ill-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const IMAGE_PLACEHOLDER = /\[IMAGE:\s*(.*?)\]/g;
+
+/** Drops the image placeholders beyond the requested number, in case the model inserted more. */
+const limitIllustrations = (markdownContent: string, max: number): string => {
+    let count = 0;
+    return markdownContent
+        .replace(IMAGE_PLACEHOLDER, placeholder => (++count <= max ? placeholder : ''))
+        .replace(/\n{3,}/g, '\n\n');
+};
+
+/** Swaps the placeholders of finished illustrations for their image tags, or for a marker the viewer can retry from. */
+const applyIllustrations = (markdownContent: string, finished: Record<number, FinishedIllustration>): string => {
+    let index = 0;
+    return markdownContent.replace(IMAGE_PLACEHOLDER, placeholder => {
+        const done = finished[index++];
+        if (!done) return placeholder;
+        return done.src ? illustrationTag(done.illustration.id, done.src, done.illustration.prompt) : failedIllustrationTag(done.illustration.id);
+    });
+};
+
+/** The share of a guide's or chapter's time spent drafting its text, before illustrating it. */
+const DRAFT_SHARE = 40;
+
+/** The share of the whole generation left for the quality review, when the options ask for one. */
+const REVIEW_SHARE = 5;
+
+/**
+ * Maps the progress of one part of a generation onto its share of the whole.
+ * @param updateProgress The callback for the whole generation.
+ * @param from The percentage of the whole at which the part starts.
+ * @param to The percentage of the whole at which the part ends.
+ * @param prefix Prepended to the part's messages, e.g. "Chapter 2 of 5: ".
+ */
+const scaleProgress = (updateProgress: ProgressCallback, from: number, to: number, prefix = ''): ProgressCallback =>
+    progress => updateProgress({ ...progress, message: prefix + progress.message, percent: from + (to - from) * progress.percent / 100 });
+
+/** Adds the start time and, once some progress has been made, an estimated end time to each report. */
+const trackTime = (updateProgress: ProgressCallback): ProgressCallback => {
+    const startedAt = Date.now();
+    // A resumed generation starts part-way; estimate from the progress made in this run only.
+    let startPercent: number | undefined;
+    return progress => {
+        startPercent ??= progress.percent;
+        const now = Date.now();
+        const percentPerMs = now > startedAt ? (progress.percent - startPercent) / (now - startedAt) : 0;
+        updateProgress({
+            ...progress,
+            startedAt,
+            estimatedEndAt: percentPerMs > 0 ? now + (100 - progress.percent) / percentPerMs : undefined,
+        });
+    };
+};
+
+/** One line for a progress report, e.g. "Generating illustrations: 4/9 images done, 2 in progress, 1 retrying". */
+export const formatProgress = ({ message, images }: GenerationProgress): string => {
+    if (!images) return message;
+    const counts = [`${images.done}/${images.total} images done${images.failed ? ` (${images.failed} failed)` : ''}`];
+    if (images.inProgress) counts.push(`${images.inProgress} in progress`);
+    if (images.retrying) counts.push(`${images.retrying} retrying`);
+    return `${message.replace(/\.+$/, '')}: ${counts.join(', ')}`;
+};
+
+/**
+ * Replaces the `[IMAGE: ...]` placeholders in drafted markdown with generated illustrations,
+ * several at a time through the scheduler. Images that still fail after retrying are left
+ * as failed markers the viewer can retry.
+ * @param markdownContent The drafted markdown containing image placeholders.
+ * @param formData The user's input, used to give the classifier context.
+ * @param updateProgress A callback function to report progress.
+ * @param provider The model provider to generate with.
+ * @param options Preview, cancellation and checkpoint hooks, and the progress to resume from.
+ * @returns The markdown with placeholders swapped for image tags, and the metadata of each illustration.
+ */
+const illustrateContent = async (
+    markdownContent: string,
+    formData: FormData,
+    updateProgress: ProgressCallback,
+    provider: ModelProvider,
+    { onPreview = () => {}, signal, resumeFrom, onCheckpoint = () => {}, scheduler = defaultScheduler }: IllustrateOptions = {}
+): Promise<IllustratedContent> => {
+    // 2. Extract image prompts from the markdown
+    updateProgress({ stage: 'classifying', message: 'Planning illustrations...', percent: 0 });
+    const imagePrompts = [...markdownContent.matchAll(IMAGE_PLACEHOLDER)].map(match => match[1]);
     console.log(`Found ${imagePrompts.length} image prompts.`);
-    
-    const generatedImageUrls: string[] = [];
-    if (imagePrompts.length > 0) {
+
+    const finished: Record<number, FinishedIllustration> = { ...resumeFrom?.finished };
+    let imageTypes = resumeFrom?.imageTypes;
+    const previewIllustrations = () => onPreview(applyIllustrations(markdownContent, finished));
+    const saveCheckpoint = () => onCheckpoint({ markdown: markdownContent, imageTypes, finished: { ...finished } });
+    if (Object.keys(finished).length > 0) {
+        console.log(`Resuming with ${Object.keys(finished).length} finished illustrations.`);
+        previewIllustrations();
+    }
+
+    if (imagePrompts.length > 0 && !imageTypes) {
         // 3a. Classify image prompts
-        updateProgress('Categorizing illustration types...');
-        let imageTypes: ('diagram' | 'photograph')[] = Array(imagePrompts.length).fill('diagram');
+        updateProgress({ stage: 'classifying', message: 'Categorizing illustration types...', percent: 0 });
+        imageTypes = Array(imagePrompts.length).fill('diagram');
         try {
-            const typeResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: `For a study book on "${formData.topic} - ${formData.subtopic}", analyze the following image prompts. For each prompt, decide if it's better suited as a "diagram" (for concepts, processes, abstract ideas) or a "photograph" (for real-world examples, people, places, objects).
-                
-                Prompts:
-                ${imagePrompts.map((p, i) => `${i + 1}. "${p}"`).join('\n')}
-                
-                Return your response as a JSON array of strings, where each string is either "diagram" or "photograph", corresponding to each prompt in order. Example: ["diagram", "photograph", "diagram"]`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    }
-                }
+            const parsedResponse = await scheduleProvider(provider, scheduler, { signal }).generateJson<string[]>({
+                prompt: buildClassifierPrompt(formData, imagePrompts),
+                schema: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['diagram', 'photograph', 'structured'] },
+                    minItems: imagePrompts.length,
+                    maxItems: imagePrompts.length,
+                },
             });
-            const parsedResponse = JSON.parse(typeResponse.text);
             if (Array.isArray(parsedResponse) && parsedResponse.length === imagePrompts.length) {
-                imageTypes = parsedResponse.map(t => (t === 'photograph' ? 'photograph' : 'diagram'));
+                imageTypes = parsedResponse.map(t => (t === 'photograph' || t === 'structured' ? t : 'diagram'));
                 console.log('Image types categorized:', imageTypes);
             } else {
                 console.warn('Could not parse image types, defaulting all to diagram.');
             }
         } catch (e) {
+            signal?.throwIfAborted();
             console.error('Failed to categorize image types, defaulting all to diagram.', e);
         }
+        saveCheckpoint();
+    }
 
-        updateProgress('Refining illustration concepts...');
-        // 3b. Rewrite prompts and generate images for each.
-        for (let i = 0; i < imagePrompts.length; i++) {
-            const originalPrompt = imagePrompts[i];
-            const imageType = imageTypes[i];
-            updateProgress(`Processing illustration ${i + 1} of ${imagePrompts.length}...`);
+    // 3b. Rewrite prompts and generate images, several at a time.
+    const types = imageTypes ?? [];
+    const active = new Map<number, 'running' | 'retrying'>();
+    const reportImages = () => {
+        const done = Object.values(finished) as FinishedIllustration[];
+        const states = [...active.values()];
+        updateProgress({
+            stage: 'illustrating',
+            message: 'Generating illustrations...',
+            // Classifying takes about a tenth of the time; the rest is the images.
+            percent: 10 + 90 * done.length / imagePrompts.length,
+            images: {
+                total: imagePrompts.length,
+                done: done.length,
+                failed: done.filter(f => !f.src).length,
+                inProgress: states.length,
+                retrying: states.filter(state => state === 'retrying').length,
+            },
+        });
+    };
+    const finish = (index: number, illustration: Illustration, src: string) => {
+        finished[index] = { illustration, src };
+        active.delete(index);
+        saveCheckpoint();
+        previewIllustrations();
+        reportImages();
+    };
 
-            // Rewrite the abstract prompt into a detailed visual prompt.
-            let visualPrompt = originalPrompt;
-            try {
-                const rewriteInstruction = imageType === 'diagram'
-                    ? `You are an expert prompt engineer for a text-to-image AI model. Rewrite the following abstract concept for a study book diagram into a detailed, visual prompt. The new prompt must describe a visual scene with clear objects, layout, style, and colors. It should be an instruction to DRAW, not to write text or code.
-                    - Style: A minimalist, clean, modern, technical infographic diagram. Use a professional and limited color palette (e.g., blues, greens, grays). Ensure clear labels with a sans-serif font. The background MUST be solid white.
-                    - Content: Describe the shapes (rectangles, circles, arrows), the connections, and the text labels visually.
-                    - AVOID: Do not output code, markdown, or any non-visual instructions. The entire output must be a single, descriptive paragraph for the image model.
-
-                    **Original concept:** "${originalPrompt}"`
-                    : `You are an expert prompt engineer for a text-to-image AI model. Rewrite the following brief concept for a study book photograph into a detailed, visual prompt. The new prompt should describe a scene, subject, setting, lighting, composition, and mood to generate a photorealistic image.
-                    - Style: A high-quality, professional, photorealistic photograph suitable for an educational textbook. The image should be sharp, well-composed, and directly illustrative of the subject. Use natural or studio lighting as appropriate.
-                    - Content: Describe the scene, the main subject, any other objects, the environment, and the overall feeling.
-
-                    **Original concept:** "${originalPrompt}"`;
-                
-                const rewrittenPromptResponse = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: rewriteInstruction,
-                    config: { temperature: 0.4 }
-                });
-
-                visualPrompt = rewrittenPromptResponse.text;
-                console.log(`Rewritten prompt for "${originalPrompt}": ${visualPrompt}`);
-            } catch(e) {
-                console.error(`Failed to rewrite prompt for "${originalPrompt}", using original.`, e);
-                visualPrompt = originalPrompt; // Fallback to original
-            }
+    const illustrate = async (index: number) => {
+        const originalPrompt = imagePrompts[index];
+        let imageType = types[index];
+        active.set(index, 'running');
+        reportImages();
+        const scheduled = scheduleProvider(provider, scheduler, {
+            signal,
+            onRetry: () => {
+                active.set(index, 'retrying');
+                reportImages();
+            },
+        });
 
-            // Generate the image using the new, more descriptive prompt.
-            updateProgress(`Generating ${imageType} ${i + 1} of ${imagePrompts.length}: "${originalPrompt.substring(0, 30)}..."`);
+        // Structured diagrams are drawn locally from Mermaid; fall back to the image model if that fails.
+        if (imageType === 'structured') {
             try {
-                const imageResponse = await ai.models.generateImages({
-                    model: 'imagen-4.0-generate-001',
-                    prompt: visualPrompt,
-                    config: {
-                        numberOfImages: 1,
-                        outputMimeType: 'image/png',
-                        aspectRatio: '16:9',
-                    },
-                });
-                const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
-                const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                generatedImageUrls.push(imageUrl);
-            } catch (error) {
-                console.error(`Failed to generate image for prompt: "${visualPrompt}"`, error);
-                generatedImageUrls.push(''); 
+                const { code, src } = await createStructuredDiagram(originalPrompt, scheduled, signal);
+                finish(index, {
+                    id: createIllustrationId(),
+                    prompt: originalPrompt,
+                    visualPrompt: originalPrompt,
+                    type: 'structured',
+                    code,
+                    aspectRatio: DEFAULT_ASPECT_RATIO,
+                    origin: 'generated',
+                    failed: false,
+                }, src);
+                return;
+            } catch (e) {
+                signal?.throwIfAborted();
+                console.error(`Failed to draw "${originalPrompt}" as a structured diagram, generating an image instead.`, e);
+                imageType = 'diagram';
             }
         }
+
+        // Rewrite the abstract prompt into a detailed visual prompt.
+        let visualPrompt = originalPrompt;
+        try {
+            visualPrompt = await rewriteImagePrompt(originalPrompt, imageType, formData.preset, scheduled, signal);
+            console.log(`Rewritten prompt for "${originalPrompt}": ${visualPrompt}`);
+        } catch(e) {
+            signal?.throwIfAborted();
+            console.error(`Failed to rewrite prompt for "${originalPrompt}", using original.`, e);
+            visualPrompt = originalPrompt; // Fallback to original
+        }
+
+        const illustration: Illustration = {
+            id: createIllustrationId(),
+            prompt: originalPrompt,
+            visualPrompt,
+            type: imageType,
+            aspectRatio: DEFAULT_ASPECT_RATIO,
+            origin: 'generated',
+            failed: false,
+        };
+
+        // Generate the image using the new, more descriptive prompt.
+        let src = '';
+        try {
+            src = await scheduled.generateImage({ prompt: visualPrompt, aspectRatio: illustration.aspectRatio });
+        } catch (error) {
+            signal?.throwIfAborted();
+            console.error(`Failed to generate image for prompt: "${visualPrompt}"`, error);
+            illustration.failed = true;
+        }
+        finish(index, illustration, src);
+    };
+
+    const pending = imagePrompts.map((_, index) => index).filter(index => !finished[index]);
+    if (pending.length > 0) {
+        reportImages();
+        await scheduler.forEach(pending.length, i => illustrate(pending[i]), signal);
     }
-    
-    // 4. Replace placeholders with actual image tags
-    updateProgress('Assembling the final study book...');
+
+    // 4. Replace placeholders with actual image tags, or with a marker the viewer can retry from.
+    updateProgress({ stage: 'assembling', message: 'Assembling the final study book...', percent: 100 });
     console.log('Replacing placeholders with generated images.');
-    let finalContent = markdownContent;
-    imagePrompts.forEach((prompt, index) => {
-        const imageUrl = generatedImageUrls[index];
-        if (imageUrl) {
-            finalContent = finalContent.replace(
-                `[IMAGE: ${prompt}]`,
-                `<img src="${imageUrl}" alt="${prompt}" class="my-6 rounded-lg shadow-lg mx-auto" />`
-            );
-        } else {
-             finalContent = finalContent.replace(`[IMAGE: ${prompt}]`, ''); // Remove placeholder if image failed
+    const finalContent = applyIllustrations(markdownContent, finished);
+    const illustrations = imagePrompts.map((_, index) => finished[index]?.illustration).filter((ill): ill is Illustration => !!ill);
+
+    return { content: finalContent, illustrations: Object.fromEntries(illustrations.map(ill => [ill.id, ill])) };
+};
+
+/**
+ * Generates a new image for one illustration, e.g. after the user changed its type, prompt or aspect ratio.
+ * @param illustration The illustration with the settings to render.
+ * @param rewritePrompt Whether to rewrite the original prompt for the illustration's type first,
+ *   rather than rendering its current visual prompt (or, for structured diagrams, its code) as-is.
+ * @param preset The prompt preset the project was generated with, for the rewrite templates.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the updated metadata and the new image's data URL.
+ */
+export const regenerateIllustration = async (
+    illustration: Illustration,
+    rewritePrompt: boolean,
+    preset?: PromptPreset,
+    provider: ModelProvider = createModelProvider()
+): Promise<{ illustration: Illustration; src: string }> => {
+    provider = scheduleProvider(provider, defaultScheduler);
+    if (illustration.type === 'structured') {
+        const diagram = rewritePrompt || !illustration.code
+            ? await createStructuredDiagram(illustration.prompt, provider)
+            : { code: illustration.code, src: svgToDataUrl(await renderMermaid(illustration.code)) };
+        return { illustration: { ...illustration, code: diagram.code, visualPrompt: illustration.prompt, origin: 'generated', failed: false }, src: diagram.src };
+    }
+    let visualPrompt = illustration.visualPrompt;
+    if (rewritePrompt) {
+        try {
+            visualPrompt = await rewriteImagePrompt(illustration.prompt, illustration.type, preset, provider);
+        } catch (e) {
+            console.error(`Failed to rewrite prompt for "${illustration.prompt}", using original.`, e);
+            visualPrompt = illustration.prompt;
         }
+    }
+    console.log(`Regenerating ${illustration.type} "${illustration.prompt}"...`);
+    const src = await provider.generateImage({ prompt: visualPrompt, aspectRatio: illustration.aspectRatio });
+    return { illustration: { ...illustration, visualPrompt, code: undefined, origin: 'generated', failed: false }, src };
+};
+
+/**
+ * Appends a draft's sources to a shared source list (skipping ones already in
+ * it) and inserts the draft's citation markers, numbered against that list.
+ * @param draft The generated text with its own sources and citations.
+ * @param sources The shared source list; modified in place.
+ * @returns The draft markdown with citation markers.
+ */
+const mergeCitedDraft = (draft: TextResult, sources: Source[]): string => {
+    const mergedIndexOfSource = draft.sources.map(source => {
+        const existing = sources.findIndex(s => s.uri === source.uri);
+        return existing === -1 ? sources.push(source) - 1 : existing;
     });
+    const citations = draft.citations.map(citation => ({
+        ...citation,
+        sourceIndices: citation.sourceIndices.map(index => mergedIndexOfSource[index]),
+    }));
+    return insertCitationMarkers(draft.text, citations);
+};
+
+/** Lists a book's chapters from its H1 headings. */
+export const getChapters = (content: string): Chapter[] =>
+    extractHeadings(content)
+        .filter(heading => heading.depth === 1)
+        .map(heading => ({ title: heading.text, anchor: heading.slug }));
+
+const chapterHeading = (index: number, chapter: OutlineChapter) => `# Chapter ${index + 1}: ${chapter.title}`;
+
+/**
+ * Assembles what an interrupted or failed generation had finished into a
+ * study book: the finished chapters, and the draft in progress with its
+ * missing illustrations left as failed markers the viewer can retry.
+ * @param checkpoint The generation's last checkpoint.
+ * @param outline The book's table of contents, or undefined for a single guide.
+ * @returns The partial study book, or null if not even a draft was finished.
+ */
+export const buildPartialResult = (checkpoint: GenerationCheckpoint, outline?: OutlineChapter[]): StudyBookResult | null => {
+    const parts = [...checkpoint.chapters];
+    const illustrations = { ...checkpoint.illustrations };
+    const { draft } = checkpoint;
+    if (draft) {
+        const finished = { ...draft.finished };
+        [...draft.markdown.matchAll(IMAGE_PLACEHOLDER)].forEach(([, prompt], index) => {
+            if (finished[index]) return;
+            const type = draft.imageTypes?.[index];
+            finished[index] = {
+                illustration: {
+                    id: createIllustrationId(),
+                    prompt,
+                    visualPrompt: prompt,
+                    type: type === 'photograph' || type === 'structured' ? type : 'diagram',
+                    aspectRatio: DEFAULT_ASPECT_RATIO,
+                    origin: 'generated',
+                    failed: true,
+                },
+                src: '',
+            };
+        });
+        Object.values(finished).forEach(({ illustration }) => { illustrations[illustration.id] = illustration; });
+        const content = applyIllustrations(draft.markdown, finished).trim();
+        const index = checkpoint.chapters.length;
+        parts.push(outline?.[index] ? `${chapterHeading(index, outline[index])}\n\n${content}` : content);
+    }
+    if (parts.length === 0) return null;
+
+    const content = parts.join('\n\n');
+    return { content, sources: checkpoint.sources, illustrations, chapters: outline ? getChapters(content) : undefined };
+};
+
+/**
+ * Runs the quality review on a finished study book if the options ask for one.
+ * A review whose model checks fail still returns, with the failure noted in it.
+ * @param formData The user's input for the study book.
+ * @param result The finished study book.
+ * @param updateProgress A callback function to report progress.
+ * @param percent How much of the whole generation is done when the review starts.
+ * @param signal Cancels the review.
+ * @param provider The model provider to review with.
+ * @returns A promise that resolves to the study book, with its review if one was run.
+ */
+const reviewIfRequested = async (
+    formData: FormData,
+    result: StudyBookResult,
+    updateProgress: ProgressCallback,
+    percent: number,
+    signal: AbortSignal | undefined,
+    provider: ModelProvider
+): Promise<StudyBookResult> => {
+    if (!resolveGenerationOptions(formData.options).reviewQuality) return result;
+    updateProgress({ stage: 'reviewing', message: 'Reviewing the content and readability...', percent });
+    console.log('Reviewing study book quality...');
+    return { ...result, review: await reviewStudyBook(formData, result, signal, provider) };
+};
+
+/**
+ * Generates a study book with text and images based on user input.
+ * @param formData The user's input for the study book.
+ * @param updateProgress A callback function to report progress.
+ * @param onPreview Called with the markdown so far as the text streams in and as each illustration is placed.
+ * @param control Cancellation, checkpoints, and the checkpoint to resume from.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the generated study book content and sources.
+ */
+export const generateStudyBook = async (
+    formData: FormData,
+    updateProgress: ProgressCallback,
+    onPreview: (markdown: string) => void = () => {},
+    { signal, resumeFrom, onCheckpoint = () => {}, scheduler }: GenerationControl = {},
+    provider: ModelProvider = createModelProvider()
+): Promise<StudyBookResult> => {
+    updateProgress = trackTime(updateProgress);
+    let checkpoint = resumeFrom ?? emptyCheckpoint();
+    const saveCheckpoint = (changes: Partial<GenerationCheckpoint>) => {
+        checkpoint = { ...checkpoint, ...changes };
+        onCheckpoint(checkpoint);
+    };
 
+    let draft = checkpoint.draft;
+    if (draft) {
+        console.log('Resuming from the saved draft.');
+    } else {
+        // 1. Generate text content with image placeholders
+        updateProgress({ stage: 'drafting', message: 'Researching and drafting content...', percent: 0 });
+        console.log('Generating text content...');
+
+        const excerpts = selectExcerpts(formData.documents ?? [], `${formData.topic} ${formData.subtopic} ${formData.guide}`);
+        const textPrompt = buildTextPrompt(formData, undefined, excerpts);
+
+        const response = await provider.generateText({
+            prompt: textPrompt,
+            format: 'markdown',
+            useSearch: true,
+            onText: onPreview,
+            signal,
+        });
+        const sources = [...response.sources];
+        const markdown = citeExcerpts(insertCitationMarkers(response.text, response.citations), excerpts, sources);
+        draft = { markdown: limitIllustrations(markdown, resolveGenerationOptions(formData.options).illustrationCount), finished: {} };
+        saveCheckpoint({ sources, draft });
+        console.log('Text content received.');
+    }
+    onPreview(draft.markdown);
+
+    const reviewFrom = resolveGenerationOptions(formData.options).reviewQuality ? 100 - REVIEW_SHARE : 100;
+    const { content, illustrations } = await illustrateContent(draft.markdown, formData, scaleProgress(updateProgress, DRAFT_SHARE, reviewFrom), provider, {
+        onPreview,
+        signal,
+        resumeFrom: draft,
+        onCheckpoint: progress => saveCheckpoint({ draft: progress }),
+        scheduler,
+    });
+
+    const result = await reviewIfRequested(formData, { content, sources: checkpoint.sources, illustrations }, updateProgress, reviewFrom, signal, provider);
     console.log('Study book generation complete.');
-    return { content: finalContent, sources };
-};
\ No newline at end of file
+    return result;
+};
+
+/**
+ * Drafts an editable table of contents for a multi-chapter book.
+ * @param formData The user's input for the book.
+ * @param signal Cancels the request.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the proposed chapters in order.
+ */
+export const generateBookOutline = async (
+    formData: FormData,
+    signal?: AbortSignal,
+    provider: ModelProvider = createModelProvider()
+): Promise<OutlineChapter[]> => {
+    console.log('Generating book outline...');
+    const options = resolveGenerationOptions(formData.options);
+    const outline = await provider.generateJson<OutlineChapter[]>({
+        prompt: `You are an expert educator designing a complete course book.
+
+        **Main Topic:** ${formData.topic}
+        **Subtopic:** ${formData.subtopic}
+
+        **Guiding Instructions:**
+        ${formData.guide}
+
+        **Reference Books/Sources to consult:**
+        ${formData.references}
+        ${formData.documents?.length ? `\n        **Uploaded source documents (the book will be based on these):** ${formData.documents.map(d => d.name).join(', ')}\n` : ''}
+        **Audience:** ${audienceBrief(options.audience)}
+        **Depth:** ${depthBrief(options.depth)}
+
+        Propose a table of contents of 4 to 12 chapters that builds the subject up from fundamentals to advanced material. For each chapter give a concise title (without a "Chapter N" prefix) and a one or two sentence summary of what it covers. Write the titles and summaries in ${languageName(options.language)}.`,
+        schema: {
+            type: 'array',
+            minItems: 4,
+            maxItems: 12,
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string', description: 'chapter title' },
+                    summary: { type: 'string', description: 'chapter summary' },
+                },
+                required: ['title', 'summary'],
+            },
+        },
+        signal,
+    });
+    if (!Array.isArray(outline) || outline.length === 0) {
+        throw new GenerationError('malformed-output', 'The model did not return a usable table of contents.');
+    }
+    return outline.map(chapter => ({ title: String(chapter.title ?? '').trim(), summary: String(chapter.summary ?? '').trim() }));
+};
+
+/**
+ * Generates a multi-chapter book, drafting and illustrating each chapter in its own call.
+ * @param formData The user's input for the book.
+ * @param outline The (possibly user-edited) table of contents.
+ * @param updateProgress A callback function to report progress.
+ * @param onPreview Called with the book so far as each chapter streams in and is illustrated.
+ * @param control Cancellation, checkpoints, and the checkpoint to resume from.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the assembled book with its chapter boundaries.
+ */
+export const generateBook = async (
+    formData: FormData,
+    outline: OutlineChapter[],
+    updateProgress: ProgressCallback,
+    onPreview: (markdown: string) => void = () => {},
+    { signal, resumeFrom, onCheckpoint = () => {}, scheduler }: GenerationControl = {},
+    provider: ModelProvider = createModelProvider()
+): Promise<StudyBookResult> => {
+    updateProgress = trackTime(updateProgress);
+    let checkpoint = resumeFrom ?? emptyCheckpoint();
+    const saveCheckpoint = (changes: Partial<GenerationCheckpoint>) => {
+        checkpoint = { ...checkpoint, ...changes };
+        onCheckpoint(checkpoint);
+    };
+    const chapterContents = [...checkpoint.chapters];
+    const sources = [...checkpoint.sources];
+    let illustrations = { ...checkpoint.illustrations };
+    if (chapterContents.length > 0) {
+        console.log(`Resuming after ${chapterContents.length} finished chapters.`);
+    }
+    // The last percent is left for binding the chapters together, and more before it for any review.
+    const chaptersEnd = resolveGenerationOptions(formData.options).reviewQuality ? 99 - REVIEW_SHARE : 99;
+
+    for (let i = chapterContents.length; i < outline.length; i++) {
+        const chapter = outline[i];
+        const reportChapterProgress = scaleProgress(updateProgress, chaptersEnd * i / outline.length, chaptersEnd * (i + 1) / outline.length, `Chapter ${i + 1} of ${outline.length}: `);
+        const heading = chapterHeading(i, chapter);
+        const previewChapter = (markdown: string) =>
+            onPreview([...chapterContents, `${heading}\n\n${markdown.trim()}`].join('\n\n'));
+
+        let draft = checkpoint.draft;
+        if (!draft) {
+            reportChapterProgress({ stage: 'drafting', message: `Drafting "${chapter.title}"...`, percent: 0 });
+            console.log(`Generating chapter ${i + 1}: ${chapter.title}`);
+            const excerpts = selectExcerpts(formData.documents ?? [], `${formData.topic} ${chapter.title} ${chapter.summary}`);
+            const response = await provider.generateText({
+                prompt: buildTextPrompt(formData, { index: i, outline }, excerpts),
+                format: 'markdown',
+                useSearch: true,
+                onText: previewChapter,
+                signal,
+            });
+            // The chapter heading is ours; drop a leading H1 in case the model added one anyway.
+            const body = citeExcerpts(mergeCitedDraft(response, sources), excerpts, sources).replace(/^\s*#\s+[^\n]*\n/, '');
+            draft = { markdown: limitIllustrations(body, resolveGenerationOptions(formData.options).illustrationCount), finished: {} };
+            saveCheckpoint({ sources: [...sources], draft });
+        }
+        previewChapter(draft.markdown);
+        const illustrated = await illustrateContent(draft.markdown, formData, scaleProgress(reportChapterProgress, DRAFT_SHARE, 100), provider, {
+            onPreview: previewChapter,
+            signal,
+            resumeFrom: draft,
+            onCheckpoint: progress => saveCheckpoint({ draft: progress }),
+            scheduler,
+        });
+        chapterContents.push(`${heading}\n\n${illustrated.content.trim()}`);
+        illustrations = { ...illustrations, ...illustrated.illustrations };
+        saveCheckpoint({ chapters: [...chapterContents], illustrations, draft: undefined });
+    }
+
+    updateProgress({ stage: 'assembling', message: 'Binding the chapters together...', percent: chaptersEnd });
+    const content = chapterContents.join('\n\n');
+    const chapters = getChapters(content);
+    const result = await reviewIfRequested(formData, { content, sources, chapters, illustrations }, updateProgress, chaptersEnd, signal, provider);
+
+    console.log('Book generation complete.');
+    return result;
+};
+
+const REVISION_BRIEFS: Record<RevisionAction, string> = {
+    regenerate: 'Rewrite this section from scratch. Research it again, cover the same topic more accurately and clearly, and improve weak explanations.',
+    expand: 'Expand this section. Keep everything that is already there and add depth: more detailed explanations, worked examples, and any important points that are missing.',
+    simplify: 'Simplify this section. Keep the key ideas but use plainer language, shorter sentences, and fewer technical details, so a beginner can follow it.',
+};
+
+/**
+ * Rewrites one section of a finished study book, keeping its existing
+ * illustrations and only generating images for newly added placeholders, up
+ * to the project's illustration count.
+ * @param formData The user's original input, for context, options and source documents.
+ * @param result The study book the section belongs to.
+ * @param section The section to revise.
+ * @param action How to revise it.
+ * @param instructions Optional extra instructions from the user.
+ * @param updateProgress A callback function to report progress.
+ * @param signal Cancels the revision.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the revised section and the updated source list.
+ */
+export const reviseSection = async (
+    formData: FormData,
+    result: StudyBookResult,
+    section: Section,
+    action: RevisionAction,
+    instructions: string,
+    updateProgress: ProgressCallback,
+    signal?: AbortSignal,
+    provider: ModelProvider = createModelProvider()
+): Promise<SectionRevision> => {
+    // Swap the embedded images for short tokens so the model can move them around without seeing data URLs.
+    const figures: string[] = [];
+    const tokenized = section.markdown.replace(ILLUSTRATION_TAG, tag => `[[FIGURE-${figures.push(tag)}]]`);
+    const headingLine = section.markdown.match(/^#{1,6}[^\n]*/)?.[0];
+    const options = resolveGenerationOptions(formData.options);
+    // The section's own illustrations count towards the project's limit.
+    const newIllustrations = Math.max(0, options.illustrationCount - figures.length);
+    const excerpts = selectExcerpts(formData.documents ?? [], `${formData.topic} ${section.heading ?? formData.subtopic} ${instructions}`);
+
+    updateProgress({ stage: 'drafting', message: `${action === 'regenerate' ? 'Rewriting' : action === 'expand' ? 'Expanding' : 'Simplifying'} "${section.heading ?? 'Introduction'}"...`, percent: 0 });
+    console.log(`Revising section "${section.heading}" (${action})...`);
+    const draft = await provider.generateText({
+        prompt: `You are an expert educator revising one section of a study guide on "${formData.topic} - ${formData.subtopic}".
+
+        ${REVISION_BRIEFS[action]}
+        ${instructions.trim() ? `\n        **Additional instructions from the reader:** ${instructions.trim()}\n` : ''}
+        **Rules:**
+        *   ${headingLine ? `Start with the section's heading line exactly as it is: \`${headingLine}\`` : 'Do not add a heading.'}
+        *   Keep each figure token such as \`[[FIGURE-1]]\` on its own line next to the text it illustrates. Do not invent new figure tokens.
+        *   Keep citation markers such as \`[[3]](#ref-3)\` attached to the sentences they support.
+        *   ${newIllustrations > 0
+            ? `To add a new illustration, use the format \`[IMAGE: A clear, descriptive prompt for an image]\`. Add at most ${newIllustrations === 1 ? 'one' : newIllustrations}.`
+            : 'Do not add any new images or image placeholders.'}
+        *   Use Markdown, short paragraphs, and lists as in the rest of the guide.
+        *   Write for ${audienceBrief(options.audience)}
+        *   Write in ${languageName(options.language)}, like the rest of the guide.
+        *   Return only the revised section, nothing else.
+
+        **Outline of the whole guide (for context only):**
+        ${extractHeadings(result.content).map(h => `${'  '.repeat(h.depth - 1)}- ${h.text}`).join('\n        ')}
+        ${excerptsBrief(excerpts)}
+        --- SECTION TO REVISE ---
+        ${tokenized}`,
+        format: 'markdown',
+        useSearch: action === 'regenerate',
+        signal,
+    });
+
+    const sources = [...result.sources];
+    let content = limitIllustrations(citeExcerpts(mergeCitedDraft(draft, sources), excerpts, sources), newIllustrations).trim();
+    if (headingLine && !content.startsWith('#')) {
+        content = `${headingLine}\n\n${content}`;
+    }
+    content = content.replace(/\[\[FIGURE-(\d+)\]\]/g, (_, n: string) => figures[Number(n) - 1] ?? '');
+
+    const illustrated = await illustrateContent(content, formData, scaleProgress(updateProgress, DRAFT_SHARE, 100), provider, { signal });
+    console.log('Section revision complete.');
+    return { content: illustrated.content, sources, illustrations: illustrated.illustrations };
+};
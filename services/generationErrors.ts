@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** What went wrong, as far as the user's options are concerned. */
+export type GenerationErrorKind =
+  | 'missing-api-key'
+  | 'quota-exceeded'
+  | 'safety-block'
+  | 'network'
+  | 'malformed-output'
+  | 'unknown';
+
+/** What the error screen offers as the way out. */
+export type RecoveryAction = 'retry' | 'resume-later' | 'edit-request' | 'configure';
+
+/** A generation failure of a known kind. Providers throw these where they can tell; anything else is classified by `toGenerationError`. */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+
+  constructor(kind: GenerationErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GenerationError';
+    this.kind = kind;
+  }
+}
+
+export const ERROR_DETAILS: Record<GenerationErrorKind, { title: string; hint: string; recovery: RecoveryAction }> = {
+  'missing-api-key': {
+    title: 'No API Key Configured',
+    hint: 'Set GEMINI_API_KEY in .env.local and restart the app, or set MODEL_PROVIDER=mock to use the offline demo provider.',
+    recovery: 'configure',
+  },
+  'quota-exceeded': {
+    title: 'Usage Limit Reached',
+    hint: 'The model\'s rate limit or quota is used up. Wait a few minutes, then resume: the finished steps are kept.',
+    recovery: 'resume-later',
+  },
+  'safety-block': {
+    title: 'Blocked by Safety Filters',
+    hint: 'The model declined this request. Rephrase the topic or guiding instructions and try again.',
+    recovery: 'edit-request',
+  },
+  network: {
+    title: 'Connection Problem',
+    hint: 'The model service could not be reached. Check your connection and try again: the finished steps are kept.',
+    recovery: 'retry',
+  },
+  'malformed-output': {
+    title: 'Unexpected Model Response',
+    hint: 'The model returned something the app could not use. Trying again usually works.',
+    recovery: 'retry',
+  },
+  unknown: {
+    title: 'An Error Occurred',
+    hint: 'Try again: the finished steps are kept.',
+    recovery: 'retry',
+  },
+};
+
+const errorStatus = (error: unknown) => {
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Classifies any thrown value as a `GenerationError`.
+ * @param error What a generation threw.
+ * @returns The error itself if it is already typed, otherwise a typed error wrapping it.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = errorStatus(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('quota-exceeded', message, { cause: error });
+  }
+  if (status === 401 || status === 403 || /API key/i.test(message)) {
+    return new GenerationError('missing-api-key', message, { cause: error });
+  }
+  if ((status !== undefined && status >= 500) || (error instanceof DOMException && error.name === 'TimeoutError')
+    || (error instanceof TypeError && /fetch|network/i.test(message)) || /UNAVAILABLE|network|overloaded/i.test(message)) {
+    return new GenerationError('network', message, { cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new GenerationError('malformed-output', 'The model returned malformed data.', { cause: error });
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/.test(message)) {
+    return new GenerationError('safety-block', message, { cause: error });
+  }
+  return new GenerationError('unknown', message || 'An unknown error occurred.', { cause: error });
+};
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type Audience = 'middle-school' | 'high-school' | 'undergraduate' | 'graduate';
+export type Depth = 'overview' | 'standard' | 'in-depth';
+
+/** How a study guide, or each chapter of a book, is written. */
+export interface GenerationOptions {
+  audience: Audience;
+  depth: Depth;
+  /** Approximate length of a guide, or of each chapter of a book, in words. */
+  wordCount: number;
+  /** BCP 47 language tag of the language to write in, e.g. `en-US` or `de`. */
+  language: string;
+  /** How many illustrations a guide or chapter gets; 0 for none. */
+  illustrationCount: number;
+  includeTables: boolean;
+  includeWorkedExamples: boolean;
+  includeSummaries: boolean;
+  includeGlossary: boolean;
+  /** Checks the draft against the guide and references and scores its readability once it is written. */
+  reviewQuality: boolean;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  audience: 'undergraduate',
+  depth: 'standard',
+  wordCount: 2500,
+  language: 'en-US',
+  illustrationCount: 4,
+  includeTables: true,
+  includeWorkedExamples: true,
+  includeSummaries: true,
+  includeGlossary: false,
+  reviewQuality: false,
+};
+
+export const AUDIENCES: { value: Audience; label: string; brief: string }[] = [
+  { value: 'middle-school', label: 'Middle School', brief: 'middle school students (ages 11-14). Use simple words, short sentences, everyday analogies and an encouraging, friendly tone. Define every technical term.' },
+  { value: 'high-school', label: 'High School', brief: 'high school students (ages 14-18). Use clear language and relatable examples in a supportive tone, and introduce technical terms with definitions.' },
+  { value: 'undergraduate', label: 'Undergraduate', brief: 'college students. Use a professional yet accessible tone that is easy to study from while still being comprehensive.' },
+  { value: 'graduate', label: 'Graduate', brief: 'graduate students. Use precise academic language and assume solid foundations; engage with current research, competing views and formal treatments.' },
+];
+
+export const DEPTHS: { value: Depth; label: string; brief: string }[] = [
+  { value: 'overview', label: 'Overview', brief: 'Give a concise overview of the essentials. Skip specialist detail and edge cases.' },
+  { value: 'standard', label: 'Standard', brief: 'Cover the core concepts thoroughly, with the detail needed to understand and apply them.' },
+  { value: 'in-depth', label: 'In-Depth', brief: 'Go into depth: cover nuances, edge cases, derivations and the reasoning behind each idea.' },
+];
+
+export const LANGUAGES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { value: 'nl', label: 'Dutch' },
+  { value: 'pl', label: 'Polish' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'tr', label: 'Turkish' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'zh-CN', label: 'Chinese (Simplified)' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+];
+
+export const WORD_COUNT_RANGE = { min: 300, max: 10_000 };
+export const MAX_ILLUSTRATIONS = 12;
+
+/**
+ * Fills in defaults for options that aren't set, e.g. for projects saved
+ * before the options existed.
+ */
+export const resolveGenerationOptions = (options?: Partial<GenerationOptions>): GenerationOptions =>
+  ({ ...DEFAULT_GENERATION_OPTIONS, ...options });
+
+const isLanguageTag = (tag: string) => {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks the options the form collected.
+ * @returns A message per invalid option; empty if all are valid.
+ */
+export const validateGenerationOptions = (options: GenerationOptions): Partial<Record<keyof GenerationOptions, string>> => {
+  const errors: Partial<Record<keyof GenerationOptions, string>> = {};
+  if (!AUDIENCES.some(audience => audience.value === options.audience)) errors.audience = 'Choose an audience.';
+  if (!DEPTHS.some(depth => depth.value === options.depth)) errors.depth = 'Choose a depth.';
+  if (!Number.isInteger(options.wordCount) || options.wordCount < WORD_COUNT_RANGE.min || options.wordCount > WORD_COUNT_RANGE.max) {
+    errors.wordCount = `Enter a whole number of words from ${WORD_COUNT_RANGE.min.toLocaleString()} to ${WORD_COUNT_RANGE.max.toLocaleString()}.`;
+  }
+  if (!isLanguageTag(options.language)) errors.language = 'Choose a language.';
+  if (!Number.isInteger(options.illustrationCount) || options.illustrationCount < 0 || options.illustrationCount > MAX_ILLUSTRATIONS) {
+    errors.illustrationCount = `Enter a whole number of illustrations from 0 to ${MAX_ILLUSTRATIONS}.`;
+  }
+  return errors;
+};
+
+/** The English name of a language tag for prompts, e.g. "Brazilian Portuguese" for `pt-BR`. */
+export const languageName = (tag: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+};
+
+const RIGHT_TO_LEFT_SCRIPTS = ['Arab', 'Hebr', 'Syrc', 'Thaa', 'Nkoo', 'Adlm', 'Rohg'];
+
+/** The direction a language tag is written in, e.g. `rtl` for `ar`, from the script it is most likely written in. */
+export const textDirection = (tag: string): 'ltr' | 'rtl' => {
+  try {
+    const { script } = new Intl.Locale(tag).maximize();
+    return script && RIGHT_TO_LEFT_SCRIPTS.includes(script) ? 'rtl' : 'ltr';
+  } catch {
+    return 'ltr';
+  }
+};
+
+/** The prompt line describing who the text is for. */
+export const audienceBrief = (audience: Audience) =>
+  (AUDIENCES.find(a => a.value === audience) ?? AUDIENCES[2]).brief;
+
+/** The prompt line describing how deep the text goes. */
+export const depthBrief = (depth: Depth) =>
+  (DEPTHS.find(d => d.value === depth) ?? DEPTHS[1]).brief;
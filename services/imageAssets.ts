@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { escapeHtml } from './markdown';
+
+/** Matches the `<img>` tags the generator embeds in the markdown. */
+export const IMG_TAG = /<img\b[^>]*>/gi;
+
+/** Matches the empty `<figure>` left where an illustration failed to generate. Exporters ignore it. */
+export const FAILED_ILLUSTRATION_TAG = /<figure\b[^>]*\bdata-failed="true"[^>]*><\/figure>/gi;
+
+/** Matches either of the above. */
+export const ILLUSTRATION_TAG = new RegExp(`${IMG_TAG.source}|${FAILED_ILLUSTRATION_TAG.source}`, 'gi');
+
+/** The `<img>` tag for a generated or uploaded illustration. */
+export const illustrationTag = (id: string, src: string, alt: string) =>
+  `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" data-illustration="${escapeHtml(id)}" class="my-6 rounded-lg shadow-lg mx-auto" />`;
+
+export const failedIllustrationTag = (id: string) => `<figure data-illustration="${id}" data-failed="true"></figure>`;
+
+/** Swaps the tag of one illustration, whether it is currently an image or a failed marker. */
+export const setIllustrationTag = (markdown: string, id: string, tag: string): string => {
+  const pattern = new RegExp(`<img\\b[^>]*\\bdata-illustration="${id}"[^>]*>|<figure\\b[^>]*\\bdata-illustration="${id}"[^>]*><\\/figure>`, 'i');
+  return markdown.replace(pattern, () => tag);
+};
+
+export const getAttribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\b${name}="([^"]*)"`, 'i'))?.[1] ?? '';
+
+export interface ImageAsset {
+  /** The original `src`, usually a `data:` URL. */
+  src: string;
+  alt: string;
+  /** Archive-relative file name, e.g. `image-1.png`. */
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+  /** The original SVG of a rasterized vector image, for formats that can carry both. */
+  vector?: { fileName: string; data: Uint8Array };
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+/** The file extension for an image MIME type. */
+export const imageExtension = (mimeType: string) => EXTENSIONS[mimeType] ?? 'bin';
+
+const decodeBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/** Splits a base64 `data:` URL into its MIME type and bytes. */
+export const decodeDataUrl = (src: string): { mimeType: string; data: Uint8Array } | null => {
+  const match = src.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], data: decodeBase64(match[2]) } : null;
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Failed to load image.'));
+  image.src = src;
+});
+
+/**
+ * Converts any image the browser can display into a PNG `data:` URL on a white
+ * background, for formats that only accept raster images.
+ */
+export const rasterizeImage = async (src: string): Promise<string> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || 960;
+  canvas.height = image.naturalHeight || 540;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available.');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+interface CollectOptions {
+  /** Rasterize anything that is not PNG or JPEG (for DOCX and PDF). */
+  rasterOnly?: boolean;
+}
+
+/**
+ * Collects every embedded image in the markdown as a file-ready asset, in
+ * document order and de-duplicated by `src`. Images that fail to decode are skipped.
+ */
+export const collectImageAssets = async (markdown: string, { rasterOnly = false }: CollectOptions = {}): Promise<ImageAsset[]> => {
+  const assets: ImageAsset[] = [];
+  for (const [tag] of markdown.matchAll(IMG_TAG)) {
+    const src = getAttribute(tag, 'src');
+    if (!src || assets.some(asset => asset.src === src)) continue;
+    try {
+      let embeddable = src;
+      if (rasterOnly && !/^data:image\/(png|jpe?g);/i.test(src)) {
+        embeddable = await rasterizeImage(src);
+      }
+      const decoded = decodeDataUrl(embeddable);
+      if (!decoded) continue;
+      const image = await loadImage(embeddable);
+      const extension = imageExtension(decoded.mimeType);
+      const original = embeddable !== src ? decodeDataUrl(src) : null;
+      assets.push({
+        src,
+        alt: getAttribute(tag, 'alt'),
+        fileName: `image-${assets.length + 1}.${extension}`,
+        mimeType: decoded.mimeType,
+        data: decoded.data,
+        width: image.naturalWidth,
+        height: image.naturalHeight,
+        vector: original?.mimeType === 'image/svg+xml'
+          ? { fileName: `image-${assets.length + 1}.svg`, data: original.data }
+          : undefined,
+      });
+    } catch (e) {
+      console.warn('Skipping an image that could not be exported.', e);
+    }
+  }
+  return assets;
+};
+
+/** Swaps each embedded `<img>` tag for whatever `replace` returns for its asset. */
+export const replaceImageTags = (markdown: string, assets: ImageAsset[], replace: (asset: ImageAsset) => string): string =>
+  markdown.replace(IMG_TAG, tag => {
+    const asset = assets.find(a => a.src === getAttribute(tag, 'src'));
+    return asset ? replace(asset) : '';
+  });
+
+export const readFileAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`Failed to read ${file instanceof File ? file.name : 'the image'}.`));
+  reader.readAsDataURL(file);
+});
+
+/** Replaces embedded images with short text markers, keeping `data:` URLs out of model prompts. */
+export const stripImages = (markdown: string): string =>
+  markdown
+    .replace(IMG_TAG, tag => `[Illustration: ${getAttribute(tag, 'alt')}]`)
+    .replace(FAILED_ILLUSTRATION_TAG, '');
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { marked, type Token, type Tokens } from 'marked';
+
+export interface Heading {
+  depth: number;
+  text: string;
+  slug: string;
+}
+
+/** Turns heading text into a URL fragment, e.g. "Chapter 1: Cells" -> "chapter-1-cells". */
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'section';
+
+/**
+ * Heading anchors are prefixed so that no heading id, e.g. "images" or
+ * "cookie", can shadow a `document` property.
+ */
+const HEADING_ID_PREFIX = 'sec-';
+
+/**
+ * Returns a slug function that keeps slugs unique within one document by
+ * suffixing repeats (`sec-summary`, `sec-summary-1`, ...). Heading ids in the
+ * rendered HTML and anchors computed elsewhere agree as long as both use a
+ * fresh slugger and visit headings in document order.
+ */
+export const createSlugger = () => {
+  const seen = new Map<string, number>();
+  return (text: string): string => {
+    const base = slugify(text);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return `${HEADING_ID_PREFIX}${count === 0 ? base : `${base}-${count}`}`;
+  };
+};
+
+/** Lists every heading in the markdown in document order, with its anchor slug. */
+export const extractHeadings = (markdown: string): Heading[] => {
+  const slug = createSlugger();
+  const headings: Heading[] = [];
+  marked.walkTokens(marked.lexer(markdown), token => {
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      headings.push({ depth: heading.depth, text: heading.text, slug: slug(heading.text) });
+    }
+  });
+  return headings;
+};
+
+export type CalloutKind = 'key-idea' | 'note' | 'tip' | 'warning' | 'example' | 'definition';
+
+/** The callout blocks the generator may write, as `> [!KEY IDEA]` followed by quoted lines. */
+export const CALLOUT_LABELS: Record<CalloutKind, string> = {
+  'key-idea': 'Key idea',
+  note: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+  example: 'Example',
+  definition: 'Definition',
+};
+
+/** Reads the kind from a callout marker such as `KEY IDEA` or `key-idea`; null if it isn't one. */
+export const calloutKind = (marker: string): CalloutKind | null => {
+  const kind = marker.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return kind in CALLOUT_LABELS ? kind as CalloutKind : null;
+};
+
+const CALLOUT_MARKER_LINE = /^( {0,3}> ?)\[!([A-Za-z][\w -]*)\][ \t]*(.*)$/gm;
+
+/**
+ * Turns callout markers into bold titles, for exporters that render callouts
+ * as ordinary block quotes: `> [!WARNING]` becomes `> **Warning**`.
+ */
+export const replaceCalloutMarkers = (markdown: string): string =>
+  markdown.replace(CALLOUT_MARKER_LINE, (line, prefix: string, marker: string, title: string) => {
+    const kind = calloutKind(marker);
+    return kind ? `${prefix}**${title.trim() || CALLOUT_LABELS[kind]}**` : line;
+  });
+
+/** A top-level part of a document: a heading down to the next heading of the same or higher level. */
+export interface Section {
+  /** The heading text, or null for any content before the first heading. */
+  heading: string | null;
+  depth: number;
+  markdown: string;
+}
+
+/**
+ * Splits markdown into sections at every heading of `maxDepth` or higher, so
+ * books split at chapters and sections alike. Headings inside code blocks are ignored.
+ */
+export const splitSections = (markdown: string, maxDepth = 2): Section[] => {
+  const sections: Section[] = [];
+  for (const token of marked.lexer(markdown)) {
+    const startsSection = token.type === 'heading' && (token as Tokens.Heading).depth <= maxDepth;
+    if (startsSection || sections.length === 0) {
+      const heading = startsSection ? token as Tokens.Heading : null;
+      sections.push({ heading: heading?.text ?? null, depth: heading?.depth ?? 0, markdown: '' });
+    }
+    sections[sections.length - 1].markdown += token.raw;
+  }
+  return sections.filter(section => section.heading !== null || section.markdown.trim());
+};
+
+/** Reassembles sections into one markdown document. */
+export const joinSections = (sections: Pick<Section, 'markdown'>[]): string =>
+  sections.map(section => section.markdown.trim()).filter(Boolean).join('\n\n') + '\n';
+
+/**
+ * The anchor each section's heading gets when the sections are rendered as one
+ * document, or null for the content before the first heading.
+ */
+export const sectionAnchors = (sections: Section[]): (string | null)[] => {
+  const slug = createSlugger();
+  return sections.map(section => {
+    const slugs: string[] = [];
+    marked.walkTokens(marked.lexer(section.markdown), token => {
+      if (token.type === 'heading') slugs.push(slug((token as Tokens.Heading).text));
+    });
+    return section.heading === null ? null : slugs[0] ?? null;
+  });
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: '\u00a0' };
+
+export const decodeEntities = (text: string) => text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => ENTITIES[entity]);
+
+/** A span of inline text with the formatting that applies to it. */
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+  /** The text is the TeX of an inline formula. */
+  math?: boolean;
+}
+
+/**
+ * Flattens marked inline tokens into styled text runs, for exporters that lay
+ * out text themselves. Inline HTML is reduced to its text; images are dropped.
+ */
+export const toTextRuns = (tokens: Token[] = [], style: Omit<TextRun, 'text'> = {}): TextRun[] =>
+  tokens.flatMap((token): TextRun[] => {
+    switch (token.type) {
+      case 'strong':
+        return toTextRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em':
+        return toTextRuns((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del':
+        return toTextRuns((token as Tokens.Del).tokens, style);
+      case 'codespan':
+        return [{ ...style, code: true, text: decodeEntities((token as Tokens.Codespan).text) }];
+      case 'link':
+        return toTextRuns((token as Tokens.Link).tokens, { ...style, href: (token as Tokens.Link).href });
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'html':
+        return [{ ...style, text: decodeEntities((token as Tokens.HTML).text.replace(/<[^>]*>/g, '')) }];
+      case 'image':
+        return [];
+      case 'inlineMath':
+        return [{ ...style, math: true, text: String(token.text) }];
+      case 'text':
+        return 'tokens' in token && token.tokens?.length
+          ? toTextRuns(token.tokens, style)
+          : [{ ...style, text: decodeEntities((token as Tokens.Text).text) }];
+      default:
+        return 'text' in token ? [{ ...style, text: decodeEntities(String(token.text)) }] : [];
+    }
+  });
+
+/** The plain text of inline tokens. */
+export const toPlainText = (tokens: Token[] = []) => toTextRuns(tokens).map(run => run.text).join('');
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
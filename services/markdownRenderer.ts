@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Turns study book markdown into HTML that is safe to put in the page. The
+ * markdown comes from the model, uploaded documents and the user's edits, so
+ * none of it is trusted: embedded illustrations are parsed into their own
+ * tokens and rebuilt from escaped attributes, and the finished HTML goes
+ * through DOMPurify.
+ *
+ * On top of GitHub-flavoured markdown it supports callouts (`> [!KEY IDEA]`,
+ * `> [!WARNING]`, ...), KaTeX math (`$...$` and `$$...$$`) and highlighted
+ * fenced code.
+ */
+
+import { Marked, type MarkedExtension, type TokenizerExtension, type RendererExtension, type Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/common';
+import { CALLOUT_LABELS, calloutKind, createSlugger, decodeEntities, escapeHtml, type CalloutKind } from './markdown';
+import { failedIllustrationTag, illustrationTag } from './imageAssets';
+
+/** An image embedded in the markdown, as stored by the generator. */
+export interface IllustrationNode {
+  /** The key of its metadata in `StudyBookResult.illustrations`; missing for plain images. */
+  id?: string;
+  src: string;
+  alt: string;
+  /** True for the marker left where an illustration failed to generate. */
+  failed: boolean;
+}
+
+export interface RenderOptions {
+  /**
+   * Gives headings their ids. Pass one slugger to consecutive calls to render
+   * a document in pieces with the same ids as rendering it whole.
+   */
+  slug?: (text: string) => string;
+  /** Renders an illustration, e.g. with edit controls; defaults to the stored tag. The HTML is sanitized with the rest. */
+  renderIllustration?: (illustration: IllustrationNode) => string;
+  /** Renders an `[IMAGE: ...]` placeholder that is still waiting for its illustration; by default it stays text. */
+  renderPlaceholder?: (prompt: string) => string;
+  /** `mathml` for exports, which have no KaTeX stylesheet; the app also renders HTML for the look. */
+  math?: 'html' | 'mathml';
+}
+
+const CALLOUT_CLASS_NAMES: Record<CalloutKind, { box: string; title: string }> = {
+  'key-idea': { box: 'border-violet-500 bg-violet-50 dark:bg-violet-500/10', title: 'text-violet-800 dark:text-violet-300' },
+  note: { box: 'border-blue-500 bg-blue-50 dark:bg-blue-500/10', title: 'text-blue-800 dark:text-blue-300' },
+  tip: { box: 'border-green-500 bg-green-50 dark:bg-green-500/10', title: 'text-green-800 dark:text-green-300' },
+  warning: { box: 'border-amber-500 bg-amber-50 dark:bg-amber-500/10', title: 'text-amber-800 dark:text-amber-300' },
+  example: { box: 'border-teal-500 bg-teal-50 dark:bg-teal-500/10', title: 'text-teal-800 dark:text-teal-300' },
+  definition: { box: 'border-gray-500 bg-gray-50 dark:bg-gray-500/10', title: 'text-gray-800 dark:text-gray-200' },
+};
+
+const ILLUSTRATION_HTML = /^(?:<img\b[^>]*>|<figure\b[^>]*\bdata-failed="true"[^>]*>\s*<\/figure>)/i;
+const ILLUSTRATION_BLOCK = new RegExp(`^ {0,3}(${ILLUSTRATION_HTML.source.slice(1)})[ \\t]*(?:\\n+|$)`, 'i');
+const ATTRIBUTE = /([\w-]+)="([^"]*)"/g;
+const CALLOUT = /^ {0,3}> ?\[!([A-Za-z][\w -]*)\][ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/;
+const BLOCK_MATH = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+// Pandoc's rule, so prices don't turn into math: no space inside the dollars and no digit right after the closing one.
+const INLINE_MATH = /^\$\$([\s\S]+?)\$\$|^\$(?!\s)((?:\\[\s\S]|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+const IMAGE_PLACEHOLDER = /^\[IMAGE:\s*(.*?)\]/;
+
+interface IllustrationToken extends Tokens.Generic {
+  illustration: IllustrationNode;
+}
+
+const toIllustrationNode = (tag: string): IllustrationNode => {
+  const attributes = Object.fromEntries([...tag.matchAll(ATTRIBUTE)].map(([, name, value]) => [name.toLowerCase(), decodeEntities(value)]));
+  return {
+    id: attributes['data-illustration'] || undefined,
+    src: attributes.src ?? '',
+    alt: attributes.alt ?? '',
+    failed: /^<figure/i.test(tag),
+  };
+};
+
+/** An illustration as the tag it is stored as, which is how it renders by default. */
+export const illustrationHtml = ({ id, src, alt, failed }: IllustrationNode): string => {
+  if (failed) return id ? failedIllustrationTag(id) : '';
+  return id
+    ? illustrationTag(id, src, alt)
+    : `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" class="my-6 rounded-lg shadow-lg mx-auto" />`;
+};
+
+const renderMath = (tex: string, displayMode: boolean, output: RenderOptions['math']) =>
+  katex.renderToString(tex.trim(), { displayMode, throwOnError: false, output: output === 'mathml' ? 'mathml' : 'htmlAndMathml' });
+
+const highlight = (code: string, language: string) =>
+  language && hljs.getLanguage(language)
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escapeHtml(code);
+
+const blockMath: TokenizerExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(/^ {0,3}\$\$/m)?.index,
+  tokenizer: src => {
+    const match = BLOCK_MATH.exec(src);
+    return match ? { type: 'blockMath', raw: match[0], text: match[1] } : undefined;
+  },
+};
+
+const inlineMath: TokenizerExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => {
+    const index = src.indexOf('$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer: src => {
+    const match = INLINE_MATH.exec(src);
+    return match ? { type: 'inlineMath', raw: match[0], text: match[1] ?? match[2], displayMode: match[1] !== undefined } : undefined;
+  },
+};
+
+/** Lexes `$...$` and `$$...$$` into `inlineMath` and `blockMath` tokens, for exporters that lay out the tokens themselves. */
+export const mathExtension: MarkedExtension = { extensions: [blockMath, inlineMath] };
+
+/** The marked extensions and renderer overrides for one render. */
+const studyBookExtension = ({ slug = createSlugger(), renderIllustration = illustrationHtml, renderPlaceholder, math }: RenderOptions): MarkedExtension => {
+  const renderIllustrationToken = (token: Tokens.Generic) => renderIllustration((token as IllustrationToken).illustration);
+
+  const extensions: (TokenizerExtension & RendererExtension)[] = [
+    {
+      name: 'illustrationBlock',
+      level: 'block',
+      start: src => src.match(/^ {0,3}<(?:img|figure)\b/im)?.index,
+      tokenizer: src => {
+        const match = ILLUSTRATION_BLOCK.exec(src);
+        return match ? { type: 'illustrationBlock', raw: match[0], illustration: toIllustrationNode(match[1]) } : undefined;
+      },
+      renderer: token => `${renderIllustrationToken(token)}\n`,
+    },
+    {
+      name: 'illustration',
+      level: 'inline',
+      start: src => src.match(/<(?:img|figure)\b/i)?.index,
+      tokenizer: src => {
+        const match = ILLUSTRATION_HTML.exec(src);
+        return match ? { type: 'illustration', raw: match[0], illustration: toIllustrationNode(match[0]) } : undefined;
+      },
+      renderer: renderIllustrationToken,
+    },
+    {
+      name: 'callout',
+      level: 'block',
+      start: src => src.match(/^ {0,3}> ?\[!/m)?.index,
+      tokenizer(src) {
+        const match = CALLOUT.exec(src);
+        const kind = match && calloutKind(match[1]);
+        if (!match || !kind) return undefined;
+        const titleTokens: Tokens.Generic[] = [];
+        this.lexer.inline(match[2].trim() || CALLOUT_LABELS[kind], titleTokens);
+        return {
+          type: 'callout',
+          raw: match[0],
+          kind,
+          titleTokens,
+          tokens: this.lexer.blockTokens(match[3].replace(/^ {0,3}> ?/gm, ''), []),
+        };
+      },
+      renderer(token) {
+        const classNames = CALLOUT_CLASS_NAMES[token.kind as CalloutKind];
+        return `<aside class="callout my-6 px-5 py-1 border-l-4 rounded-r-lg ${classNames.box}" data-callout="${token.kind}" role="note">`
+          + `<p class="font-semibold ${classNames.title}">${this.parser.parseInline(token.titleTokens)}</p>`
+          + `${this.parser.parse(token.tokens ?? [])}</aside>\n`;
+      },
+      childTokens: ['titleTokens', 'tokens'],
+    },
+    {
+      ...blockMath,
+      renderer: token => `<div class="my-4 overflow-x-auto">${renderMath(token.text, true, math)}</div>\n`,
+    },
+    {
+      ...inlineMath,
+      renderer: token => renderMath(token.text, token.displayMode, math),
+    },
+  ];
+  if (renderPlaceholder) {
+    extensions.push({
+      name: 'imagePlaceholder',
+      level: 'inline',
+      start: src => {
+        const index = src.indexOf('[IMAGE:');
+        return index === -1 ? undefined : index;
+      },
+      tokenizer: src => {
+        const match = IMAGE_PLACEHOLDER.exec(src);
+        return match ? { type: 'imagePlaceholder', raw: match[0], text: match[1] } : undefined;
+      },
+      renderer: token => renderPlaceholder(token.text),
+    });
+  }
+
+  return {
+    gfm: true,
+    breaks: true,
+    useNewRenderer: true,
+    extensions,
+    renderer: {
+      heading({ tokens, depth, text }: Tokens.Heading) {
+        return `<h${depth} id="${escapeHtml(slug(text))}">${this.parser.parseInline(tokens)}</h${depth}>\n`;
+      },
+      code({ text, lang }: Tokens.Code) {
+        const language = (lang ?? '').match(/^\S*/)?.[0] ?? '';
+        return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlight(text, language)}\n</code></pre>\n`;
+      },
+    },
+  };
+};
+
+/** Removes scripts, event handlers, `javascript:` links and the like from rendered HTML. */
+const sanitize = (html: string): string =>
+  DOMPurify.sanitize(html, {
+    FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select'],
+    // KaTeX puts the TeX source in a MathML annotation, which DOMPurify doesn't allow; drop it rather than show it.
+    ADD_FORBID_CONTENTS: ['annotation'],
+  });
+
+/**
+ * Renders study book markdown to sanitized HTML, giving every heading an `id`
+ * that matches `extractHeadings`.
+ * @param markdown The markdown, with embedded illustration tags.
+ * @param options How to give headings ids and render illustrations, placeholders and math.
+ * @returns HTML that is safe to insert into the page.
+ */
+export const renderMarkdown = (markdown: string, options: RenderOptions = {}): string => {
+  const html = new Marked(studyBookExtension(options)).parse(markdown, { async: false }) as string;
+  return sanitize(html);
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import katex from 'katex';
+import { svgToDataUrl } from './diagrams';
+import { rasterizeImage, readFileAsDataUrl } from './imageAssets';
+
+/** A formula drawn as a PNG, for exporters that can't typeset math; sizes are in ems of the text around it. */
+export interface MathImage {
+  src: string;
+  width: number;
+  height: number;
+  /** How far the formula reaches below the baseline. */
+  depth: number;
+}
+
+/** The font size formulas are laid out at, in pixels; the PNG has twice the resolution. */
+const FONT_SIZE = 40;
+const PIXEL_RATIO = 2;
+
+let stylesheet: Promise<string> | null = null;
+
+/**
+ * KaTeX's stylesheet with its fonts inlined: an SVG drawn to a canvas can't
+ * load anything, so the formula would otherwise be drawn in fallback fonts.
+ */
+const inlineStylesheet = (): Promise<string> => {
+  stylesheet ??= (async () => {
+    const base = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/`;
+    const fetchOk = async (url: string) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load ${url} (${response.status}).`);
+      return response;
+    };
+    const css = await (await fetchOk(`${base}katex.min.css`)).text();
+    const files = [...new Set(css.match(/fonts\/[\w-]+\.woff2/g) ?? [])];
+    const fonts = new Map(await Promise.all(files.map(async file =>
+      [file, await readFileAsDataUrl(await (await fetchOk(base + file)).blob())] as const
+    )));
+    return css.replace(/src:url\((fonts\/[\w-]+\.woff2)\)[^;}]*/g, (_, file: string) => `src:url(${fonts.get(file)}) format("woff2")`);
+  })().catch(error => {
+    stylesheet = null;
+    throw error;
+  });
+  return stylesheet;
+};
+
+/**
+ * Typesets a formula with KaTeX and draws it to a PNG, measuring how it sits
+ * on the baseline so it can be placed inline.
+ * @param tex The TeX source, without the dollar signs.
+ * @param displayMode Whether it is a displayed equation rather than inline math.
+ * @returns A promise that resolves to the image; it rejects if the browser won't draw it.
+ */
+export const renderMathImage = async (tex: string, displayMode: boolean): Promise<MathImage> => {
+  const css = await inlineStylesheet();
+  const line = document.createElement('div');
+  line.style.cssText = `position: absolute; left: -10000px; top: 0; font-size: ${FONT_SIZE}px; line-height: normal; white-space: nowrap; color: #1f2937;`;
+  const wrapper = document.createElement('span');
+  wrapper.innerHTML = katex.renderToString(tex.trim(), { displayMode, throwOnError: false, output: 'html' });
+  // The formula itself, without the centred block a displayed equation comes in.
+  const formula = wrapper.querySelector<HTMLElement>('.katex') ?? wrapper;
+  // A zero-height inline block sits on the baseline.
+  const baselineMarker = document.createElement('span');
+  baselineMarker.style.cssText = 'display: inline-block; width: 0; height: 0;';
+  line.append(formula, baselineMarker);
+  document.body.append(line);
+  try {
+    const boxes = [...formula.querySelectorAll('.base')].map(base => base.getBoundingClientRect());
+    if (boxes.length === 0) boxes.push(formula.getBoundingClientRect());
+    const lineBox = line.getBoundingClientRect();
+    const left = Math.min(...boxes.map(box => box.left));
+    const top = Math.min(...boxes.map(box => box.top));
+    const width = Math.max(...boxes.map(box => box.right)) - left;
+    const height = Math.max(...boxes.map(box => box.bottom)) - top;
+    const baseline = baselineMarker.getBoundingClientRect().top;
+
+    const copy = line.cloneNode(true) as HTMLElement;
+    copy.style.position = 'static';
+    const style = document.createElement('style');
+    style.textContent = css;
+    copy.prepend(style);
+    const xhtml = new XMLSerializer().serializeToString(copy);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width * PIXEL_RATIO}" height="${height * PIXEL_RATIO}" viewBox="0 0 ${width} ${height}">`
+      + `<foreignObject x="${lineBox.left - left}" y="${lineBox.top - top}" width="${lineBox.width}" height="${lineBox.height}">`
+      + `${xhtml}</foreignObject></svg>`;
+    return {
+      src: await rasterizeImage(svgToDataUrl(svg)),
+      width: width / FONT_SIZE,
+      height: height / FONT_SIZE,
+      depth: (top + height - baseline) / FONT_SIZE,
+    };
+  } finally {
+    line.remove();
+  }
+};
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { JsonRequest, JsonSchema, ModelProvider } from './modelProvider';
+
+const MOCK_MARKDOWN = `# Sample Study Guide
+
+This guide was produced by the offline mock provider. It exercises the same pipeline as a live generation without calling any model.
+
+## Core Concepts
+
+Every topic rests on a handful of core ideas. Learn them first and the details fall into place.
+
+*   **Definition:** What the concept is and where it applies.
+*   **Mechanism:** How the parts interact to produce the result.
+*   **Context:** Why the concept matters in practice.
+
+> [!KEY IDEA]
+> Understand the mechanism before memorizing the details.
+
+[IMAGE: A diagram showing the three core concepts connected by arrows in a cycle.]
+
+## A Closer Look
+
+Breaking a process into steps makes it easier to remember.
+
+1.  Identify the inputs.
+2.  Follow the transformation.
+3.  Check the outputs against the definition.
+
+The rate of change between two measurements is $r = \\frac{\\Delta y}{\\Delta x}$, which you can compute in a few lines:
+
+\`\`\`python
+def rate(dy, dx):
+    return dy / dx
+\`\`\`
+
+[IMAGE: A flowchart of the three steps from identifying inputs to checking outputs.]
+
+[IMAGE: A photograph of a student taking notes at a library desk.]
+
+## Comparison Table
+
+| Aspect | Option A | Option B |
+| :--- | :--- | :--- |
+| Speed | Fast | Moderate |
+| Cost | High | Low |
+| Accuracy | Moderate | High |
+
+## Summary
+
+Review the core concepts, walk through the steps, and use the table as a quick reference before exams.
+`;
+
+const MOCK_ANSWER = `The guide's answer comes down to its core ideas: learn the definition, the mechanism and the context first [S2].
+
+*   Break the process into steps: identify the inputs, follow the transformation and check the outputs [S3].
+*   Use the comparison table as a quick reference before exams [S4].`;
+
+const MOCK_MERMAID = `flowchart LR
+    A["Identify the inputs"] --> B["Follow the transformation"]
+    B --> C["Check the outputs"]
+    C -->|"Mismatch"| A`;
+
+const STREAM_DELAY_MS = 60;
+
+const PALETTE = ['#2563eb', '#059669', '#d97706', '#7c3aed', '#db2777', '#0891b2'];
+
+/** A small, stable string hash so the same prompt always yields the same placeholder. */
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const escapeXml = (value: string) => value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+const wrapText = (text: string, maxChars: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        if (line && (line + ' ' + word).length > maxChars) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.slice(0, 4);
+};
+
+const ASPECT_SIZES: Record<string, [number, number]> = {
+    '1:1': [800, 800],
+    '3:4': [600, 800],
+    '4:3': [800, 600],
+    '9:16': [450, 800],
+    '16:9': [960, 540],
+};
+
+/**
+ * Draws a labelled placeholder. Uses a canvas so the result is a PNG like the
+ * real image model returns; falls back to SVG where no DOM is available.
+ */
+const createPlaceholderImage = (prompt: string, aspectRatio: string): string => {
+    const [width, height] = ASPECT_SIZES[aspectRatio] ?? ASPECT_SIZES['16:9'];
+    const color = PALETTE[hashString(prompt) % PALETTE.length];
+    const lines = wrapText(prompt, 48);
+
+    if (typeof document !== 'undefined') {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = color;
+            ctx.fillRect(0, 0, width, height);
+            ctx.fillStyle = '#ffffff';
+            ctx.textAlign = 'center';
+            ctx.font = '600 28px Inter, sans-serif';
+            lines.forEach((line, i) => {
+                ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * 40);
+            });
+            return canvas.toDataURL('image/png');
+        }
+    }
+
+    const text = lines
+        .map((line, i) => `<text x="50%" y="${height / 2 + (i - (lines.length - 1) / 2) * 40}" text-anchor="middle" font-family="sans-serif" font-size="28" fill="#fff">${escapeXml(line)}</text>`)
+        .join('');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="${color}"/>${text}</svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+/** Builds a value that satisfies the schema, varying enum picks by position. */
+const sampleFromSchema = (schema: JsonSchema, index = 0): unknown => {
+    switch (schema.type) {
+        case 'string':
+            return schema.enum?.length
+                ? schema.enum[index % schema.enum.length]
+                : `Sample ${schema.description ?? 'text'} ${index + 1}`;
+        case 'number':
+        case 'integer':
+            return schema.minimum ?? index + 1;
+        case 'boolean':
+            return index % 2 === 0;
+        case 'array': {
+            const length = Math.min(schema.minItems ?? 3, schema.maxItems ?? Infinity);
+            return Array.from({ length }, (_, i) => sampleFromSchema(schema.items ?? { type: 'string' }, i));
+        }
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, index)])
+            );
+    }
+};
+
+interface MockProviderOptions {
+    /** Simulated round-trip time per call, so loading states stay visible. */
+    latencyMs?: number;
+}
+
+/**
+ * Creates a deterministic provider that needs no network or API key. Document
+ * requests get canned markdown with `[IMAGE: ...]` placeholders, questions
+ * about a book a short answer citing its sections, Mermaid requests a small
+ * flowchart, JSON requests schema-shaped sample data, and images are labelled
+ * placeholders.
+ */
+export const createMockProvider = ({ latencyMs = 300 }: MockProviderOptions = {}): ModelProvider => ({
+    name: 'mock',
+
+    async generateText({ prompt, format = 'markdown', onText, signal }) {
+        await delay(latencyMs, signal);
+        if (format === 'plain' && /\bMermaid\b/.test(prompt)) {
+            return { text: MOCK_MERMAID, sources: [], citations: [] };
+        }
+        if (format === 'plain') {
+            const lastLine = prompt.trim().split('\n').pop() ?? '';
+            return { text: `Mock response: ${lastLine.trim().substring(0, 160)}`, sources: [], citations: [] };
+        }
+        const isQuestion = prompt.includes('--- QUESTION ---');
+        // Cite the first uploaded excerpt, if the prompt has any, the way the prompt asks the model to.
+        const text = isQuestion
+            ? MOCK_ANSWER
+            : prompt.includes('[EXCERPT-1]')
+                ? MOCK_MARKDOWN.replace('Every topic rests on a handful of core ideas.', '$& [[EXCERPT-1]]')
+                : MOCK_MARKDOWN;
+        if (onText) {
+            // Stream a line at a time, like a live model would.
+            const lines = text.split(/(?<=\n)/);
+            for (let i = 1; i <= lines.length; i++) {
+                await delay(STREAM_DELAY_MS, signal);
+                onText(lines.slice(0, i).join(''));
+            }
+        }
+        if (isQuestion) {
+            return { text, sources: [], citations: [] };
+        }
+        return {
+            text,
+            sources: [
+                { title: 'Example Encyclopedia', uri: 'https://example.com/encyclopedia' },
+                { title: 'Example Course Notes', uri: 'https://example.org/course-notes' },
+            ],
+            citations: [
+                { text: 'Every topic rests on a handful of core ideas.', sourceIndices: [0] },
+                { text: 'Breaking a process into steps makes it easier to remember.', sourceIndices: [1] },
+                { text: 'use the table as a quick reference before exams.', sourceIndices: [0, 1] },
+            ],
+        };
+    },
+
+    async generateJson<T>({ schema, signal }: JsonRequest) {
+        await delay(latencyMs, signal);
+        return sampleFromSchema(schema) as T;
+    },
+
+    async generateImage({ prompt, aspectRatio = '16:9', signal }) {
+        await delay(latencyMs, signal);
+        return createPlaceholderImage(prompt, aspectRatio);
+    },
+});
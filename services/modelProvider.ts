@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type Citation } from './citations';
+import { createGeminiProvider } from './geminiProvider';
+import { GenerationError } from './generationErrors';
+import { createMockProvider } from './mockProvider';
+
+export interface Source {
+  title: string;
+  uri: string;
+  /** Set for a passage of a document the user uploaded rather than a web page. */
+  document?: { name: string; page?: number };
+}
+
+/**
+ * A provider-neutral subset of JSON Schema, enough to describe the structured
+ * responses the generation pipeline asks for.
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface TextRequest {
+  prompt: string;
+  /** `markdown` for document content, `plain` for short helper answers such as prompt rewrites. */
+  format?: 'markdown' | 'plain';
+  /** Lets the model ground its answer with a web search. */
+  useSearch?: boolean;
+  temperature?: number;
+  /** Streams the response: called with all the text received so far each time more of it arrives. */
+  onText?: (textSoFar: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TextResult {
+  text: string;
+  sources: Source[];
+  /** Passages of `text` the model attributed to entries of `sources`. */
+  citations: Citation[];
+}
+
+export interface JsonRequest {
+  prompt: string;
+  schema: JsonSchema;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  signal?: AbortSignal;
+}
+
+/**
+ * The model calls the study book pipeline depends on. Implementations must not
+ * hold per-generation state so that one instance can serve several generations,
+ * and must reject with the signal's reason once a request's `signal` aborts.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  generateText(request: TextRequest): Promise<TextResult>;
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  /** Resolves to a `data:` URL of the generated image. */
+  generateImage(request: ImageRequest): Promise<string>;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+/**
+ * Picks the provider from the `MODEL_PROVIDER` environment variable: the
+ * offline mock only when it is `mock`, Gemini otherwise.
+ * @throws {GenerationError} If Gemini is to be used but there is no API key.
+ */
+export const createModelProvider = (name = process.env.MODEL_PROVIDER): ModelProvider => {
+  if (name === 'mock') {
+    return createMockProvider();
+  }
+  if (!process.env.API_KEY) {
+    throw new GenerationError('missing-api-key', 'No GEMINI_API_KEY is configured.');
+  }
+  return createGeminiProvider(process.env.API_KEY);
+};
@@ -0,0 +1,666 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { Marked, type Token, type Tokens } from 'marked';
+import { type Source } from './modelProvider';
+import { createSlugger, extractHeadings, replaceCalloutMarkers, toTextRuns, type TextRun } from './markdown';
+import { mathExtension } from './markdownRenderer';
+import { formatReference, referenceAnchor, type CitationStyle } from './citations';
+import { IMG_TAG, getAttribute, rasterizeImage } from './imageAssets';
+import { isSvgDataUrl, parseSvgDataUrl } from './diagrams';
+import { textDirection } from './generationOptions';
+import { drawSegments, loadPdfFonts, visualOrder, type PdfFonts, type TextSegment, type TextStyle } from './pdfFonts';
+import { renderMathImage, type MathImage } from './mathImages';
+
+export interface PdfExportOptions {
+  title: string;
+  sources: Source[];
+  citationStyle: CitationStyle;
+  /** BCP 47 tag of the language the book is written in, which picks its fonts and direction; jsPDF ignores tags it doesn't know. */
+  language: string;
+}
+
+const MARGIN = 56;
+const HEADER_HEIGHT = 28;
+const BODY_SIZE = 11;
+const LINE_SPACING = 1.45;
+const HEADING_SIZES: Record<number, number> = { 1: 22, 2: 17, 3: 14, 4: 12, 5: 11, 6: 11 };
+const TOC_LINE_HEIGHT = 18;
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const LINK_COLOR = '#2563eb';
+
+type Run = TextRun;
+
+interface PlacedRun extends Run {
+  x: number;
+  width: number;
+  segments: TextSegment[];
+  /** The image an inline formula is drawn as. */
+  formula?: MathImage;
+}
+
+interface PlacedHeading {
+  depth: number;
+  text: string;
+  page: number;
+  y: number;
+}
+
+interface LayoutState {
+  pdf: jsPDF;
+  y: number;
+  pageWidth: number;
+  pageHeight: number;
+  images: Map<string, string>;
+  slug: (text: string) => string;
+  anchors: Map<string, { page: number; y: number }>;
+  pendingLinks: { page: number; x: number; y: number; w: number; h: number; anchor: string }[];
+  /** SVG images drawn as vectors after layout, since svg2pdf is asynchronous. */
+  pendingVectors: { page: number; x: number; y: number; width: number; height: number; src: string; fallback: string }[];
+  headings: PlacedHeading[];
+  fonts: PdfFonts;
+  /** Whether the book is written right to left: lines then start at the right margin. */
+  rtl: boolean;
+  /** The typeset formulas, by `formulaKey`. */
+  formulas: Map<string, MathImage>;
+}
+
+const contentBottom = (state: LayoutState) => state.pageHeight - MARGIN;
+const contentTop = () => MARGIN + HEADER_HEIGHT;
+const contentWidth = (state: LayoutState) => state.pageWidth - MARGIN * 2;
+const lineHeight = (fontSize: number) => fontSize * LINE_SPACING;
+const currentPage = (state: LayoutState) => state.pdf.getNumberOfPages();
+
+const newPage = (state: LayoutState) => {
+  state.pdf.addPage();
+  state.y = contentTop();
+};
+
+/** Starts a new page unless `height` more points fit on the current one. */
+const ensureSpace = (state: LayoutState, height: number) => {
+  if (state.y + height > contentBottom(state) && state.y > contentTop()) {
+    newPage(state);
+  }
+};
+
+/** Where lines start, `indent` in from the margin: the left margin, or the right one in right-to-left text. */
+const startEdge = (state: LayoutState, indent: number) => (state.rtl ? state.pageWidth - MARGIN - indent : MARGIN + indent);
+/** The left edge of the space for text indented by `indent`. */
+const textLeft = (state: LayoutState, indent: number) => (state.rtl ? MARGIN : MARGIN + indent);
+
+const plainText = (tokens: Token[] = []) => toTextRuns(tokens).map(run => run.text).join('');
+
+const formulaKey = (tex: string, displayMode: boolean) => `${displayMode ? 'display' : 'inline'}:${tex}`;
+
+const segmentsWidth = (segments: TextSegment[]) => segments.reduce((sum, segment) => sum + segment.width, 0);
+const lineWidth = (line: PlacedRun[]) => line.reduce((sum, piece) => sum + piece.width, 0);
+
+/** How far a line reaches above and below its baseline; formulas can make it taller than the text. */
+const lineMetrics = (line: PlacedRun[], fontSize: number) => ({
+  ascent: Math.max(fontSize, ...line.map(piece => (piece.formula ? (piece.formula.height - piece.formula.depth) * fontSize : 0))),
+  descent: Math.max(lineHeight(fontSize) - fontSize, ...line.map(piece => (piece.formula ? piece.formula.depth * fontSize : 0))),
+});
+
+/**
+ * Greedily wraps runs into lines no wider than `width`, splitting over-long
+ * words, and puts each line's pieces in the order they are drawn, left to right.
+ */
+const wrapRuns = (state: LayoutState, runs: Run[], fontSize: number, width: number): PlacedRun[][] => {
+  const lines: PlacedRun[][] = [[]];
+  let x = 0;
+
+  const measure = (run: Run, text: string) => state.fonts.segments(text, run, run.code ? fontSize * 0.92 : fontSize, state.rtl);
+
+  const startLine = (pieceWidth: number) => {
+    if (x + pieceWidth > width && x > 0) {
+      lines.push([]);
+      x = 0;
+    }
+  };
+
+  const place = (run: Run, text: string) => {
+    const isSpace = /^\s+$/.test(text);
+    if (isSpace && x === 0) return;
+    let segments = measure(run, text);
+    if (!isSpace) startLine(segmentsWidth(segments));
+    if (!isSpace && segmentsWidth(segments) > width) {
+      // A single word wider than the line (usually a URL): hard-break it by characters.
+      let chunk = '';
+      for (const char of text) {
+        if (segmentsWidth(measure(run, chunk + char)) > width - x && chunk) {
+          const chunkSegments = measure(run, chunk);
+          lines[lines.length - 1].push({ ...run, text: chunk, x, width: segmentsWidth(chunkSegments), segments: chunkSegments });
+          lines.push([]);
+          x = 0;
+          chunk = '';
+        }
+        chunk += char;
+      }
+      text = chunk;
+      segments = measure(run, text);
+    }
+    const finalWidth = segmentsWidth(segments);
+    lines[lines.length - 1].push({ ...run, text, x, width: finalWidth, segments });
+    x += finalWidth;
+  };
+
+  for (const run of runs) {
+    const formula = run.math ? state.formulas.get(formulaKey(run.text, false)) : undefined;
+    if (formula) {
+      const formulaWidth = formula.width * fontSize;
+      startLine(formulaWidth);
+      lines[lines.length - 1].push({ ...run, x, width: formulaWidth, segments: [], formula });
+      x += formulaWidth;
+      continue;
+    }
+    // A formula that couldn't be typeset is printed as its TeX.
+    const textRun = run.math ? { ...run, math: false, code: true, text: `$${run.text}$` } : run;
+    for (const part of textRun.text.split(/(\n|\s+)/)) {
+      if (!part) continue;
+      if (part === '\n') {
+        lines.push([]);
+        x = 0;
+      } else {
+        place(textRun, /^\s+$/.test(part) ? ' ' : part);
+      }
+    }
+  }
+  return lines.map(line => {
+    while (line.length && /^\s+$/.test(line[line.length - 1].text)) line.pop();
+    let left = 0;
+    return visualOrder(line, state.rtl).map(piece => {
+      const placed = { ...piece, x: left };
+      left += piece.width;
+      return placed;
+    });
+  }).filter((line, i, all) => line.length > 0 || (i > 0 && i < all.length - 1));
+};
+
+/** Draws a wrapped line from `left` along the baseline, and makes its links clickable. */
+const drawLine = (state: LayoutState, line: PlacedRun[], left: number, baseline: number, fontSize: number, color: string) => {
+  const { pdf } = state;
+  const { ascent, descent } = lineMetrics(line, fontSize);
+  for (const piece of line) {
+    const x = left + piece.x;
+    if (piece.formula) {
+      const height = piece.formula.height * fontSize;
+      pdf.addImage(piece.formula.src, 'PNG', x, baseline + piece.formula.depth * fontSize - height, piece.width, height);
+    } else {
+      drawSegments(pdf, piece.segments, x, baseline, piece.href ? LINK_COLOR : color);
+    }
+    if (piece.href?.startsWith('#')) {
+      state.pendingLinks.push({ page: currentPage(state), x, y: baseline - ascent, w: piece.width, h: ascent + descent, anchor: piece.href.slice(1) });
+    } else if (piece.href) {
+      pdf.link(x, baseline - ascent, piece.width, ascent + descent, { url: piece.href });
+    }
+  }
+};
+
+/** Draws a line of plain text with its start, end or centre at `x`. */
+const drawText = (state: LayoutState, text: string, style: TextStyle, fontSize: number, x: number, baseline: number, color: string, align: 'left' | 'right' | 'center' = 'left') => {
+  const segments = state.fonts.segments(text, style, fontSize, state.rtl);
+  const width = segmentsWidth(segments);
+  drawSegments(state.pdf, segments, align === 'right' ? x - width : align === 'center' ? x - width / 2 : x, baseline, color);
+};
+
+/** Draws wrapped text line by line, breaking pages only between lines. */
+const drawRuns = (state: LayoutState, runs: Run[], options: { fontSize?: number; indent?: number; color?: string } = {}) => {
+  const fontSize = options.fontSize ?? BODY_SIZE;
+  const indent = options.indent ?? 0;
+  const width = contentWidth(state) - indent;
+
+  for (const line of wrapRuns(state, runs, fontSize, width)) {
+    const { ascent, descent } = lineMetrics(line, fontSize);
+    ensureSpace(state, ascent + descent);
+    const left = state.rtl ? textLeft(state, indent) + width - lineWidth(line) : textLeft(state, indent);
+    drawLine(state, line, left, state.y + ascent, fontSize, options.color ?? TEXT_COLOR);
+    state.y += ascent + descent;
+  }
+};
+
+const drawImage = (state: LayoutState, src: string) => {
+  const { pdf } = state;
+  const data = state.images.get(src) ?? src;
+  let properties;
+  try {
+    properties = pdf.getImageProperties(data);
+  } catch (e) {
+    console.warn('Skipping an image the PDF cannot embed.', e);
+    return;
+  }
+  const maxWidth = contentWidth(state);
+  const maxHeight = (contentBottom(state) - contentTop()) * 0.6;
+  const scale = Math.min(maxWidth / properties.width, maxHeight / properties.height, 0.75);
+  const width = properties.width * scale;
+  const height = properties.height * scale;
+
+  state.y += 6;
+  ensureSpace(state, height + 6);
+  const x = MARGIN + (maxWidth - width) / 2;
+  if (isSvgDataUrl(src)) {
+    state.pendingVectors.push({ page: currentPage(state), x, y: state.y, width, height, src, fallback: data });
+  } else {
+    pdf.addImage(data, x, state.y, width, height);
+  }
+  state.y += height + 12;
+};
+
+const drawTable = (state: LayoutState, table: Tokens.Table) => {
+  const { pdf } = state;
+  const fontSize = BODY_SIZE - 1.5;
+  const padding = 5;
+  const width = contentWidth(state);
+
+  // Size columns by their longest cell, with a floor so narrow columns stay readable.
+  const weights = table.header.map((cell, column) =>
+    Math.max(plainText(cell.tokens).length, ...table.rows.map(row => plainText(row[column]?.tokens).length), 4)
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const columnWidths = weights.map(weight => Math.max(width * 0.1, (width * weight) / total));
+  const scale = width / columnWidths.reduce((sum, w) => sum + w, 0);
+  columnWidths.forEach((_, i) => (columnWidths[i] *= scale));
+
+  // Right-to-left tables start with their first column on the right.
+  const columnLefts = columnWidths.map((columnWidth, i) => {
+    const before = columnWidths.slice(0, i).reduce((sum, w) => sum + w, 0);
+    return state.rtl ? MARGIN + width - before - columnWidth : MARGIN + before;
+  });
+
+  const layoutRow = (cells: Tokens.TableCell[], bold: boolean) => {
+    const lines = cells.map((cell, i) => wrapRuns(state, toTextRuns(cell.tokens, bold ? { bold } : {}), fontSize, columnWidths[i] - padding * 2));
+    const heights = lines.map(cellLines => cellLines.reduce((sum, line) => {
+      const { ascent, descent } = lineMetrics(line, fontSize);
+      return sum + ascent + descent;
+    }, 0));
+    return { lines, height: Math.max(...heights, lineHeight(fontSize)) + padding * 2 };
+  };
+
+  const drawRow = (row: ReturnType<typeof layoutRow>, bold: boolean) => {
+    row.lines.forEach((cellLines, i) => {
+      const x = columnLefts[i];
+      if (bold) {
+        pdf.setFillColor('#f3f4f6');
+        pdf.rect(x, state.y, columnWidths[i], row.height, 'F');
+      }
+      pdf.setDrawColor('#d1d5db');
+      pdf.rect(x, state.y, columnWidths[i], row.height, 'S');
+      let top = state.y + padding;
+      for (const line of cellLines) {
+        const { ascent, descent } = lineMetrics(line, fontSize);
+        const left = state.rtl ? x + columnWidths[i] - padding - lineWidth(line) : x + padding;
+        drawLine(state, line, left, top + ascent, fontSize, TEXT_COLOR);
+        top += ascent + descent;
+      }
+    });
+    state.y += row.height;
+  };
+
+  const header = layoutRow(table.header, true);
+  const rows = table.rows.map(row => layoutRow(row, false));
+  ensureSpace(state, header.height + (rows[0]?.height ?? 0));
+  drawRow(header, true);
+  for (const row of rows) {
+    if (state.y + row.height > contentBottom(state)) {
+      newPage(state);
+      drawRow(header, true);
+    }
+    drawRow(row, false);
+  }
+  state.y += 10;
+};
+
+/** Draws a code block; code reads left to right, also in right-to-left books. */
+const drawCode = (state: LayoutState, code: string, indent: number) => {
+  const { pdf } = state;
+  const fontSize = 9;
+  const height = lineHeight(fontSize);
+  const width = contentWidth(state) - indent;
+  const measure = (text: string) => state.fonts.segments(text, { code: true }, fontSize);
+  // Lines too long for the page are broken by characters.
+  const lines = code.split('\n').flatMap(line => {
+    if (segmentsWidth(measure(line)) <= width - 16) return [line];
+    const parts: string[] = [];
+    let chunk = '';
+    for (const char of line) {
+      if (chunk && segmentsWidth(measure(chunk + char)) > width - 16) {
+        parts.push(chunk);
+        chunk = '';
+      }
+      chunk += char;
+    }
+    return [...parts, chunk];
+  });
+
+  state.y += 4;
+  for (const line of lines) {
+    ensureSpace(state, height);
+    pdf.setFillColor('#f3f4f6');
+    pdf.rect(textLeft(state, indent), state.y, width, height, 'F');
+    drawSegments(pdf, measure(line), textLeft(state, indent) + 8, state.y + fontSize + 1, TEXT_COLOR);
+    state.y += height;
+  }
+  state.y += 10;
+};
+
+/** Draws a displayed equation centred on its own, scaled down if it is wider than the page; one that couldn't be typeset is printed as its TeX. */
+const drawFormula = (state: LayoutState, tex: string, indent: number) => {
+  const formula = state.formulas.get(formulaKey(tex, true));
+  if (!formula) {
+    drawCode(state, `$$${tex}$$`, indent);
+    return;
+  }
+  const width = contentWidth(state) - indent;
+  const scale = Math.min(BODY_SIZE, width / formula.width);
+  state.y += 4;
+  ensureSpace(state, formula.height * scale);
+  state.pdf.addImage(formula.src, 'PNG', textLeft(state, indent) + (width - formula.width * scale) / 2, state.y, formula.width * scale, formula.height * scale);
+  state.y += formula.height * scale + 12;
+};
+
+const drawHeading = (state: LayoutState, heading: Tokens.Heading) => {
+  const fontSize = HEADING_SIZES[heading.depth];
+  const slug = state.slug(heading.text);
+  // Keep the heading with at least a few lines of what follows it.
+  state.y += heading.depth <= 2 ? 14 : 8;
+  ensureSpace(state, lineHeight(fontSize) + lineHeight(BODY_SIZE) * 3);
+  state.anchors.set(slug, { page: currentPage(state), y: state.y });
+  state.headings.push({ depth: heading.depth, text: plainText(heading.tokens), page: currentPage(state), y: state.y });
+  drawRuns(state, toTextRuns(heading.tokens, { bold: true }), { fontSize });
+  if (heading.depth === 2) {
+    state.pdf.setDrawColor('#d1d5db');
+    state.pdf.line(MARGIN, state.y + 2, MARGIN + contentWidth(state), state.y + 2);
+    state.y += 6;
+  }
+  state.y += 4;
+};
+
+const drawList = (state: LayoutState, list: Tokens.List, indent: number) => {
+  const { pdf } = state;
+  const markerWidth = list.ordered ? 20 : 14;
+  const edge = startEdge(state, indent);
+  list.items.forEach((item, i) => {
+    ensureSpace(state, lineHeight(BODY_SIZE));
+    if (list.ordered) {
+      const start = typeof list.start === 'number' ? list.start : 1;
+      drawText(state, `${start + i}.`, {}, BODY_SIZE, edge, state.y + BODY_SIZE, TEXT_COLOR, state.rtl ? 'right' : 'left');
+    } else {
+      // The built-in fonts have no bullet glyph, so draw one.
+      pdf.setFillColor(TEXT_COLOR);
+      pdf.circle(state.rtl ? edge - 3 : edge + 3, state.y + BODY_SIZE * 0.62, 1.8, 'F');
+    }
+    drawBlocks(state, item.tokens, indent + markerWidth, true);
+  });
+  state.y += 4;
+};
+
+const drawBlockquote = (state: LayoutState, tokens: Token[], indent: number) => {
+  const startPage = currentPage(state);
+  const startY = state.y;
+  drawBlocks(state, tokens, indent + 14);
+  const endPage = currentPage(state);
+  const x = state.rtl ? startEdge(state, indent) - 3 : startEdge(state, indent) + 3;
+  state.pdf.setDrawColor('#9ca3af');
+  state.pdf.setLineWidth(2);
+  for (let page = startPage; page <= endPage; page++) {
+    state.pdf.setPage(page);
+    const top = page === startPage ? startY : contentTop();
+    const bottom = page === endPage ? state.y - 6 : contentBottom(state);
+    state.pdf.line(x, top, x, bottom);
+  }
+  state.pdf.setLineWidth(0.5);
+};
+
+/** Draws paragraph-like content, pulling inline `<img>` tags out into their own blocks. */
+const drawParagraph = (state: LayoutState, tokens: Token[], indent: number, tight: boolean) => {
+  const textTokens: Token[] = [];
+  const imageSources: string[] = [];
+  for (const token of tokens) {
+    if (token.type === 'html' && /<img\b/i.test(token.raw)) {
+      imageSources.push(...(token.raw.match(IMG_TAG) ?? []).map(tag => getAttribute(tag, 'src')));
+    } else if (token.type === 'image') {
+      imageSources.push((token as Tokens.Image).href);
+    } else {
+      textTokens.push(token);
+    }
+  }
+  const runs = toTextRuns(textTokens);
+  if (runs.some(run => run.text.trim())) {
+    drawRuns(state, runs, { indent });
+    state.y += tight ? 2 : 8;
+  }
+  imageSources.filter(Boolean).forEach(src => drawImage(state, src));
+};
+
+const drawBlocks = (state: LayoutState, tokens: Token[], indent = 0, tight = false) => {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        drawHeading(state, token as Tokens.Heading);
+        break;
+      case 'paragraph':
+        drawParagraph(state, (token as Tokens.Paragraph).tokens, indent, tight);
+        break;
+      case 'text':
+        drawParagraph(state, (token as Tokens.Text).tokens ?? [token], indent, true);
+        break;
+      case 'list':
+        drawList(state, token as Tokens.List, indent);
+        break;
+      case 'table':
+        drawTable(state, token as Tokens.Table);
+        break;
+      case 'code':
+        drawCode(state, (token as Tokens.Code).text, indent);
+        break;
+      case 'blockMath':
+        drawFormula(state, String(token.text), indent);
+        break;
+      case 'blockquote':
+        drawBlockquote(state, (token as Tokens.Blockquote).tokens, indent);
+        break;
+      case 'html': {
+        const sources = (token.raw.match(IMG_TAG) ?? []).map(tag => getAttribute(tag, 'src')).filter(Boolean);
+        sources.forEach(src => drawImage(state, src));
+        const text = token.raw.replace(/<[^>]*>/g, '').trim();
+        if (text) drawParagraph(state, [{ type: 'text', raw: text, text } as Tokens.Text], indent, tight);
+        break;
+      }
+      case 'hr':
+        ensureSpace(state, 20);
+        state.pdf.setDrawColor('#d1d5db');
+        state.pdf.line(MARGIN, state.y + 10, MARGIN + contentWidth(state), state.y + 10);
+        state.y += 20;
+        break;
+      default:
+        break;
+    }
+  }
+};
+
+/** Draws the reserved SVG images as vector paths, keeping diagram text sharp and selectable. */
+const drawVectors = async (state: LayoutState) => {
+  const { pdf } = state;
+  for (const vector of state.pendingVectors) {
+    pdf.setPage(vector.page);
+    try {
+      const element = parseSvgDataUrl(vector.src);
+      if (!element) throw new Error('Invalid SVG.');
+      await svg2pdf(element, pdf, { x: vector.x, y: vector.y, width: vector.width, height: vector.height });
+    } catch (e) {
+      console.warn('Falling back to a raster image for an SVG the PDF could not draw.', e);
+      pdf.addImage(vector.fallback, vector.x, vector.y, vector.width, vector.height);
+    }
+  }
+};
+
+/** jsPDF only embeds PNG and JPEG; anything else (e.g. SVG placeholders) is rasterized first. */
+const rasterizeImages = async (markdown: string): Promise<Map<string, string>> => {
+  const images = new Map<string, string>();
+  const sources = [...markdown.matchAll(IMG_TAG)].map(([tag]) => getAttribute(tag, 'src'));
+  await Promise.all(sources.filter(src => src && !/^data:image\/(png|jpe?g);/i.test(src)).map(async src => {
+    try {
+      images.set(src, await rasterizeImage(src));
+    } catch (e) {
+      console.warn('Failed to rasterize an image for the PDF.', e);
+    }
+  }));
+  return images;
+};
+
+/** Typesets every formula up front, since laying out the text needs their sizes. */
+const renderFormulas = async (lexer: Marked, tokens: Token[]): Promise<Map<string, MathImage>> => {
+  const formulas = new Map<string, MathImage>();
+  const found = new Map<string, { tex: string; displayMode: boolean }>();
+  lexer.walkTokens(tokens, token => {
+    if (token.type === 'inlineMath' || token.type === 'blockMath') {
+      const tex = String(token.text);
+      const displayMode = token.type === 'blockMath';
+      found.set(formulaKey(tex, displayMode), { tex, displayMode });
+    }
+  });
+  await Promise.all([...found].map(async ([key, { tex, displayMode }]) => {
+    try {
+      formulas.set(key, await renderMathImage(tex, displayMode));
+    } catch (e) {
+      console.warn('Failed to typeset a formula for the PDF; it is printed as TeX instead.', e);
+    }
+  }));
+  return formulas;
+};
+
+const drawTitlePage = (state: LayoutState, title: string, subtitle: string) => {
+  const lines = wrapRuns(state, [{ text: title, bold: true }], 30, contentWidth(state));
+  const top = state.pageHeight * 0.35;
+  lines.forEach((line, i) => drawLine(state, line, (state.pageWidth - lineWidth(line)) / 2, top + i * 38, 30, TEXT_COLOR));
+  drawText(state, subtitle, {}, 13, state.pageWidth / 2, top + lines.length * 38 + 16, MUTED_COLOR, 'center');
+};
+
+const drawTableOfContents = (state: LayoutState, firstPage: number, entries: PlacedHeading[]) => {
+  const { pdf } = state;
+  const perPage = Math.floor((contentBottom(state) - contentTop() - 40) / TOC_LINE_HEIGHT);
+  // Titles start at the start margin and page numbers end at the other one.
+  const end = startEdge(state, contentWidth(state));
+  entries.forEach((entry, i) => {
+    const page = firstPage + Math.floor(i / perPage);
+    pdf.setPage(page);
+    if (i % perPage === 0) {
+      drawText(state, 'Contents', { bold: true }, 20, startEdge(state, 0), contentTop() + 20, TEXT_COLOR, state.rtl ? 'right' : 'left');
+    }
+    const y = contentTop() + 40 + (i % perPage) * TOC_LINE_HEIGHT;
+    const indent = (entry.depth - 1) * 16;
+    const pageLabel = String(entry.page);
+    const fontSize = entry.depth === 1 ? 11.5 : 10.5;
+    const maxTitleWidth = contentWidth(state) - indent - 40;
+    const [title = []] = wrapRuns(state, [{ text: entry.text, bold: entry.depth === 1 }], fontSize, maxTitleWidth);
+    drawLine(state, title, state.rtl ? startEdge(state, indent) - lineWidth(title) : startEdge(state, indent), y + 12, fontSize, TEXT_COLOR);
+    drawText(state, pageLabel, { bold: entry.depth === 1 }, fontSize, end, y + 12, TEXT_COLOR, state.rtl ? 'left' : 'right');
+    pdf.link(textLeft(state, indent), y, contentWidth(state) - indent, TOC_LINE_HEIGHT, { pageNumber: entry.page, top: entry.y });
+  });
+};
+
+const drawPageChrome = (state: LayoutState, title: string) => {
+  const { pdf } = state;
+  const total = pdf.getNumberOfPages();
+  const [header = []] = wrapRuns(state, [{ text: title }], 9, contentWidth(state));
+  for (let page = 2; page <= total; page++) {
+    pdf.setPage(page);
+    drawLine(state, header, state.rtl ? startEdge(state, 0) - lineWidth(header) : startEdge(state, 0), MARGIN, 9, MUTED_COLOR);
+    pdf.setDrawColor('#e5e7eb');
+    pdf.line(MARGIN, MARGIN + 6, MARGIN + contentWidth(state), MARGIN + 6);
+    drawText(state, `Page ${page} of ${total}`, {}, 9, state.pageWidth / 2, state.pageHeight - MARGIN / 2, MUTED_COLOR, 'center');
+  }
+};
+
+/** Mirrors the heading hierarchy into PDF bookmarks, nesting H2 under H1 and H3 under H2. */
+const addBookmarks = (pdf: jsPDF, headings: PlacedHeading[]) => {
+  const parents: (ReturnType<jsPDF['outline']['add']> | null)[] = [null, null, null, null];
+  for (const heading of headings) {
+    const parent = parents.slice(0, heading.depth).reverse().find(Boolean) ?? null;
+    parents[heading.depth] = pdf.outline.add(parent, heading.text, { pageNumber: heading.page });
+    parents.fill(null, heading.depth + 1);
+  }
+};
+
+/**
+ * Lays out a study book as a paginated PDF with selectable text: a title page,
+ * a clickable table of contents, the content with page breaks between blocks,
+ * the references, running headers, page numbers and H1–H3 bookmarks. Text
+ * outside Latin-1 is drawn in embedded Noto fonts, right-to-left books are laid
+ * out from the right, and formulas are typeset with KaTeX.
+ * @param markdown The study book's markdown content.
+ * @param options The document title, its sources, the citation style for the references and the book's language.
+ * @returns A promise that resolves to the finished document.
+ */
+export const buildStudyBookPdf = async (markdown: string, options: PdfExportOptions): Promise<jsPDF> => {
+  const pdf = new jsPDF({ orientation: 'p', unit: 'pt', format: 'a4' });
+  pdf.setProperties({ title: options.title, creator: 'AI Study Book Generator' });
+  pdf.setLanguage(options.language as Parameters<jsPDF['setLanguage']>[0]);
+  pdf.setLineWidth(0.5);
+
+  const references = options.sources.map((source, i) => formatReference(source, i, options.citationStyle));
+  const subtitle = `Study Book  ·  ${new Date().toLocaleDateString()}`;
+  const lexer = new Marked(mathExtension, { gfm: true, breaks: true });
+  const tokens = lexer.lexer(replaceCalloutMarkers(markdown));
+
+  const state: LayoutState = {
+    pdf,
+    y: contentTop(),
+    pageWidth: pdf.internal.pageSize.getWidth(),
+    pageHeight: pdf.internal.pageSize.getHeight(),
+    images: await rasterizeImages(markdown),
+    slug: createSlugger(),
+    anchors: new Map(),
+    pendingLinks: [],
+    pendingVectors: [],
+    headings: [],
+    fonts: await loadPdfFonts(pdf, [options.title, subtitle, markdown, ...references].join('\n'), options.language),
+    rtl: textDirection(options.language) === 'rtl',
+    formulas: await renderFormulas(lexer, tokens),
+  };
+
+  drawTitlePage(state, options.title, subtitle);
+
+  // Reserve pages for the table of contents; page numbers are only known after layout.
+  // The References heading drawn after the content gets an entry too.
+  const tocEntryCount = extractHeadings(markdown).filter(heading => heading.depth <= 3).length + (options.sources.length > 0 ? 1 : 0);
+  const tocPerPage = Math.floor((contentBottom(state) - contentTop() - 40) / TOC_LINE_HEIGHT);
+  const tocPages = Math.ceil(tocEntryCount / tocPerPage);
+  for (let i = 0; i < tocPages; i++) pdf.addPage();
+
+  newPage(state);
+  drawBlocks(state, tokens);
+
+  if (options.sources.length > 0) {
+    newPage(state);
+    drawHeading(state, { type: 'heading', raw: '## References', depth: 2, text: 'References', tokens: [{ type: 'text', raw: 'References', text: 'References' }] });
+    options.sources.forEach((source, i) => {
+      state.anchors.set(referenceAnchor(i), { page: currentPage(state), y: state.y });
+      const label = options.citationStyle === 'ieee' ? '' : `${i + 1}. `;
+      const runs = (label + references[i])
+        .split(source.uri)
+        .flatMap((part, index): Run[] => (index === 0 ? [{ text: part }] : [{ text: source.uri, href: source.uri }, { text: part }]));
+      drawRuns(state, runs, { fontSize: BODY_SIZE - 1 });
+      state.y += 6;
+    });
+  }
+
+  for (const link of state.pendingLinks) {
+    const target = state.anchors.get(link.anchor);
+    if (!target) continue;
+    pdf.setPage(link.page);
+    pdf.link(link.x, link.y, link.w, link.h, { pageNumber: target.page, top: target.y });
+  }
+
+  const tocHeadings = state.headings.filter(heading => heading.depth <= 3);
+  if (tocPages > 0) drawTableOfContents(state, 2, tocHeadings.slice(0, tocPages * tocPerPage));
+  drawPageChrome(state, options.title);
+  addBookmarks(pdf, tocHeadings);
+  await drawVectors(state);
+
+  return pdf;
+};
@@ -0,0 +1,343 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type jsPDF } from 'jspdf';
+
+/** The Noto fonts as TTF files, the only format jsPDF can embed. */
+const FONT_CDN_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+const STYLE_FILES: Record<FontStyle, string> = {
+  normal: '400Regular',
+  bold: '700Bold',
+  italic: '400Regular_Italic',
+  bolditalic: '700Bold_Italic',
+};
+
+interface NotoFamily {
+  /** The font's file name prefix, also its name in jsPDF and CSS. */
+  name: string;
+  /** The npm package with its TTF files, with the version. */
+  pkg: string;
+  styles: FontStyle[];
+  /** The characters the family is loaded for; the body and code families are loaded for any text the built-in fonts can't draw. */
+  characters?: RegExp;
+}
+
+const BODY_FAMILY: NotoFamily = { name: 'NotoSans', pkg: 'noto-sans@0.4.2', styles: ['normal', 'bold', 'italic', 'bolditalic'] };
+const CODE_FAMILY: NotoFamily = { name: 'NotoSansMono', pkg: 'noto-sans-mono@0.4.2', styles: ['normal', 'bold'] };
+
+const HAN_CHARACTERS = /[\u2E80-\u2FDF\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+/** Han characters are drawn differently from region to region, so the book's language picks the font for them. */
+const hanFamily = (language: string): NotoFamily => {
+  const region = /^ja\b/i.test(language) ? 'JP' : /^ko\b/i.test(language) ? 'KR' : /^zh-(TW|HK|MO|Hant)\b/i.test(language) ? 'TC' : 'SC';
+  return { name: `NotoSans${region}`, pkg: `noto-sans-${region.toLowerCase()}@0.4.3`, styles: ['normal'], characters: HAN_CHARACTERS };
+};
+
+/** The families for other scripts and symbols, in the order they are tried for a character the text font lacks. */
+const fallbackFamilies = (language: string): NotoFamily[] => [
+  { name: 'NotoSansArabic', pkg: 'noto-sans-arabic@0.4.3', styles: ['normal', 'bold'], characters: /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/ },
+  { name: 'NotoSansHebrew', pkg: 'noto-sans-hebrew@0.4.1', styles: ['normal', 'bold'], characters: /[\u0590-\u05FF\uFB1D-\uFB4F]/ },
+  { name: 'NotoSansKR', pkg: 'noto-sans-kr@0.4.3', styles: ['normal'], characters: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/ },
+  hanFamily(language),
+  { name: 'NotoSansMath', pkg: 'noto-sans-math@0.4.2', styles: ['normal'], characters: /[\u2100-\u2BFF\u{1D400}-\u{1D7FF}]/u },
+];
+
+/**
+ * Scripts whose letters change shape and order as they combine, which jsPDF
+ * can't do; the browser draws text in them, and it goes into the PDF as images.
+ */
+const COMPLEX_SCRIPTS = /[\u0900-\u0DFF\u0F00-\u0FFF\u1000-\u109F\u1780-\u17FF\uA8E0-\uA8FF]/;
+const DEVANAGARI_FAMILY: NotoFamily = { name: 'NotoSansDevanagari', pkg: 'noto-sans-devanagari@0.4.1', styles: ['normal', 'bold'], characters: /[\u0900-\u097F\uA8E0-\uA8FF]/ };
+const CSS_FONT_FAMILIES = '"NotoSansDevanagari", "Noto Sans", sans-serif';
+
+const fontUrl = (family: NotoFamily, style: FontStyle) =>
+  `${FONT_CDN_URL}/${family.pkg}/${STYLE_FILES[style]}/${family.name}_${STYLE_FILES[style]}.ttf`;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/** Font files by URL, fetched once per session; a failed fetch is tried again next time. */
+const fontFiles = new Map<string, Promise<ArrayBuffer>>();
+
+const fetchFont = (url: string): Promise<ArrayBuffer> => {
+  if (!fontFiles.has(url)) {
+    fontFiles.set(url, fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load the font ${url} (${response.status}).`);
+        return response.arrayBuffer();
+      })
+      .catch(error => {
+        fontFiles.delete(url);
+        throw error;
+      }));
+  }
+  return fontFiles.get(url)!;
+};
+
+/** A stretch of text in one font, in drawing order (right-to-left text is already reversed), measured in points. */
+export interface TextSegment {
+  text: string;
+  fontName: string;
+  fontStyle: string;
+  fontSize: number;
+  width: number;
+  /** For text no embedded font can draw, e.g. Devanagari: the CSS font it is drawn in, as an image. */
+  cssFont?: string;
+}
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export interface PdfFonts {
+  /**
+   * Splits text into the stretches that each draw in one font.
+   * @param rtl Whether the text around it runs right to left, which decides where neutral characters such as punctuation go.
+   */
+  segments: (text: string, style: TextStyle, fontSize: number, rtl?: boolean) => TextSegment[];
+}
+
+const fontStyle = ({ bold, italic }: TextStyle): FontStyle =>
+  bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': ' - ', '−': '-', '…': '...',
+  '→': '->', '←': '<-', '↔': '<->', '⇒': '=>',
+  '≤': '<=', '≥': '>=', '≠': '!=', '≈': '~',
+  '\u00a0': ' ', '\u200b': '',
+};
+
+/** Text the built-in fonts can draw, given the fallbacks above. */
+const BUILT_IN_TEXT = /^[\u0000-\u00ff‘’“”–—−…→←↔⇒≤≥≠≈\u200b]*$/;
+
+/**
+ * The built-in PDF fonts only cover Latin-1, so map common typographic
+ * characters to ASCII equivalents instead of letting them render as garbage.
+ */
+const toPdfText = (text: string) =>
+  text
+    .replace(/[‘’“”–—−…→←↔⇒≤≥≠≈\u00a0\u200b]/g, char => CHARACTER_FALLBACKS[char]);
+
+/** Helvetica and Courier, for text that needs nothing more; they add nothing to the file. */
+const builtInFonts = (pdf: jsPDF): PdfFonts => ({
+  segments: (text, style, fontSize) => {
+    const pdfText = toPdfText(text);
+    const fontName = style.code ? 'courier' : 'helvetica';
+    pdf.setFont(fontName, fontStyle(style));
+    pdf.setFontSize(fontSize);
+    return pdfText ? [{ text: pdfText, fontName, fontStyle: fontStyle(style), fontSize, width: pdf.getTextWidth(pdfText) }] : [];
+  },
+});
+
+const RTL_RANGES = '\\u0590-\\u08FF\\uFB1D-\\uFDFF\\uFE70-\\uFEFF';
+const RTL_CHARACTER = new RegExp(`[${RTL_RANGES}]`);
+const LTR_CHARACTER = new RegExp(`(?![${RTL_RANGES}])[\\p{L}\\p{N}]`, 'u');
+/** Right-to-left letters with the spaces, digits and punctuation between them. */
+const RTL_STRETCH = new RegExp(`[${RTL_RANGES}](?:[^\\p{L}]*[${RTL_RANGES}])*`, 'gu');
+/** In right-to-left text, the left-to-right words and numbers, a character with its marks, or a number. */
+const RTL_TEXT_PARTS = new RegExp(`${LTR_CHARACTER.source}(?:[^\\p{L}\\p{N}]*${LTR_CHARACTER.source})*|\\P{M}\\p{M}*`, 'gu');
+const NUMBER_OR_CHARACTER = /\p{N}+(?:[.,:]\p{N}+)*|\P{M}\p{M}*/gu;
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+
+const reverseParts = (parts: string[]) => parts.reverse().map(part => MIRRORED[part] ?? part).join('');
+
+/** `rtl` for a word with right-to-left letters, `ltr` for other letters or digits, and null for spaces and punctuation. */
+const wordDirection = (text: string): 'ltr' | 'rtl' | null =>
+  RTL_CHARACTER.test(text) ? 'rtl' : LTR_CHARACTER.test(text) ? 'ltr' : null;
+
+/**
+ * Puts the words of a line in the order they are drawn, left to right: in a
+ * right-to-left line the words run from the right, except that stretches of
+ * left-to-right words keep their order, and vice versa. Spaces and punctuation
+ * between words of one direction go with them, and otherwise follow the line.
+ */
+export const visualOrder = <T extends { text: string }>(items: T[], rtl: boolean): T[] => {
+  const base = rtl ? 'rtl' : 'ltr';
+  const directions = items.map(item => wordDirection(item.text));
+  const runs: { direction: 'ltr' | 'rtl'; items: T[] }[] = [];
+  items.forEach((item, i) => {
+    let direction = directions[i];
+    if (!direction) {
+      const before = directions.slice(0, i).reverse().find(Boolean) ?? base;
+      const after = directions.slice(i + 1).find(Boolean) ?? base;
+      direction = before === after ? before : base;
+    }
+    const last = runs[runs.length - 1];
+    if (last?.direction === direction) last.items.push(item);
+    else runs.push({ direction, items: [item] });
+  });
+  return (rtl ? runs.reverse() : runs).flatMap(run => (run.direction === 'rtl' ? run.items.reverse() : run.items));
+};
+
+interface LoadedFamily {
+  name: string;
+  styles: FontStyle[];
+  /** The glyph index of each character the font has. */
+  glyphs: Record<number, number>;
+}
+
+const addFamily = async (pdf: jsPDF, family: NotoFamily): Promise<LoadedFamily> => {
+  const files = await Promise.all(family.styles.map(style => fetchFont(fontUrl(family, style))));
+  family.styles.forEach((style, i) => {
+    const fileName = `${family.name}_${STYLE_FILES[style]}.ttf`;
+    pdf.addFileToVFS(fileName, toBase64(files[i]));
+    pdf.addFont(fileName, family.name, style);
+  });
+  pdf.setFont(family.name, 'normal');
+  return { name: family.name, styles: family.styles, glyphs: pdf.getFont().metadata.cmap.unicode.codeMap };
+};
+
+/** The closest style a family has: bold for bold italic, regular for the rest. */
+const closestStyle = (family: LoadedFamily, style: FontStyle): FontStyle =>
+  family.styles.includes(style) ? style : style === 'bolditalic' && family.styles.includes('bold') ? 'bold' : 'normal';
+
+/** Makes the browser's fonts ready for the scripts drawn as images; they fall back to system fonts if not. */
+const loadCssFonts = async (text: string) => {
+  if (typeof FontFace === 'undefined' || !DEVANAGARI_FAMILY.characters!.test(text)) return;
+  await Promise.all(DEVANAGARI_FAMILY.styles.map(async style => {
+    try {
+      const face = new FontFace(DEVANAGARI_FAMILY.name, await fetchFont(fontUrl(DEVANAGARI_FAMILY, style)), { weight: style === 'bold' ? '700' : '400' });
+      document.fonts.add(await face.load());
+    } catch (e) {
+      console.warn('Failed to load a font for Devanagari text in the PDF.', e);
+    }
+  }));
+};
+
+/** The Noto fonts, with each character drawn in the first family that has it. */
+const unicodeFonts = (pdf: jsPDF, body: LoadedFamily, code: LoadedFamily, fallbacks: LoadedFamily[]): PdfFonts => {
+  const canvas = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+
+  /**
+   * Shapes Arabic letters and reverses the right-to-left parts, so the text
+   * reads correctly drawn left to right. Left-to-right words keep their
+   * punctuation where it is, also in right-to-left text.
+   */
+  const toDrawingOrder = (text: string, rtl: boolean) => {
+    if (!RTL_CHARACTER.test(text) && (!rtl || LTR_CHARACTER.test(text))) return text;
+    const shaped = pdf.processArabic(text);
+    return rtl
+      ? reverseParts(shaped.match(RTL_TEXT_PARTS) ?? [])
+      : shaped.replace(RTL_STRETCH, stretch => reverseParts(stretch.match(NUMBER_OR_CHARACTER) ?? []));
+  };
+
+  return {
+    segments: (text, style, fontSize, rtl = false) => {
+      const primary = style.code ? code : body;
+      const families = [primary, ...fallbacks, body];
+      const segments: TextSegment[] = [];
+      let current: LoadedFamily | 'css' | null = null;
+      let buffer = '';
+
+      const flush = () => {
+        if (!buffer || !current) return;
+        if (current === 'css') {
+          const cssFont = `${style.bold ? 700 : 400} ${fontSize}px ${CSS_FONT_FAMILIES}`;
+          canvas!.font = cssFont;
+          segments.push({ text: buffer, fontName: body.name, fontStyle: 'normal', fontSize, width: canvas!.measureText(buffer).width, cssFont });
+        } else {
+          const familyStyle = closestStyle(current, fontStyle(style));
+          pdf.setFont(current.name, familyStyle);
+          pdf.setFontSize(fontSize);
+          segments.push({ text: buffer, fontName: current.name, fontStyle: familyStyle, fontSize, width: pdf.getTextWidth(buffer) });
+        }
+        buffer = '';
+      };
+
+      for (const char of toDrawingOrder(text, rtl)) {
+        const codePoint = char.codePointAt(0)!;
+        let family: LoadedFamily | 'css' | null;
+        if (COMPLEX_SCRIPTS.test(char) && canvas) {
+          family = 'css';
+        } else if (current && (/[\p{M}\s]/u.test(char) || (current !== 'css' && current.glyphs[codePoint]))) {
+          // Marks and spaces stay with the text they belong to.
+          family = current;
+        } else {
+          family = families.find(f => f.glyphs[codePoint]) ?? (canvas ? 'css' : primary);
+        }
+        if (family !== current) {
+          flush();
+          current = family;
+        }
+        buffer += char;
+      }
+      flush();
+      return segments;
+    },
+  };
+};
+
+/**
+ * Embeds the fonts the text needs: the built-in Helvetica and Courier when it
+ * is all Latin-1, and otherwise Noto Sans and Noto Sans Mono, plus the Noto
+ * fonts for the Arabic, Hebrew, Korean and Han characters and the symbols in it.
+ * Falls back to the built-in fonts if the Noto fonts can't be loaded.
+ * @param pdf The document to embed the fonts in.
+ * @param text All the text the document will contain.
+ * @param language The book's language tag, which picks the font for Han characters.
+ */
+export const loadPdfFonts = async (pdf: jsPDF, text: string, language: string): Promise<PdfFonts> => {
+  if (BUILT_IN_TEXT.test(text)) return builtInFonts(pdf);
+  const needed = fallbackFamilies(language)
+    .filter(family => family.characters!.test(text))
+    .filter((family, i, all) => all.findIndex(other => other.name === family.name) === i);
+  try {
+    const [body, code, fallbacks] = await Promise.all([
+      addFamily(pdf, BODY_FAMILY),
+      addFamily(pdf, CODE_FAMILY),
+      Promise.all(needed.map(family => addFamily(pdf, family).catch(e => {
+        console.warn(`Failed to load ${family.name}; its characters may be missing from the PDF.`, e);
+        return null;
+      }))),
+      loadCssFonts(text),
+    ]);
+    return unicodeFonts(pdf, body, code, fallbacks.filter((family): family is LoadedFamily => family !== null));
+  } catch (e) {
+    console.warn('Falling back to the built-in PDF fonts, which only cover Latin-1.', e);
+    return builtInFonts(pdf);
+  }
+};
+
+/** Draws segments from `x` along the baseline; text drawn by the browser goes in as an image. */
+export const drawSegments = (pdf: jsPDF, segments: TextSegment[], x: number, baseline: number, color: string) => {
+  for (const segment of segments) {
+    if (segment.cssFont) {
+      drawTextImage(pdf, segment, x, baseline, color);
+    } else {
+      pdf.setFont(segment.fontName, segment.fontStyle);
+      pdf.setFontSize(segment.fontSize);
+      pdf.setTextColor(color);
+      pdf.text(segment.text, x, baseline);
+    }
+    x += segment.width;
+  }
+};
+
+const TEXT_IMAGE_SCALE = 4;
+
+const drawTextImage = (pdf: jsPDF, segment: TextSegment, x: number, baseline: number, color: string) => {
+  const ascent = segment.fontSize * 1.1;
+  const height = ascent + segment.fontSize * 0.5;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(segment.width * TEXT_IMAGE_SCALE));
+  canvas.height = Math.ceil(height * TEXT_IMAGE_SCALE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.scale(TEXT_IMAGE_SCALE, TEXT_IMAGE_SCALE);
+  ctx.font = segment.cssFont!;
+  ctx.fillStyle = color;
+  ctx.fillText(segment.text, 0, ascent);
+  pdf.addImage(canvas.toDataURL('image/png'), 'PNG', x, baseline - ascent, segment.width, height);
+};
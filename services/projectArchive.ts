@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { strToU8, strFromU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import { type SavedProject } from '../App';
+import { decodeDataUrl, imageExtension, readFileAsDataUrl } from './imageAssets';
+import { slugify } from './markdown';
+import { REVISION_KIND_LABELS, mapProjectContents, projectContents } from './revisionHistory';
+
+/*
+ * A project archive is a zip with a `manifest.json` and, per project, a
+ * `project.json` whose content, and that of its revisions, references its
+ * images by archive path (`src="archive:projects/1/images/image-1.png"`)
+ * instead of embedding them.
+ */
+
+const ARCHIVE_FORMAT = 'study-book-archive';
+/** Bump when the layout changes; readers reject archives newer than they understand. */
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const ASSET_REF_PREFIX = 'archive:';
+
+interface ArchivedAsset {
+  path: string;
+  mimeType: string;
+}
+
+interface ArchivedProjectEntry {
+  title: string;
+  /** Path of the project's JSON file. */
+  file: string;
+  assets: ArchivedAsset[];
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  projects: ArchivedProjectEntry[];
+}
+
+export interface ImportReport {
+  /** The projects to save, with displayable content and IDs that don't clash with the library. */
+  imported: SavedProject[];
+  /** Projects that were renamed to a new ID because one with theirs already existed. */
+  renumbered: number;
+  rejected: { title: string; reason: string }[];
+}
+
+const DATA_URL_SRC = /src="(data:([^;,"]+);base64,[^"]*)"/g;
+const ASSET_REF_SRC = new RegExp(`src="${ASSET_REF_PREFIX}([^"]+)"`, 'g');
+
+/**
+ * Packs projects into a portable archive.
+ * @param projects The projects to export, with displayable (`data:` URL) content.
+ * @returns A zip blob.
+ */
+export const buildProjectArchive = (projects: SavedProject[]): Blob => {
+  const files: Zippable = {};
+  const entries = projects.map((project, index): ArchivedProjectEntry => {
+    const folder = `projects/${index + 1}`;
+    const assets: ArchivedAsset[] = [];
+    const pathBySrc = new Map<string, string>();
+    const archived = mapProjectContents(project, content => content.replace(DATA_URL_SRC, (match, src: string, mimeType: string) => {
+      let path = pathBySrc.get(src);
+      if (!path) {
+        const decoded = decodeDataUrl(src);
+        if (!decoded) return match;
+        path = `${folder}/images/image-${assets.length + 1}.${imageExtension(mimeType)}`;
+        pathBySrc.set(src, path);
+        assets.push({ path, mimeType });
+        files[path] = [decoded.data, { level: 0 }];
+      }
+      return `src="${ASSET_REF_PREFIX}${path}"`;
+    }));
+    const file = `${folder}/project.json`;
+    files[file] = strToU8(JSON.stringify(archived, null, 2));
+    return { title: project.title, file, assets };
+  });
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    projects: entries,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+/** A file name for an archive of the given projects. */
+export const projectArchiveFileName = (projects: SavedProject[]) =>
+  projects.length === 1
+    ? `${slugify(projects[0].title) || 'study-book'}.studybook.zip`
+    : `study-books-${new Date().toISOString().slice(0, 10)}.studybook.zip`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/** Checks that a revision has what the version history shows, compares and restores. */
+const isValidRevision = (value: unknown): boolean =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.kind === 'string' && Object.hasOwn(REVISION_KIND_LABELS, value.kind)
+  && typeof value.createdAt === 'number'
+  && (value.updatedAt === undefined || typeof value.updatedAt === 'number')
+  && isStringArray(value.changes)
+  && isRecord(value.formData)
+  && ['topic', 'subtopic', 'guide', 'references'].every(field => typeof (value.formData as Record<string, unknown>)[field] === 'string')
+  && isRecord(value.result) && typeof value.result.content === 'string' && Array.isArray(value.result.sources);
+
+/** Checks the shape of an archived project. @returns Why it is invalid, or null if it is fine. */
+const validateProject = (value: unknown): string | null => {
+  if (!isRecord(value)) return 'The project data is not an object.';
+  if (typeof value.title !== 'string') return 'The project has no title.';
+  if (typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)) return 'The project has no valid ID.';
+  const { formData, result } = value;
+  if (!isRecord(formData) || typeof formData.topic !== 'string' || typeof formData.subtopic !== 'string') return 'The project has no valid form data.';
+  if (!isRecord(result) || typeof result.content !== 'string') return 'The project has no content.';
+  if (!Array.isArray(result.sources) || !result.sources.every(source => isRecord(source) && typeof source.title === 'string' && typeof source.uri === 'string')) {
+    return 'The project has invalid sources.';
+  }
+  if (result.chapters !== undefined && !Array.isArray(result.chapters)) return 'The project has invalid chapters.';
+  if (result.illustrations !== undefined && !isRecord(result.illustrations)) return 'The project has invalid illustrations.';
+  if (result.review !== undefined && !(isRecord(result.review) && isRecord(result.review.readability) && Array.isArray(result.review.findings))) {
+    return 'The project has an invalid quality review.';
+  }
+  if (value.studyAids !== undefined && !(isRecord(value.studyAids) && Array.isArray(value.studyAids.questions) && Array.isArray(value.studyAids.flashcards))) {
+    return 'The project has invalid study aids.';
+  }
+  if (value.annotations !== undefined && !(Array.isArray(value.annotations) && value.annotations.every(annotation => isRecord(annotation) && typeof annotation.id === 'string' && typeof annotation.quote === 'string'))) {
+    return 'The project has invalid highlights.';
+  }
+  if (value.chat !== undefined && !(Array.isArray(value.chat) && value.chat.every(message => isRecord(message) && (message.role === 'user' || message.role === 'assistant') && typeof message.text === 'string'))) {
+    return 'The project has an invalid chat history.';
+  }
+  if (value.tags !== undefined && !isStringArray(value.tags)) return 'The project has invalid tags.';
+  if (value.folder !== undefined && typeof value.folder !== 'string') return 'The project has an invalid folder.';
+  if (value.revisions !== undefined && !(Array.isArray(value.revisions) && value.revisions.every(isValidRevision))) {
+    return 'The project has an invalid revision history.';
+  }
+  if (value.template !== undefined && !(isRecord(value.template) && typeof value.template.name === 'string' && typeof value.template.version === 'number')) {
+    return 'The project has an invalid template.';
+  }
+  return null;
+};
+
+/** Reads the manifest, throwing if the file is not an archive this version can read. */
+const readManifest = (files: Record<string, Uint8Array>): ArchiveManifest => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch {
+    throw new Error('This file is not a study book archive.');
+  }
+  if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT || typeof manifest.version !== 'number' || !Array.isArray(manifest.projects)) {
+    throw new Error('This file is not a study book archive.');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`This archive was made by a newer version of the app (format version ${manifest.version}). Please update and try again.`);
+  }
+  return manifest as unknown as ArchiveManifest;
+};
+
+/**
+ * Unpacks a project archive. Invalid projects are reported rather than
+ * failing the whole import, and projects whose ID is already taken get a new one.
+ * @param file The archive the user picked.
+ * @param existingIds The IDs (timestamps) of the projects already in the library.
+ * @returns A promise that resolves to the projects to save and what was rejected.
+ */
+export const readProjectArchive = async (file: Blob, existingIds: Iterable<number>): Promise<ImportReport> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('This file is not a valid zip archive.');
+  }
+  const manifest = readManifest(files);
+
+  const takenIds = new Set(existingIds);
+  const report: ImportReport = { imported: [], renumbered: 0, rejected: [] };
+  const reject = (title: unknown, reason: string) =>
+    report.rejected.push({ title: typeof title === 'string' && title ? title : 'Untitled project', reason });
+
+  for (const entry of manifest.projects) {
+    if (!isRecord(entry) || typeof entry.file !== 'string' || !files[entry.file]) {
+      reject(isRecord(entry) ? entry.title : undefined, 'Its project file is missing from the archive.');
+      continue;
+    }
+    let project: unknown;
+    try {
+      project = JSON.parse(strFromU8(files[entry.file]));
+    } catch {
+      reject(entry.title, 'Its project file is not valid JSON.');
+      continue;
+    }
+    const problem = validateProject(project);
+    if (problem) {
+      reject(entry.title, problem);
+      continue;
+    }
+    const validProject = project as SavedProject;
+
+    const mimeTypes = new Map((Array.isArray(entry.assets) ? entry.assets as ArchivedAsset[] : []).map(asset => [asset.path, asset.mimeType]));
+    const paths = [...new Set(projectContents(validProject).flatMap(content => [...content.matchAll(ASSET_REF_SRC)].map(([, path]) => path)))];
+    const missing = paths.filter(path => !files[path] || !mimeTypes.has(path));
+    if (missing.length > 0) {
+      reject(validProject.title, `${missing.length} of its images ${missing.length === 1 ? 'is' : 'are'} missing from the archive.`);
+      continue;
+    }
+    const dataUrls = new Map<string, string>();
+    for (const path of paths) {
+      dataUrls.set(path, await readFileAsDataUrl(new Blob([files[path]], { type: mimeTypes.get(path) })));
+    }
+    const restored = mapProjectContents(validProject, content => content.replace(ASSET_REF_SRC, (_, path: string) => `src="${dataUrls.get(path)}"`));
+
+    let timestamp = validProject.timestamp;
+    if (takenIds.has(timestamp)) {
+      timestamp = Date.now();
+      while (takenIds.has(timestamp)) timestamp++;
+      report.renumbered++;
+    }
+    takenIds.add(timestamp);
+    report.imported.push({ ...restored, timestamp });
+  }
+  return report;
+};
@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type GenerationJob, type SavedProject } from '../App';
+import { readFileAsDataUrl } from './imageAssets';
+import { historyOf, mapProjectContents, projectContents, recordRevision, type RevisionKind } from './revisionHistory';
+
+/*
+ * Projects live in IndexedDB. Embedded images are pulled out of the markdown
+ * into their own store as blobs, and the markdown keeps `idb-image:<key>`
+ * references in their place. Records in the `projects` store (and the list
+ * returned by `listProjects`) are therefore "dehydrated": fine for titles,
+ * tags and study aids, but `getProject` must be used to get displayable content.
+ *
+ * A project's revisions hold images the same way, and share the stored blob
+ * of any image that appears in more than one of them.
+ *
+ * Unfinished generations are kept in the `jobs` store as they are, images
+ * included, since they only live until the generation finishes.
+ */
+
+const DB_NAME = 'studyBookLibrary';
+const DB_VERSION = 2;
+const PROJECTS = 'projects';
+const IMAGES = 'images';
+const JOBS = 'jobs';
+const LEGACY_STORAGE_KEY = 'studyBookProjects';
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+interface StoredImage {
+  key: string;
+  projectId: number;
+  blob: Blob;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs writes one at a time. Updates read before they write, and some hash
+ * images in between, so overlapping writes could otherwise undo each other.
+ */
+const serialize = <T>(write: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(write, write);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore(PROJECTS, { keyPath: 'timestamp' });
+        db.createObjectStore(IMAGES, { keyPath: 'key' }).createIndex('projectId', 'projectId');
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore(JOBS, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+});
+
+/** True for the error browsers throw when the site's storage quota is used up. */
+/** True if a project to change no longer exists, e.g. because it was deleted meanwhile. */
+export const isMissingProjectError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'NotFoundError';
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const DATA_URL_SRC = /src="(data:([^;,"]+);base64,([^"]*))"/g;
+const IMAGE_REF_SRC = new RegExp(`src="${IMAGE_REF_PREFIX}([^"]+)"`, 'g');
+
+const hashBytes = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest).slice(0, 12), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Moves every `data:` image out of the project's markdown, and its revisions',
+ * into blobs keyed by content hash, so unchanged images are never stored twice.
+ * @returns The record to store, its new images, and the keys of every image it references.
+ */
+const dehydrate = async (project: SavedProject): Promise<{ record: SavedProject; images: StoredImage[]; referencedKeys: Set<string> }> => {
+  const images = new Map<string, StoredImage>();
+  const keyBySrc = new Map<string, string>();
+  const referencedKeys = new Set<string>();
+  for (const content of projectContents(project)) {
+    for (const [, key] of content.matchAll(IMAGE_REF_SRC)) referencedKeys.add(key);
+    for (const [, src, mimeType, base64] of content.matchAll(DATA_URL_SRC)) {
+      if (keyBySrc.has(src)) continue;
+      const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+      const key = `${project.timestamp}:${await hashBytes(bytes)}`;
+      keyBySrc.set(src, key);
+      referencedKeys.add(key);
+      images.set(key, { key, projectId: project.timestamp, blob: new Blob([bytes], { type: mimeType }) });
+    }
+  }
+  const record = mapProjectContents(project, content => content.replace(DATA_URL_SRC, (_, src: string) => `src="${IMAGE_REF_PREFIX}${keyBySrc.get(src)}"`));
+  return { record, images: [...images.values()], referencedKeys };
+};
+
+/**
+ * Lists every saved project, most recently updated first. The content of the
+ * returned projects has image references instead of images.
+ */
+export const listProjects = async (): Promise<SavedProject[]> => {
+  const db = await openDatabase();
+  const projects = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<SavedProject[]>);
+  return projects.sort((a, b) => (b.updatedAt ?? b.timestamp) - (a.updatedAt ?? a.timestamp));
+};
+
+/**
+ * Loads one project with its images restored as `data:` URLs.
+ * @param timestamp The project's key.
+ * @returns A promise that resolves to the project, or undefined if it doesn't exist.
+ */
+export const getProject = async (timestamp: number): Promise<SavedProject | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, IMAGES]);
+  const record = await requestResult(tx.objectStore(PROJECTS).get(timestamp) as IDBRequest<SavedProject | undefined>);
+  if (!record) return undefined;
+
+  const keys = [...new Set(projectContents(record).flatMap(content => [...content.matchAll(IMAGE_REF_SRC)].map(([, key]) => key)))];
+  const images = await Promise.all(keys.map(key => requestResult(tx.objectStore(IMAGES).get(key) as IDBRequest<StoredImage | undefined>)));
+  const dataUrls = new Map<string, string>();
+  for (const image of images) {
+    if (image) dataUrls.set(image.key, await readFileAsDataUrl(image.blob));
+  }
+  return mapProjectContents(record, content => content.replace(IMAGE_REF_SRC, (_, key: string) => `src="${dataUrls.get(key) ?? ''}"`));
+};
+
+const storeProject = async (project: SavedProject): Promise<SavedProject> => {
+  const { record, images, referencedKeys } = await dehydrate(project);
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  const imageStore = tx.objectStore(IMAGES);
+
+  imageStore.index('projectId').getAllKeys(project.timestamp).onsuccess = (e) => {
+    for (const key of (e.target as IDBRequest<IDBValidKey[]>).result) {
+      if (!referencedKeys.has(String(key))) imageStore.delete(key);
+    }
+  };
+  images.forEach(image => imageStore.put(image));
+  tx.objectStore(PROJECTS).put(record);
+  await transactionDone(tx);
+  return record;
+};
+
+/**
+ * Saves a project, storing its images as blobs and dropping images it no longer uses.
+ * @param project The project with displayable (`data:` URL) content.
+ * @returns A promise that resolves to the stored, dehydrated record.
+ */
+export const putProject = (project: SavedProject): Promise<SavedProject> => serialize(() => storeProject(project));
+
+/** Describes a change to a project's content for its revision history. */
+export interface RevisionNote {
+  kind: RevisionKind;
+  /** A short description of an edit, e.g. `Edited "Summary"`. */
+  change?: string;
+}
+
+/**
+ * Applies changes to a stored project. Metadata-only changes (title, tags,
+ * folder, study aids) don't touch the images.
+ * @param revision Records the changed result as a revision; the history is read and written in the same step, so quick edits can't lose each other's revisions.
+ * @returns A promise that resolves to the updated, dehydrated record.
+ */
+export const updateProject = (timestamp: number, changes: Partial<Omit<SavedProject, 'timestamp'>>, revision?: RevisionNote): Promise<SavedProject> => serialize(async () => {
+  const db = await openDatabase();
+  const current = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).get(timestamp) as IDBRequest<SavedProject | undefined>);
+  if (!current) throw new DOMException('The project no longer exists.', 'NotFoundError');
+  const now = Date.now();
+  const updated = { ...current, ...changes, updatedAt: now };
+  if (revision && changes.result) {
+    updated.revisions = recordRevision(historyOf(current), revision.kind, updated.formData, updated.result, revision.change, now);
+  }
+  if (changes.result || changes.revisions) return storeProject(updated);
+
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  tx.objectStore(PROJECTS).put(updated);
+  await transactionDone(tx);
+  return updated;
+});
+
+/** Deletes a project and all of its images. */
+export const deleteProject = (timestamp: number): Promise<void> => serialize(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, IMAGES], 'readwrite');
+  const imageStore = tx.objectStore(IMAGES);
+  tx.objectStore(PROJECTS).delete(timestamp);
+  imageStore.index('projectId').getAllKeys(timestamp).onsuccess = (e) => {
+    (e.target as IDBRequest<IDBValidKey[]>).result.forEach(key => imageStore.delete(key));
+  };
+  await transactionDone(tx);
+});
+
+/**
+ * Copies a project, images included, under a new key.
+ * @returns A promise that resolves to the new, dehydrated record.
+ */
+export const duplicateProject = async (timestamp: number): Promise<SavedProject> => {
+  const original = await getProject(timestamp);
+  if (!original) throw new DOMException('The project no longer exists.', 'NotFoundError');
+  const now = Date.now();
+  return putProject({ ...original, title: `${original.title} (copy)`, timestamp: now, updatedAt: now });
+};
+
+/**
+ * Moves projects saved by older versions from localStorage into IndexedDB. The
+ * localStorage copy is only removed once every project was stored, and an
+ * unreadable list is left alone rather than discarded.
+ * @returns A promise that resolves to the number of projects migrated.
+ */
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+  let projects: SavedProject[];
+  try {
+    projects = JSON.parse(saved);
+  } catch (e) {
+    console.error('Could not read the projects saved in localStorage; leaving them in place.', e);
+    return 0;
+  }
+  for (const project of projects) {
+    await putProject(project);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`Migrated ${projects.length} projects from localStorage to IndexedDB.`);
+  return projects.length;
+};
+
+/** Lists the unfinished generations, most recently active first. */
+export const listJobs = async (): Promise<GenerationJob[]> => {
+  const db = await openDatabase();
+  const jobs = await requestResult(db.transaction(JOBS).objectStore(JOBS).getAll() as IDBRequest<GenerationJob[]>);
+  return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Saves an unfinished generation, replacing its previous checkpoint. */
+export const putJob = (job: GenerationJob): Promise<void> => serialize(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(JOBS, 'readwrite');
+  tx.objectStore(JOBS).put(job);
+  await transactionDone(tx);
+});
+
+export const deleteJob = (id: number): Promise<void> => serialize(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(JOBS, 'readwrite');
+  tx.objectStore(JOBS).delete(id);
+  await transactionDone(tx);
+});
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/** Reports how much of the browser's storage quota the site uses, where the browser supports it. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+/** Asks the browser not to evict the library under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
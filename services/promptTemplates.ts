@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * The prompts of the generation pipeline, as templates with `{{variable}}`
+ * slots. A preset overrides some of them, e.g. to write lab manuals instead
+ * of study guides; whatever it leaves out falls back to the defaults here.
+ */
+
+export type PromptTemplateId = 'studyGuide' | 'classifyIllustrations' | 'rewriteDiagram' | 'rewritePhotograph';
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  /** Templates that leave out a required variable can't do their job, e.g. a classifier without the prompts to classify. */
+  required?: boolean;
+}
+
+export interface PromptTemplateDefinition {
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+  text: string;
+}
+
+/** A named set of template overrides the user picks on the start screen. */
+export interface PromptPreset {
+  id: string;
+  name: string;
+  description: string;
+  /** Incremented on every saved edit; projects record the version that produced them. */
+  version: number;
+  builtIn?: boolean;
+  /** Overrides of the default templates; the ones not listed use the defaults. */
+  templates: Partial<Record<PromptTemplateId, string>>;
+}
+
+/** Which preset, at which version, produced a project. */
+export interface TemplateStamp {
+  presetId: string;
+  name: string;
+  version: number;
+}
+
+/** Bump when the default templates change, so projects show which defaults they were made with. */
+export const DEFAULT_TEMPLATES_VERSION = 1;
+
+const STUDY_GUIDE_VARIABLES: TemplateVariable[] = [
+  { name: 'topic', description: 'The main topic.', required: true },
+  { name: 'subtopic', description: 'The subtopic.' },
+  { name: 'unit', description: 'What is being written: "study guide" or "chapter".' },
+  { name: 'chapterBrief', description: 'For a book chapter, its title, summary and the table of contents; empty for a guide.' },
+  { name: 'guide', description: 'The guiding instructions from the form.' },
+  { name: 'references', description: 'The books and sources listed in the form.' },
+  { name: 'sourceExcerpts', description: 'Excerpts of the uploaded documents with citation instructions; empty if there are none.' },
+  { name: 'requirements', description: 'The numbered content requirements from the form options: audience, depth, length, language, illustrations, tables and so on.' },
+];
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  studyGuide: {
+    label: 'Study guide',
+    description: 'Writes a study guide, or one chapter of a book, with image placeholders.',
+    variables: STUDY_GUIDE_VARIABLES,
+    text: `You are an expert educator and content creator. Your task is to generate a comprehensive, professional, and easy-to-understand study guide based on the user's request.
+
+**Main Topic:** {{topic}}
+**Subtopic:** {{subtopic}}
+{{chapterBrief}}
+**Guiding Instructions:**
+{{guide}}
+
+**Reference Books/Sources to consult:**
+{{references}}
+{{sourceExcerpts}}
+**Content Requirements:**
+{{requirements}}
+
+Generate the {{unit}} now.`,
+  },
+  classifyIllustrations: {
+    label: 'Illustration classifier',
+    description: 'Decides whether each image placeholder becomes a structured diagram, a drawn diagram or a photograph.',
+    variables: [
+      { name: 'topic', description: 'The main topic.' },
+      { name: 'subtopic', description: 'The subtopic.' },
+      { name: 'prompts', description: 'The numbered image placeholder prompts.', required: true },
+    ],
+    text: `For a study book on "{{topic}} - {{subtopic}}", analyze the following image prompts. For each prompt, decide if it's better suited as a "structured" diagram (for flowcharts, step-by-step processes, sequences of interactions, hierarchies, classifications, cycles and timelines: anything made of labelled boxes and arrows), a "diagram" (for other concepts and abstract ideas that need to be drawn, such as anatomy, apparatus or spatial layouts) or a "photograph" (for real-world examples, people, places, objects).
+
+Prompts:
+{{prompts}}
+
+Return your response as a JSON array of strings, where each string is "structured", "diagram" or "photograph", corresponding to each prompt in order. Example: ["structured", "photograph", "diagram"]`,
+  },
+  rewriteDiagram: {
+    label: 'Diagram prompt rewrite',
+    description: 'Turns a diagram placeholder into a detailed prompt for the image model.',
+    variables: [{ name: 'concept', description: 'The placeholder\'s prompt.', required: true }],
+    text: `You are an expert prompt engineer for a text-to-image AI model. Rewrite the following abstract concept for a study book diagram into a detailed, visual prompt. The new prompt must describe a visual scene with clear objects, layout, style, and colors. It should be an instruction to DRAW, not to write text or code.
+- Style: A minimalist, clean, modern, technical infographic diagram. Use a professional and limited color palette (e.g., blues, greens, grays). Ensure clear labels with a sans-serif font. The background MUST be solid white.
+- Content: Describe the shapes (rectangles, circles, arrows), the connections, and the text labels visually.
+- AVOID: Do not output code, markdown, or any non-visual instructions. The entire output must be a single, descriptive paragraph for the image model.
+
+**Original concept:** "{{concept}}"`,
+  },
+  rewritePhotograph: {
+    label: 'Photo prompt rewrite',
+    description: 'Turns a photograph placeholder into a detailed prompt for the image model.',
+    variables: [{ name: 'concept', description: 'The placeholder\'s prompt.', required: true }],
+    text: `You are an expert prompt engineer for a text-to-image AI model. Rewrite the following brief concept for a study book photograph into a detailed, visual prompt. The new prompt should describe a scene, subject, setting, lighting, composition, and mood to generate a photorealistic image.
+- Style: A high-quality, professional, photorealistic photograph suitable for an educational textbook. The image should be sharp, well-composed, and directly illustrative of the subject. Use natural or studio lighting as appropriate.
+- Content: Describe the scene, the main subject, any other objects, the environment, and the overall feeling.
+
+**Original concept:** "{{concept}}"`,
+  },
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+/** A study guide template with the standard request and requirements around a style section of its own. */
+const styledStudyGuide = (role: string, styleHeading: string, style: string) => `${role}
+
+**Main Topic:** {{topic}}
+**Subtopic:** {{subtopic}}
+{{chapterBrief}}
+**Guiding Instructions:**
+{{guide}}
+
+**Reference Books/Sources to consult:**
+{{references}}
+{{sourceExcerpts}}
+**${styleHeading}:**
+${style}
+
+**Content Requirements:**
+{{requirements}}
+
+Generate the {{unit}} now.`;
+
+export const DEFAULT_PRESET_ID = 'standard';
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: 'Standard study guide',
+    description: 'A comprehensive, readable study guide.',
+    version: DEFAULT_TEMPLATES_VERSION,
+    builtIn: true,
+    templates: {},
+  },
+  {
+    id: 'exam-cram',
+    name: 'Exam cram sheet',
+    description: 'Dense revision notes: must-know facts, memory aids and likely exam questions.',
+    version: DEFAULT_TEMPLATES_VERSION,
+    builtIn: true,
+    templates: {
+      studyGuide: styledStudyGuide(
+        'You are an expert tutor writing a last-minute exam cram sheet based on the user\'s request.',
+        'Cram Sheet Style',
+        `*   Be as dense as possible: terse bullet points instead of prose, and no introductions or filler.
+*   Put must-know definitions, formulas and rules in bold.
+*   Give memory aids (mnemonics, acronyms) for anything that must be memorized.
+*   End each section with a "Watch Out" list of common exam traps and mistakes.
+*   Finish with a "Likely Exam Questions" list, each with a one-line answer.`,
+      ),
+    },
+  },
+  {
+    id: 'lab-manual',
+    name: 'Lab manual',
+    description: 'Hands-on experiments with objectives, safety notes, procedures and analysis questions.',
+    version: DEFAULT_TEMPLATES_VERSION,
+    builtIn: true,
+    templates: {
+      studyGuide: styledStudyGuide(
+        'You are an experienced lab instructor writing a laboratory manual based on the user\'s request.',
+        'Lab Manual Style',
+        `*   Organize the material as a series of experiments or exercises that teach the topic hands-on.
+*   For each, give: Objectives, Background (the theory needed, briefly), Safety Notes, Materials and Equipment, a numbered Procedure, a Data Table to fill in, and Analysis Questions.
+*   Write procedure steps as short imperative sentences with quantities and settings.
+*   Call out expected results and common sources of error.`,
+      ),
+    },
+  },
+  {
+    id: 'case-study',
+    name: 'Case-study workbook',
+    description: 'Realistic cases with analysis frameworks, discussion questions and model answers.',
+    version: DEFAULT_TEMPLATES_VERSION,
+    builtIn: true,
+    templates: {
+      studyGuide: styledStudyGuide(
+        'You are an expert educator writing a case-study workbook based on the user\'s request.',
+        'Workbook Style',
+        `*   Teach each key idea through a realistic case: a short scenario with the facts, people and constraints involved.
+*   After each case, introduce the concept or framework needed to analyze it, then apply it step by step.
+*   End each case with Discussion Questions, followed by brief Model Answers.
+*   Close with a section comparing the cases and the lessons they share.`,
+      ),
+    },
+  },
+];
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills a template's `{{variable}}` slots.
+ * @param text The template.
+ * @param variables The values by variable name; slots without a value are left empty.
+ */
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(VARIABLE, (_, name: string) => variables[name] ?? '');
+
+/**
+ * Checks a template against the variables its step provides.
+ * @returns What is wrong with it; empty if nothing is.
+ */
+export const validateTemplate = (id: PromptTemplateId, text: string): string[] => {
+  const { variables } = PROMPT_TEMPLATES[id];
+  const used = new Set([...text.matchAll(VARIABLE)].map(([, name]) => name));
+  const problems: string[] = [];
+  if (!text.trim()) problems.push('The template is empty.');
+  used.forEach(name => {
+    if (!variables.some(variable => variable.name === name)) problems.push(`{{${name}}} is not a variable of this template.`);
+  });
+  variables.filter(variable => variable.required && !used.has(variable.name)).forEach(variable => {
+    problems.push(`The template must include {{${variable.name}}}.`);
+  });
+  return problems;
+};
+
+/** The template text each step uses under a preset. */
+export const resolveTemplates = (preset?: PromptPreset): Record<PromptTemplateId, string> =>
+  Object.fromEntries(PROMPT_TEMPLATE_IDS.map(id => [id, preset?.templates[id] ?? PROMPT_TEMPLATES[id].text])) as Record<PromptTemplateId, string>;
+
+/** What to record on a project about the preset that produced it. */
+export const templateStamp = (preset: PromptPreset = BUILT_IN_PRESETS[0]): TemplateStamp =>
+  ({ presetId: preset.id, name: preset.name, version: preset.version });
+
+const STORAGE_KEY = 'promptPresets';
+
+/** Loads the user's own presets. */
+export const loadCustomPresets = (): PromptPreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error('Failed to load prompt presets from localStorage:', e);
+    return [];
+  }
+};
+
+/**
+ * Saves the user's own presets.
+ * @throws If storage is full or unavailable, so the editor can say the edit wasn't kept.
+ */
+export const saveCustomPresets = (presets: PromptPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+};
@@ -0,0 +1,540 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * An optional review of a drafted study book. Readability and structure are
+ * checked locally; whether the text follows the guiding instructions, agrees
+ * with the listed references and backs its specific claims with a source is
+ * checked by the model. Findings about a section carry a fix, a revision the
+ * viewer can run on that section.
+ */
+
+import { marked, type Token, type Tokens } from 'marked';
+import { type FormData } from '../components/StartScreen';
+import { type RevisionAction, type StudyBookResult } from './geminiService';
+import { createModelProvider, type JsonSchema, type ModelProvider } from './modelProvider';
+import { splitSections, toPlainText, type Section } from './markdown';
+import { stripImages } from './imageAssets';
+import { resolveGenerationOptions, type Audience, type GenerationOptions } from './generationOptions';
+
+export type FindingKind = 'guide' | 'references' | 'grounding' | 'structure' | 'readability';
+
+/** Which section a finding is about: its position when the book was reviewed, and its heading to find it again after edits. */
+export interface SectionRef {
+  index: number;
+  /** As in `splitSections`; null for the text before the first heading. */
+  heading: string | null;
+}
+
+export interface SectionFix {
+  action: RevisionAction;
+  /** Passed to the revision as the reader's instructions. */
+  instructions: string;
+}
+
+export interface ReviewFinding {
+  id: string;
+  kind: FindingKind;
+  severity: 'warning' | 'info';
+  message: string;
+  /** Unset for findings about the book as a whole. */
+  section?: SectionRef;
+  /** The passage the finding is about, as written in the section. */
+  quote?: string;
+  fix?: SectionFix;
+  /** Set once the section has been revised to fix it. */
+  fixed?: boolean;
+}
+
+export interface ReadabilityScore {
+  words: number;
+  sentences: number;
+  syllables: number;
+  /** Flesch reading ease: higher is easier, 60-70 is plain English. */
+  readingEase: number;
+  /** Flesch-Kincaid grade level: the US school grade the text suits. */
+  gradeLevel: number;
+}
+
+export interface SectionReadability extends ReadabilityScore {
+  section: SectionRef;
+}
+
+export interface ReadabilityReport extends ReadabilityScore {
+  /** The reading level the grade corresponds to, e.g. "High school". */
+  level: string;
+  /** Set for languages other than English, which the formulas were not designed for. */
+  approximate: boolean;
+  sections: SectionReadability[];
+}
+
+export interface QualityReport {
+  reviewedAt: number;
+  readability: ReadabilityReport;
+  findings: ReviewFinding[];
+  /** Why the checks against the guide and references did not run, if they failed. */
+  modelCheckError?: string;
+}
+
+/** The grades each audience should read at; sections well outside them are flagged. */
+const TARGET_GRADES: Record<Audience, { min: number; max: number }> = {
+  'middle-school': { min: 4, max: 9 },
+  'high-school': { min: 7, max: 12.5 },
+  undergraduate: { min: 9, max: 16 },
+  graduate: { min: 11, max: 20 },
+};
+
+/** Sections shorter than this are too short for a meaningful score. */
+const MIN_SCORED_WORDS = 80;
+
+/** Caps the unsourced claims reported, so a book without sources doesn't bury the other findings. */
+const MAX_UNGROUNDED_CLAIMS = 15;
+
+const CITATION_MARKER = '](#ref-';
+
+let findingCount = 0;
+const createFindingId = () => `finding-${Date.now().toString(36)}-${(findingCount++).toString(36)}`;
+
+/** Estimates the syllables in an English word from its vowel groups. */
+const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const stem = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, stem.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+};
+
+/** The running text of some markdown: paragraphs and list items, without code, tables, headings, math or citation markers. */
+const proseOf = (markdown: string): string[] => {
+  const blocks: string[] = [];
+  const visit = (tokens: Token[]) => tokens.forEach(token => {
+    switch (token.type) {
+      case 'paragraph':
+        blocks.push(toPlainText((token as Tokens.Paragraph).tokens));
+        break;
+      case 'text': {
+        const text = token as Tokens.Text;
+        blocks.push(text.tokens ? toPlainText(text.tokens) : text.text);
+        break;
+      }
+      case 'list':
+        (token as Tokens.List).items.forEach(item => visit(item.tokens));
+        break;
+      case 'blockquote':
+        visit((token as Tokens.Blockquote).tokens);
+        break;
+    }
+  });
+  visit(marked.lexer(stripImages(markdown)));
+  return blocks
+    .map(block => block
+      .replace(/\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g, ' ')
+      .replace(/\[!\w[\w -]*\]/g, ' ')
+      .replace(/\[\d+\]/g, '')
+      .trim())
+    .filter(Boolean);
+};
+
+/**
+ * Scores text with the Flesch reading ease and Flesch-Kincaid grade formulas.
+ * @param blocks Paragraphs of plain text; each ends a sentence even without a full stop, as list items often do.
+ * @returns The score, with zero words for empty text.
+ */
+export const scoreReadability = (blocks: string[]): ReadabilityScore => {
+  let words = 0;
+  let sentences = 0;
+  let syllables = 0;
+  for (const block of blocks) {
+    const blockWords: string[] = block.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? [];
+    if (!blockWords.length) continue;
+    words += blockWords.length;
+    syllables += blockWords.reduce((sum, word) => sum + countSyllables(word), 0);
+    sentences += Math.max(1, block.split(/[.!?…。？！]+(?=\s|$)/).filter(sentence => sentence.trim()).length);
+  }
+  if (!words) return { words: 0, sentences: 0, syllables: 0, readingEase: 0, gradeLevel: 0 };
+  const wordsPerSentence = words / sentences;
+  const syllablesPerWord = syllables / words;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    words,
+    sentences,
+    syllables,
+    readingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    gradeLevel: round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59)),
+  };
+};
+
+/** Names the reading level of a Flesch-Kincaid grade. */
+export const readingLevel = (gradeLevel: number): string => {
+  if (gradeLevel < 6) return 'Elementary school';
+  if (gradeLevel < 9) return 'Middle school';
+  if (gradeLevel < 13) return 'High school';
+  if (gradeLevel < 17) return 'College';
+  return 'Graduate';
+};
+
+/** Describes a Flesch reading ease score, e.g. "Plain English" for 65. */
+export const readingEaseLabel = (readingEase: number): string => {
+  if (readingEase >= 80) return 'Easy';
+  if (readingEase >= 60) return 'Plain English';
+  if (readingEase >= 50) return 'Fairly difficult';
+  if (readingEase >= 30) return 'Difficult';
+  return 'Very difficult';
+};
+
+const isEnglish = (language: string) => /^en\b/i.test(language);
+
+/**
+ * Scores the readability of a study book as a whole and section by section.
+ * @param content The book's markdown.
+ * @param language The language it is written in.
+ */
+export const measureReadability = (content: string, language: string): ReadabilityReport => {
+  const sections = splitSections(content).map((section, index) => ({
+    section: { index, heading: section.heading },
+    ...scoreReadability(proseOf(section.markdown)),
+  }));
+  const overall = scoreReadability(proseOf(content));
+  return { ...overall, level: readingLevel(overall.gradeLevel), approximate: !isEnglish(language), sections };
+};
+
+/** Flags sections that read well above or below the audience's level. */
+const checkReadability = (readability: ReadabilityReport, audience: Audience): ReviewFinding[] => {
+  const target = TARGET_GRADES[audience];
+  return readability.sections
+    .filter(score => score.words >= MIN_SCORED_WORDS)
+    .flatMap((score): ReviewFinding[] => {
+      if (score.gradeLevel > target.max) {
+        return [{
+          id: createFindingId(),
+          kind: 'readability',
+          severity: 'warning',
+          section: score.section,
+          message: `Reads at grade ${score.gradeLevel}, harder than the grade ${target.min}-${target.max} this audience reads at.`,
+          fix: { action: 'simplify', instructions: `Bring the reading level down to about grade ${Math.round((target.min + target.max) / 2)}: shorter sentences and plainer words.` },
+        }];
+      }
+      if (score.gradeLevel < target.min && audience !== 'middle-school') {
+        return [{
+          id: createFindingId(),
+          kind: 'readability',
+          severity: 'info',
+          section: score.section,
+          message: `Reads at grade ${score.gradeLevel}, simpler than the grade ${target.min}-${target.max} this audience reads at.`,
+          fix: { action: 'regenerate', instructions: 'Write at a more advanced level, with the precise terminology the audience is expected to know.' },
+        }];
+      }
+      return [];
+    });
+};
+
+interface IndexedSection extends Section {
+  index: number;
+}
+
+const wordCount = (markdown: string) => proseOf(markdown).join(' ').split(/\s+/).filter(Boolean).length;
+
+const longest = (sections: IndexedSection[]) =>
+  sections.reduce<IndexedSection | undefined>((best, section) => (!best || wordCount(section.markdown) > wordCount(best.markdown) ? section : best), undefined);
+
+const refOf = (section: IndexedSection): SectionRef => ({ index: section.index, heading: section.heading });
+
+const hasToken = (markdown: string, type: string) => {
+  let found = false;
+  marked.walkTokens(marked.lexer(markdown), token => {
+    if (token.type === type) found = true;
+  });
+  return found;
+};
+
+const SUMMARY_PATTERN = /\b(key takeaways?|summary|in summary|recap|to sum up)\b/i;
+const WORKED_EXAMPLE_PATTERN = /\[!EXAMPLE\]|\b(worked example|example)\b/i;
+const GLOSSARY_PATTERN = /^#{1,6}\s+.*\b(key terms|glossary|vocabulary)\b/im;
+
+/**
+ * Checks that the structure the options asked for is there: headings, tables,
+ * worked examples, section summaries and a glossary. Checks that look for
+ * words such as "Key Takeaways" only run on English text.
+ * @param content The book's markdown.
+ * @param options The options it was generated with.
+ * @param isBook Whether it is a multi-chapter book, whose chapters are checked one by one.
+ */
+export const checkStructure = (content: string, options: GenerationOptions, isBook: boolean): ReviewFinding[] => {
+  const findings: ReviewFinding[] = [];
+  const sections: IndexedSection[] = splitSections(content).map((section, index) => ({ ...section, index }));
+  const english = isEnglish(options.language);
+  const add = (finding: Omit<ReviewFinding, 'id' | 'kind'>) => findings.push({ id: createFindingId(), kind: 'structure', ...finding });
+
+  // A book's units are its chapters, each starting at an H1; a guide is a single unit.
+  const units: IndexedSection[][] = [];
+  sections.forEach(section => {
+    if (!units.length || (isBook && section.depth === 1)) units.push([]);
+    units[units.length - 1].push(section);
+  });
+
+  for (const unit of units) {
+    const unitName = isBook && unit[0].depth === 1 ? `"${unit[0].heading}"` : 'The guide';
+    const bodySections = unit.filter(section => section.depth === 2);
+    const unitMarkdown = unit.map(section => section.markdown).join('\n\n');
+    const target = longest(bodySections.length ? bodySections : unit);
+    if (!target) continue;
+
+    if (bodySections.length < 2 && wordCount(unitMarkdown) > 400) {
+      add({
+        severity: 'warning',
+        section: refOf(target),
+        message: `${unitName} has ${bodySections.length ? 'only one section' : 'no section headings'}.`,
+        fix: { action: 'regenerate', instructions: 'Organize this into sections with clear H2 and H3 headings.' },
+      });
+    }
+    if (options.includeTables && !hasToken(unitMarkdown, 'table')) {
+      add({
+        severity: 'warning',
+        section: refOf(target),
+        message: `${unitName} has no table, though tables were asked for.`,
+        fix: { action: 'expand', instructions: 'Add a markdown table that compares or summarizes the key points of this section.' },
+      });
+    }
+    if (!english) continue;
+    if (options.includeWorkedExamples && !WORKED_EXAMPLE_PATTERN.test(unitMarkdown)) {
+      add({
+        severity: 'warning',
+        section: refOf(target),
+        message: `${unitName} has no worked example, though worked examples were asked for.`,
+        fix: { action: 'expand', instructions: 'Add a worked example that applies the key idea step by step.' },
+      });
+    }
+    if (options.includeGlossary && !GLOSSARY_PATTERN.test(unitMarkdown)) {
+      const last = unit[unit.length - 1];
+      add({
+        severity: 'warning',
+        section: refOf(last),
+        message: `${unitName} has no glossary, though one was asked for.`,
+        fix: { action: 'expand', instructions: 'End with a "Key Terms" subsection that defines the important terms used in this part.' },
+      });
+    }
+    if (options.includeSummaries) {
+      bodySections
+        .filter(section => !GLOSSARY_PATTERN.test(section.markdown.split('\n')[0]) && !SUMMARY_PATTERN.test(section.markdown))
+        .forEach(section => add({
+          severity: 'info',
+          section: refOf(section),
+          message: 'This section has no summary, though summaries were asked for.',
+          fix: { action: 'expand', instructions: 'End this section with a short "Key Takeaways" list of its main points.' },
+        }));
+    }
+  }
+
+  const skipped = [...content.matchAll(/^(#{1,6})\s/gm)]
+    .map(([, hashes]) => hashes.length)
+    .some((depth, i, depths) => i > 0 && depth > depths[i - 1] + 1);
+  if (skipped) {
+    add({ severity: 'info', message: 'Some headings skip a level, e.g. an H4 straight under an H2, which makes the outline harder to follow.' });
+  }
+  return findings;
+};
+
+/** Lowercases and drops formatting, punctuation and extra spaces, so a quote can be found in markdown. */
+const normalize = (text: string) => text.toLowerCase().replace(/[*_`]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Whether a claim is written in a section without a citation. Citation markers
+ * go at the end of the line a cited passage ends on, so a line with a marker
+ * counts as sourced.
+ * @returns The line the claim is on, or null if it isn't in the section or is cited.
+ */
+const findUncitedClaim = (section: Section, claim: string): string | null => {
+  const wanted = normalize(claim);
+  if (!wanted) return null;
+  const line = section.markdown.split('\n').find(candidate => normalize(candidate).includes(wanted));
+  return line && !line.includes(CITATION_MARKER) ? line : null;
+};
+
+interface RawIssue {
+  section: number;
+  issue: string;
+  fix: string;
+}
+
+interface RawReview {
+  guideIssues: RawIssue[];
+  referenceIssues: (RawIssue & { reference: string })[];
+  ungroundedClaims: { section: number; claim: string }[];
+}
+
+const rawIssueSchema = (extra: Record<string, JsonSchema> = {}): JsonSchema => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      section: { type: 'integer', minimum: 0, description: 'section number, or 0 for the whole book' },
+      ...extra,
+      issue: { type: 'string', description: 'issue' },
+      fix: { type: 'string', description: 'how to fix it' },
+    },
+    required: ['section', ...Object.keys(extra), 'issue', 'fix'],
+  },
+});
+
+/**
+ * Asks the model whether the book follows the guiding instructions, agrees with
+ * the listed references, and cites a source for its specific claims. Claims are
+ * only kept if they are really in the section and uncited.
+ */
+const checkWithModel = async (
+    formData: FormData,
+    sections: Section[],
+    signal: AbortSignal | undefined,
+    provider: ModelProvider
+): Promise<ReviewFinding[]> => {
+    const refAt = (n: number): SectionRef | undefined =>
+        sections[n - 1] ? { index: n - 1, heading: sections[n - 1].heading } : undefined;
+    const guide = formData.guide.trim();
+    const references = formData.references.trim();
+
+    console.log(`Checking ${sections.length} sections against the guide and references...`);
+    const raw = await provider.generateJson<RawReview>({
+        prompt: `You are a meticulous editor reviewing a study book on "${formData.topic} - ${formData.subtopic}" before it goes to students. Its sections are labelled [S1], [S2], ...
+
+        Report:
+        1. "guideIssues": places where the book does not follow the guiding instructions below, e.g. a required topic missing or treated differently than asked. ${guide ? '' : 'There are no guiding instructions, so return an empty list.'}
+        2. "referenceIssues": places where the book contradicts or misrepresents the reference books listed below, or where a reference that should clearly shape a section is not reflected in it. Name the reference. ${references ? '' : 'There are no references, so return an empty list.'}
+        3. "ungroundedClaims": specific factual claims, such as statistics, dates, named studies, quotations or surprising results, that are not followed by a citation marker such as [[2]](#ref-2). Quote each claim word for word from the book, without its formatting. At most 3 per section, and only the ones a student would most need a source for.
+
+        Give the number of the section each issue is in, or 0 if it concerns the whole book. For each issue, say in one sentence how the section should be rewritten to fix it. Report only real problems; empty lists are fine.
+
+        **Guiding Instructions:**
+        ${guide || 'None.'}
+
+        **Reference Books/Sources:**
+        ${references || 'None.'}
+
+        --- STUDY BOOK ---
+        ${sections.map((section, i) => `[S${i + 1}] ${section.heading ?? 'Introduction'}\n${stripImages(section.markdown).trim()}`).join('\n\n        ')}`,
+        schema: {
+            type: 'object',
+            properties: {
+                guideIssues: rawIssueSchema(),
+                referenceIssues: rawIssueSchema({ reference: { type: 'string', description: 'reference' } }),
+                ungroundedClaims: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            section: { type: 'integer', minimum: 1, description: 'section number' },
+                            claim: { type: 'string', description: 'claim' },
+                        },
+                        required: ['section', 'claim'],
+                    },
+                },
+            },
+            required: ['guideIssues', 'referenceIssues', 'ungroundedClaims'],
+        },
+        temperature: 0.2,
+        signal,
+    });
+
+    const issueFindings = (kind: 'guide' | 'references', issues: RawIssue[] = [], describe: (issue: RawIssue) => string) => issues
+        .filter(issue => String(issue.issue ?? '').trim())
+        .map((issue): ReviewFinding => {
+            const section = refAt(issue.section);
+            const fix = String(issue.fix ?? '').trim();
+            return {
+                id: createFindingId(),
+                kind,
+                severity: 'warning',
+                message: describe(issue),
+                section,
+                fix: section && fix ? { action: 'regenerate', instructions: fix } : undefined,
+            };
+        });
+
+    const claims = new Map<number, string[]>();
+    for (const { section: n, claim } of raw.ungroundedClaims ?? []) {
+        const section = sections[n - 1];
+        const text = String(claim ?? '').trim();
+        if (!section || !text || !findUncitedClaim(section, text)) continue;
+        claims.set(n, [...(claims.get(n) ?? []), text]);
+    }
+    const claimFindings = [...claims.entries()].flatMap(([n, quotes]) => quotes.map((quote): ReviewFinding => ({
+        id: createFindingId(),
+        kind: 'grounding',
+        severity: 'warning',
+        message: 'This claim has no source.',
+        section: refAt(n),
+        quote,
+        fix: { action: 'regenerate', instructions: `Back this claim with a source and cite it, or remove it if it cannot be supported: "${quote}"` },
+    }))).slice(0, MAX_UNGROUNDED_CLAIMS);
+
+    return [
+        ...issueFindings('guide', raw.guideIssues, issue => issue.issue.trim()),
+        ...issueFindings('references', raw.referenceIssues, issue => {
+            const reference = String((issue as RawIssue & { reference?: string }).reference ?? '').trim();
+            return reference ? `${reference}: ${issue.issue.trim()}` : issue.issue.trim();
+        }),
+        ...claimFindings,
+    ];
+};
+
+/**
+ * Reviews a drafted study book: readability and structure locally, and the
+ * guide, references and unsourced claims with the model. If the model check
+ * fails, the report says so and still has the local checks.
+ * @param formData The input the book was generated from.
+ * @param result The study book to review.
+ * @param signal Aborts the review.
+ * @param provider The model provider to check with. Defaults to the configured provider.
+ * @returns A promise that resolves to the report.
+ */
+export const reviewStudyBook = async (
+    formData: FormData,
+    result: StudyBookResult,
+    signal?: AbortSignal,
+    provider: ModelProvider = createModelProvider()
+): Promise<QualityReport> => {
+    const options = resolveGenerationOptions(formData.options);
+    const readability = measureReadability(result.content, options.language);
+    const findings = [
+        ...checkStructure(result.content, options, !!result.chapters),
+        ...checkReadability(readability, options.audience),
+    ];
+
+    let modelCheckError: string | undefined;
+    try {
+        findings.unshift(...await checkWithModel(formData, splitSections(result.content), signal, provider));
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        console.error('The review against the guide and references failed.', e);
+        modelCheckError = e instanceof Error ? e.message : String(e);
+    }
+    console.log(`Review complete: ${findings.length} findings, grade ${readability.gradeLevel}.`);
+    return { reviewedAt: Date.now(), readability, findings, modelCheckError };
+};
+
+/**
+ * Finds the section a finding is about in the book as it is now: at the same
+ * position if it still has the same heading, otherwise by its heading.
+ * @returns The section's index, or -1 if it is gone.
+ */
+export const resolveSection = (sections: Pick<Section, 'heading'>[], ref: SectionRef): number =>
+  sections[ref.index]?.heading === ref.heading ? ref.index : sections.findIndex(section => section.heading === ref.heading);
+
+/**
+ * Combines the open fixes of a section's findings into one revision: a rewrite
+ * if any finding needs one, otherwise a simplification, otherwise an expansion.
+ * @returns The revision, or null if there is nothing to fix.
+ */
+export const combineFixes = (findings: ReviewFinding[]): SectionFix | null => {
+  const fixes = findings.filter(finding => finding.fix && !finding.fixed).map(finding => finding.fix!);
+  if (!fixes.length) return null;
+  const action: RevisionAction = fixes.some(fix => fix.action === 'regenerate') ? 'regenerate'
+    : fixes.some(fix => fix.action === 'simplify') ? 'simplify' : 'expand';
+  return { action, instructions: [...new Set(fixes.map(fix => fix.instructions))].map(line => `- ${line}`).join('\n') };
+};
+
+/** Marks findings as fixed in a report. */
+export const markFixed = (report: QualityReport, ids: string[]): QualityReport => ({
+  ...report,
+  findings: report.findings.map(finding => (ids.includes(finding.id) ? { ...finding, fixed: true } : finding)),
+});
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type StudyBookResult } from "./geminiService";
+import { createModelProvider, type ModelProvider } from "./modelProvider";
+import { extractHeadings, slugify } from "./markdown";
+import { stripImages } from "./imageAssets";
+import { GenerationError } from "./generationErrors";
+
+export type QuestionType = 'multiple-choice' | 'true-false' | 'short-answer';
+
+export interface QuizQuestion {
+  id: string;
+  /** The heading of the section the question tests. */
+  section: string;
+  type: QuestionType;
+  prompt: string;
+  /** Answer options; empty for short-answer questions. */
+  choices: string[];
+  /** Index into `choices` for choice questions, -1 for short answers. */
+  correctChoice: number;
+  /** The model answer shown after answering. */
+  answer: string;
+  explanation: string;
+}
+
+export interface Flashcard {
+  id: string;
+  section: string;
+  front: string;
+  back: string;
+}
+
+export interface StudyAids {
+  questions: QuizQuestion[];
+  flashcards: Flashcard[];
+  generatedAt: number;
+}
+
+interface RawQuestion {
+  section: string;
+  type: string;
+  prompt: string;
+  choices: string[];
+  correctChoice: number;
+  answer: string;
+  explanation: string;
+}
+
+interface RawStudyAids {
+  questions: RawQuestion[];
+  flashcards: { section: string; front: string; back: string }[];
+}
+
+/** Section names the questions are grouped by: the H2s, or the H1s for documents without any. */
+const getSectionNames = (content: string): string[] => {
+  const headings = extractHeadings(content);
+  const depth = headings.some(heading => heading.depth === 2) ? 2 : 1;
+  const names = [...new Set(headings.filter(heading => heading.depth === depth).map(heading => heading.text))];
+  return names.length > 0 ? names : ['General'];
+};
+
+/** Drops malformed questions and makes choice questions internally consistent. */
+const normalizeQuestion = (raw: RawQuestion, index: number): QuizQuestion | null => {
+  const prompt = String(raw.prompt ?? '').trim();
+  if (!prompt) return null;
+  const base = { id: `q${index + 1}`, section: raw.section, prompt, explanation: String(raw.explanation ?? '').trim() };
+
+  switch (raw.type) {
+    case 'true-false': {
+      const answerText = String(raw.answer ?? '').trim().toLowerCase();
+      const correctChoice = answerText === 'true' || answerText === 'false'
+        ? (answerText === 'true' ? 0 : 1)
+        : raw.correctChoice;
+      if (correctChoice !== 0 && correctChoice !== 1) return null;
+      return { ...base, type: 'true-false', choices: ['True', 'False'], correctChoice, answer: correctChoice === 0 ? 'True' : 'False' };
+    }
+    case 'multiple-choice': {
+      const choices = (raw.choices ?? []).map(choice => String(choice).trim()).filter(Boolean);
+      if (choices.length < 2 || !(raw.correctChoice >= 0 && raw.correctChoice < choices.length)) return null;
+      return { ...base, type: 'multiple-choice', choices, correctChoice: raw.correctChoice, answer: choices[raw.correctChoice] };
+    }
+    case 'short-answer': {
+      const answer = String(raw.answer ?? '').trim();
+      if (!answer) return null;
+      return { ...base, type: 'short-answer', choices: [], correctChoice: -1, answer };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Generates a quiz and a flashcard deck from a finished study book.
+ * @param result The study book to test on.
+ * @param provider The model provider to generate with. Defaults to the configured provider.
+ * @returns A promise that resolves to the questions and flashcards, grouped by section.
+ */
+export const generateStudyAids = async (
+    result: StudyBookResult,
+    provider: ModelProvider = createModelProvider()
+): Promise<StudyAids> => {
+    const sections = getSectionNames(result.content);
+    console.log(`Generating study aids for ${sections.length} sections...`);
+
+    const raw = await provider.generateJson<RawStudyAids>({
+        prompt: `You are an expert educator writing self-test material for the study guide below.
+
+        For EACH of these sections, write 2 to 4 questions that test understanding rather than recall of wording, mixing the three types:
+        ${sections.map((s, i) => `${i + 1}. ${s}`).join('\n        ')}
+
+        Question rules:
+        - "multiple-choice": exactly 4 plausible choices; "correctChoice" is the 0-based index of the right one.
+        - "true-false": "choices" is ["True", "False"]; "correctChoice" is 0 for true and 1 for false; "answer" is "True" or "False".
+        - "short-answer": "choices" is empty, "correctChoice" is 0 and "answer" is a model answer of one or two sentences.
+        - Every question has an "explanation" of why the answer is right, based only on the guide.
+
+        Also write 3 to 6 flashcards per section: a short term or question on the front, a concise definition or answer on the back.
+
+        Use the section names exactly as listed.
+
+        --- STUDY GUIDE ---
+        ${stripImages(result.content)}`,
+        schema: {
+            type: 'object',
+            properties: {
+                questions: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            section: { type: 'string', enum: sections },
+                            type: { type: 'string', enum: ['multiple-choice', 'true-false', 'short-answer'] },
+                            prompt: { type: 'string', description: 'question' },
+                            choices: { type: 'array', items: { type: 'string', description: 'choice' }, maxItems: 4 },
+                            correctChoice: { type: 'integer', minimum: 0, maximum: 3 },
+                            answer: { type: 'string', description: 'answer' },
+                            explanation: { type: 'string', description: 'explanation' },
+                        },
+                        required: ['section', 'type', 'prompt', 'choices', 'correctChoice', 'answer', 'explanation'],
+                    },
+                },
+                flashcards: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            section: { type: 'string', enum: sections },
+                            front: { type: 'string', description: 'term' },
+                            back: { type: 'string', description: 'definition' },
+                        },
+                        required: ['section', 'front', 'back'],
+                    },
+                },
+            },
+            required: ['questions', 'flashcards'],
+        },
+    });
+
+    const questions = (raw.questions ?? [])
+        .map(normalizeQuestion)
+        .filter((question): question is QuizQuestion => question !== null);
+    const flashcards = (raw.flashcards ?? [])
+        .filter(card => String(card.front ?? '').trim() && String(card.back ?? '').trim())
+        .map((card, i) => ({ id: `c${i + 1}`, section: card.section, front: card.front.trim(), back: card.back.trim() }));
+
+    if (questions.length === 0 && flashcards.length === 0) {
+        throw new GenerationError('malformed-output', 'The model did not return any usable questions or flashcards.');
+    }
+    console.log(`Generated ${questions.length} questions and ${flashcards.length} flashcards.`);
+    return { questions, flashcards, generatedAt: Date.now() };
+};
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Serializes flashcards as a CSV Anki can import directly: front, back and a
+ * tag per section. The header lines are Anki's import directives.
+ */
+export const toAnkiCsv = (flashcards: Flashcard[], deckTag: string): string => {
+  const rows = flashcards.map(card => [
+    csvField(card.front),
+    csvField(card.back),
+    csvField(`${slugify(deckTag)} ${slugify(card.section)}`),
+  ].join(','));
+  return ['#separator:Comma', '#html:false', '#tags column:3', ...rows].join('\n') + '\n';
+};
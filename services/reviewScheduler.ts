@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { type SavedProject } from '../App';
+import { type Flashcard } from './quizService';
+
+/** The answer buttons, mapped onto SM-2's 0–5 recall quality scale. */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: { value: ReviewGrade; label: string }[] = [
+  { value: 'again', label: 'Again' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'good', label: 'Good' },
+  { value: 'easy', label: 'Easy' },
+];
+
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export interface CardSchedule {
+  /** SM-2 easiness factor, never below 1.3. */
+  ease: number;
+  /** Days until the next review. */
+  interval: number;
+  /** Consecutive successful reviews. */
+  repetitions: number;
+  /** Start of the day the card is next due, in ms. */
+  due: number;
+  lastReviewed: number;
+}
+
+export interface ReviewLogEntry {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  /** The interval the review scheduled, in days. */
+  interval: number;
+}
+
+export interface ProjectReviewState {
+  /** `generatedAt` of the deck the schedules belong to; regenerating a deck resets them. */
+  deckGeneratedAt: number;
+  cards: Record<string, CardSchedule>;
+  history: ReviewLogEntry[];
+}
+
+/** Review state for every project, keyed by the project's timestamp. */
+export type ReviewStore = Record<string, ProjectReviewState>;
+
+export interface DueCard {
+  projectId: number;
+  projectTitle: string;
+  card: Flashcard;
+  /** Undefined for cards that have never been reviewed. */
+  schedule?: CardSchedule;
+}
+
+const STORAGE_KEY = 'flashcardReviews';
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_HISTORY = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Applies one SM-2 review to a card's schedule.
+ * @param schedule The card's current schedule, or undefined for a new card.
+ * @param grade How well the user recalled the card.
+ * @param now The time of the review.
+ * @returns The card's next schedule.
+ */
+export const scheduleReview = (schedule: CardSchedule | undefined, grade: ReviewGrade, now: number = Date.now()): CardSchedule => {
+  const quality = QUALITY[grade];
+  const previous = schedule ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0 };
+  const ease = Math.max(MIN_EASE, previous.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * previous.ease);
+  }
+
+  return { ease, interval, repetitions, due: startOfDay(now) + interval * DAY_MS, lastReviewed: now };
+};
+
+/** Human-readable interval for a grade button, e.g. "1d" or "2mo". */
+export const describeInterval = (days: number): string => {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+export const loadReviewStore = (): ReviewStore => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error('Failed to load review history from localStorage:', e);
+    return {};
+  }
+};
+
+export const saveReviewStore = (store: ReviewStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.error('Failed to save review history to localStorage:', e);
+  }
+};
+
+/** The project's review state, started afresh when its flashcards were regenerated. */
+const getProjectState = (store: ReviewStore, project: SavedProject): ProjectReviewState => {
+  const deckGeneratedAt = project.studyAids?.generatedAt ?? 0;
+  const state = store[project.timestamp];
+  if (state && state.deckGeneratedAt === deckGeneratedAt) return state;
+  return { deckGeneratedAt, cards: {}, history: state?.history ?? [] };
+};
+
+const isDue = (schedule: CardSchedule | undefined, now: number) =>
+  !schedule || schedule.due <= startOfDay(now);
+
+/**
+ * Lists a project's cards that are due today: overdue cards first, then new ones.
+ */
+export const getDueCards = (project: SavedProject, store: ReviewStore, now: number = Date.now()): DueCard[] => {
+  const state = getProjectState(store, project);
+  return (project.studyAids?.flashcards ?? [])
+    .map(card => ({ projectId: project.timestamp, projectTitle: project.title, card, schedule: state.cards[card.id] }))
+    .filter(dueCard => isDue(dueCard.schedule, now))
+    .sort((a, b) => (a.schedule?.due ?? Infinity) - (b.schedule?.due ?? Infinity));
+};
+
+/** Builds the "due today" queue across all saved projects. */
+export const buildDueQueue = (projects: SavedProject[], store: ReviewStore, now: number = Date.now()): DueCard[] =>
+  projects.flatMap(project => getDueCards(project, store, now));
+
+/** Counts due cards per project, keyed by project timestamp. */
+export const countDueCards = (projects: SavedProject[], store: ReviewStore, now: number = Date.now()): Record<number, number> =>
+  Object.fromEntries(projects.map(project => [project.timestamp, getDueCards(project, store, now).length]));
+
+/**
+ * Records a review and reschedules the card.
+ * @returns A new store; the input is not modified.
+ */
+export const recordReview = (
+  store: ReviewStore,
+  project: SavedProject,
+  cardId: string,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewStore => {
+  const state = getProjectState(store, project);
+  const schedule = scheduleReview(state.cards[cardId], grade, now);
+  const entry: ReviewLogEntry = { cardId, grade, reviewedAt: now, interval: schedule.interval };
+  return {
+    ...store,
+    [project.timestamp]: {
+      deckGeneratedAt: state.deckGeneratedAt,
+      cards: { ...state.cards, [cardId]: schedule },
+      history: [...state.history, entry].slice(-MAX_HISTORY),
+    },
+  };
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Every saved project keeps its versions, oldest first, each with the input it
+ * was generated from. The last revision is always the project's current
+ * content. Edits made in quick succession share one revision, so revising a
+ * few sections in a sitting doesn't fill the history.
+ */
+
+import { type FormData } from '../components/StartScreen';
+import { type SavedProject } from '../App';
+import { type StudyBookResult } from './geminiService';
+import { AUDIENCES, DEPTHS, LANGUAGES, resolveGenerationOptions, type GenerationOptions } from './generationOptions';
+
+export type RevisionKind = 'generated' | 'regenerated' | 'edited' | 'restored';
+
+export interface ProjectRevision {
+  id: string;
+  kind: RevisionKind;
+  createdAt: number;
+  /** The last edit folded into this revision, if any were. */
+  updatedAt?: number;
+  /** What changed, e.g. `Revised "Cell Division"`; several for edits folded together. */
+  changes: string[];
+  formData: FormData;
+  result: StudyBookResult;
+}
+
+/** Older versions beyond this many are dropped. */
+const MAX_REVISIONS = 30;
+
+/** Edits within this long of the previous edit join its revision. */
+const EDIT_SESSION_MS = 10 * 60 * 1000;
+
+export const REVISION_KIND_LABELS: Record<RevisionKind, string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+const createRevisionId = () => `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The project's revisions, oldest first. Projects saved before revisions
+ * existed get a single revision for the content they have.
+ */
+export const historyOf = (project: Pick<SavedProject, 'timestamp' | 'formData' | 'result' | 'revisions'>): ProjectRevision[] =>
+  project.revisions?.length
+    ? project.revisions
+    : [{ id: `rev-${project.timestamp}`, kind: 'generated', createdAt: project.timestamp, changes: [], formData: project.formData, result: project.result }];
+
+/**
+ * Adds a version to a history. An edit that leaves the text as it was, or
+ * comes soon after the previous edit, updates the latest revision instead.
+ * @param history The revisions so far, oldest first.
+ * @param kind What made the new version.
+ * @param formData The input the new version goes with.
+ * @param result The new version.
+ * @param change A short description of an edit, e.g. `Edited "Summary"`.
+ * @returns The updated history.
+ */
+export const recordRevision = (
+  history: ProjectRevision[],
+  kind: RevisionKind,
+  formData: FormData,
+  result: StudyBookResult,
+  change?: string,
+  now = Date.now(),
+): ProjectRevision[] => {
+  const last = history[history.length - 1];
+  const changes = change ? [change] : [];
+  const joinsLast = last && kind === 'edited' && (
+    last.result.content === result.content
+    || (last.kind === 'edited' && now - (last.updatedAt ?? last.createdAt) < EDIT_SESSION_MS)
+  );
+  if (joinsLast) {
+    return [...history.slice(0, -1), { ...last, formData, result, updatedAt: now, changes: [...new Set([...last.changes, ...changes])] }];
+  }
+  return [...history, { id: createRevisionId(), kind, createdAt: now, changes, formData, result }].slice(-MAX_REVISIONS);
+};
+
+/** Applies a change to the content of a project and of each of its revisions, e.g. to swap images for references. */
+export const mapProjectContents = <T extends Pick<SavedProject, 'result' | 'revisions'>>(project: T, transform: (content: string) => string): T => ({
+  ...project,
+  result: { ...project.result, content: transform(project.result.content) },
+  revisions: project.revisions?.map(revision => ({ ...revision, result: { ...revision.result, content: transform(revision.result.content) } })),
+});
+
+/** The content of a project and of each of its revisions. */
+export const projectContents = (project: Pick<SavedProject, 'result' | 'revisions'>): string[] =>
+  [project.result.content, ...(project.revisions ?? []).map(revision => revision.result.content)];
+
+export interface InputChange {
+  label: string;
+  /** The old and new values of short fields; unset for long ones such as the guide. */
+  before?: string;
+  after?: string;
+}
+
+const optionLabel = (options: GenerationOptions, key: keyof GenerationOptions): string => {
+  const value = options[key];
+  if (key === 'audience') return AUDIENCES.find(a => a.value === value)?.label ?? String(value);
+  if (key === 'depth') return DEPTHS.find(d => d.value === value)?.label ?? String(value);
+  if (key === 'language') return LANGUAGES.find(l => l.value === value)?.label ?? String(value);
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return String(value);
+};
+
+const OPTION_LABELS: Record<keyof GenerationOptions, string> = {
+  audience: 'Audience',
+  depth: 'Depth',
+  wordCount: 'Length',
+  language: 'Language',
+  illustrationCount: 'Illustrations',
+  includeTables: 'Tables',
+  includeWorkedExamples: 'Worked examples',
+  includeSummaries: 'Section summaries',
+  includeGlossary: 'Key-term glossary',
+  reviewQuality: 'Quality review',
+};
+
+/**
+ * Lists what differs between the inputs of two versions.
+ * @returns One entry per changed field; empty if the inputs are the same.
+ */
+export const compareInputs = (before: FormData, after: FormData): InputChange[] => {
+  const changes: InputChange[] = [];
+  const short = (label: string, a: string, b: string) => {
+    if (a !== b) changes.push({ label, before: a, after: b });
+  };
+  short('Format', before.mode === 'book' ? 'Book' : 'Guide', after.mode === 'book' ? 'Book' : 'Guide');
+  short('Topic', before.topic, after.topic);
+  short('Subtopic', before.subtopic, after.subtopic);
+  if (before.guide.trim() !== after.guide.trim()) changes.push({ label: 'Guiding instructions' });
+  if (before.references.trim() !== after.references.trim()) changes.push({ label: 'References' });
+  const documentNames = (formData: FormData) => (formData.documents ?? []).map(document => document.name).join(', ') || 'None';
+  short('Documents', documentNames(before), documentNames(after));
+  const presetName = (formData: FormData) => (formData.preset ? `${formData.preset.name} (v${formData.preset.version})` : 'Standard');
+  short('Prompt preset', presetName(before), presetName(after));
+  const beforeOptions = resolveGenerationOptions(before.options);
+  const afterOptions = resolveGenerationOptions(after.options);
+  (Object.keys(OPTION_LABELS) as (keyof GenerationOptions)[]).forEach(key =>
+    short(OPTION_LABELS[key], optionLabel(beforeOptions, key), optionLabel(afterOptions, key)));
+  return changes;
+};
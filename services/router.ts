@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Hash routes, so that links work on static hosting such as GitHub Pages:
+ *
+ *   #/                                  the study book form
+ *   #/library                           the project library
+ *   #/review                            a flashcard review session
+ *   #/project/:id                       a saved project
+ *   #/project/:id/section/:slug         a heading in a saved project
+ *
+ * Fragments that aren't routes, such as the `#ref-3` of a citation link, are
+ * left to the page.
+ */
+
+export type Route =
+  | { name: 'form' }
+  | { name: 'library' }
+  | { name: 'review' }
+  | { name: 'project'; projectId: number; section?: string };
+
+/**
+ * Reads the route from a URL hash.
+ * @param hash `location.hash`, e.g. `#/project/1712345678901/section/key-terms`.
+ * @returns The route; the form for an empty or unknown hash, or null for a fragment that isn't a route.
+ */
+export const parseRoute = (hash: string): Route | null => {
+  const path = hash.replace(/^#/, '');
+  if (path && !path.startsWith('/')) return null;
+  const parts = path.split('/').filter(Boolean).map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return part;
+    }
+  });
+  switch (parts[0]) {
+    case 'library':
+      return { name: 'library' };
+    case 'review':
+      return { name: 'review' };
+    case 'project': {
+      const projectId = Number(parts[1]);
+      if (!Number.isSafeInteger(projectId)) return { name: 'form' };
+      return parts[2] === 'section' && parts[3] ? { name: 'project', projectId, section: parts[3] } : { name: 'project', projectId };
+    }
+    default:
+      return { name: 'form' };
+  }
+};
+
+/** The URL hash of a route. */
+export const routeHash = (route: Route): string => {
+  switch (route.name) {
+    case 'form':
+      return '#/';
+    case 'library':
+      return '#/library';
+    case 'review':
+      return '#/review';
+    case 'project':
+      return `#/project/${route.projectId}${route.section ? `/section/${encodeURIComponent(route.section)}` : ''}`;
+  }
+};
+
+/** Where the reader was in a project: the scroll offset and the heading it was under. */
+export interface ReadingPosition {
+  scrollY: number;
+  section?: string;
+}
+
+const readingPositionKey = (projectId: number) => `readingPosition:${projectId}`;
+
+/** Remembers where the reader is in a project for the rest of the browser session, so a reload can return there. */
+export const saveReadingPosition = (projectId: number, position: ReadingPosition) => {
+  try {
+    sessionStorage.setItem(readingPositionKey(projectId), JSON.stringify(position));
+  } catch (e) {
+    console.error('Failed to save the reading position:', e);
+  }
+};
+
+/** The reading position saved earlier in this browser session, if any. */
+export const loadReadingPosition = (projectId: number): ReadingPosition | null => {
+  try {
+    const saved = sessionStorage.getItem(readingPositionKey(projectId));
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error('Failed to load the reading position:', e);
+    return null;
+  }
+};
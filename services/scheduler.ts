@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ModelProvider } from './modelProvider';
+
+/** Which model a call goes to; each has its own rate limit and timeout. */
+export type ModelKind = 'text' | 'image';
+
+export interface RateLimitConfig {
+  /** Sustained rate. */
+  requestsPerMinute: number;
+  /** How many requests may go out back to back after a quiet period. */
+  burst: number;
+}
+
+export interface RetryConfig {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** The wait before the first retry. It doubles for each further retry, with jitter. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface SchedulerConfig {
+  /** How many tasks run at once. */
+  concurrency: number;
+  rateLimits: Record<ModelKind, RateLimitConfig>;
+  /** How long a single attempt may take before it is abandoned (and retried). */
+  timeoutsMs: Record<ModelKind, number>;
+  retry: RetryConfig;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: 3,
+  rateLimits: {
+    text: { requestsPerMinute: 60, burst: 10 },
+    image: { requestsPerMinute: 20, burst: 4 },
+  },
+  timeoutsMs: {
+    text: 60_000,
+    image: 120_000,
+  },
+  retry: {
+    maxRetries: 3,
+    baseDelayMs: 2_000,
+    maxDelayMs: 30_000,
+  },
+};
+
+export interface CallHooks {
+  signal?: AbortSignal;
+  /** Called when an attempt failed with a retryable error, before waiting to retry. */
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+}
+
+export interface Scheduler {
+  /**
+   * Runs one model call: waits for the model's rate limit, abandons the
+   * attempt after the model's timeout, and retries rate-limit, server and
+   * timeout errors with exponential backoff.
+   * @param task Makes the call; it must pass the given signal on to the model request.
+   */
+  call<T>(kind: ModelKind, task: (signal: AbortSignal) => Promise<T>, hooks?: CallHooks): Promise<T>;
+  /** Runs `worker` for every index below `count`, at most `concurrency` at a time. */
+  forEach(count: number, worker: (index: number) => Promise<void>, signal?: AbortSignal): Promise<void>;
+}
+
+/** Waits for `ms`, rejecting early with the signal's reason if it aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** API status names of rate limiting and server errors, for errors that carry the name instead of the HTTP code. */
+const RETRYABLE_STATUS_NAMES = new Set(['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED']);
+
+/**
+ * True for rate limiting (429), server errors (5xx) and timeouts: failures
+ * worth another try. Only the error's status is looked at, never its message,
+ * which may quote numbers from the request.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof DOMException && error.name === 'TimeoutError') return true;
+  if (typeof error !== 'object' || error === null) return false;
+  const { status, code } = error as { status?: unknown; code?: unknown };
+  const httpStatus = typeof status === 'number' ? status : typeof code === 'number' ? code : undefined;
+  if (httpStatus !== undefined) return httpStatus === 429 || httpStatus >= 500;
+  return typeof status === 'string' && RETRYABLE_STATUS_NAMES.has(status.toUpperCase());
+};
+
+/** A token bucket: `acquire` resolves once a request may go out. */
+const createRateLimiter = ({ requestsPerMinute, burst }: RateLimitConfig) => {
+  const refillPerMs = requestsPerMinute / 60_000;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  // Waiters queue up so they are served in order.
+  const acquire = (signal?: AbortSignal): Promise<void> => {
+    const turn = queue.then(async () => {
+      refill();
+      while (tokens < 1) {
+        await sleep(Math.ceil((1 - tokens) / refillPerMs), signal);
+        refill();
+      }
+      tokens -= 1;
+    });
+    queue = turn.catch(() => undefined);
+    return turn;
+  };
+  return { acquire };
+};
+
+/**
+ * Creates a scheduler. Each one has its own rate limiters, so share one
+ * instance between everything that calls the same models.
+ */
+export const createScheduler = (overrides: Partial<SchedulerConfig> = {}): Scheduler => {
+  const config = { ...DEFAULT_SCHEDULER_CONFIG, ...overrides };
+  const limiters: Record<ModelKind, ReturnType<typeof createRateLimiter>> = {
+    text: createRateLimiter(config.rateLimits.text),
+    image: createRateLimiter(config.rateLimits.image),
+  };
+
+  const call = async <T>(kind: ModelKind, task: (signal: AbortSignal) => Promise<T>, { signal, onRetry }: CallHooks = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await limiters[kind].acquire(signal);
+      const timeout = AbortSignal.timeout(config.timeoutsMs[kind]);
+      try {
+        return await task(signal ? AbortSignal.any([signal, timeout]) : timeout);
+      } catch (error) {
+        signal?.throwIfAborted();
+        const reason = timeout.aborted ? timeout.reason : error;
+        if (attempt >= config.retry.maxRetries || !isRetryableError(reason)) throw reason;
+        const backoff = Math.min(config.retry.maxDelayMs, config.retry.baseDelayMs * 2 ** attempt);
+        const delayMs = Math.round(backoff * (0.5 + Math.random() / 2));
+        console.warn(`${kind} model call failed (attempt ${attempt + 1}), retrying in ${delayMs} ms.`, reason);
+        onRetry?.({ attempt: attempt + 1, delayMs, error: reason });
+        await sleep(delayMs, signal);
+      }
+    }
+  };
+
+  const forEach = async (count: number, worker: (index: number) => Promise<void>, signal?: AbortSignal) => {
+    let next = 0;
+    const run = async () => {
+      while (next < count) {
+        signal?.throwIfAborted();
+        await worker(next++);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(config.concurrency, count) }, run));
+  };
+
+  return { call, forEach };
+};
+
+/**
+ * Wraps a provider so that every call goes through the scheduler, images under
+ * the image model's limits and everything else under the text model's.
+ */
+export const scheduleProvider = (provider: ModelProvider, scheduler: Scheduler, hooks: CallHooks = {}): ModelProvider => ({
+  name: provider.name,
+  generateText: request => scheduler.call('text', signal => provider.generateText({ ...request, signal }), hooks),
+  generateJson: request => scheduler.call('text', signal => provider.generateJson({ ...request, signal }), hooks),
+  generateImage: request => scheduler.call('image', signal => provider.generateImage({ ...request, signal }), hooks),
+});
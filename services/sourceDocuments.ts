@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getDocument, GlobalWorkerOptions, version as pdfjsVersion } from 'pdfjs-dist';
+import { strFromU8, unzipSync } from 'fflate';
+import { referenceAnchor } from './citations';
+import { type Source } from './modelProvider';
+
+export type SourceDocumentKind = 'pdf' | 'docx' | 'markdown' | 'text';
+
+/** A passage of an uploaded document, small enough to quote in a prompt. */
+export interface DocumentChunk {
+  text: string;
+  /** The PDF page the passage is on; other formats have no pages. */
+  page?: number;
+}
+
+/** A file the user uploaded as primary source material, with its text extracted. */
+export interface SourceDocument {
+  id: string;
+  name: string;
+  kind: SourceDocumentKind;
+  /** The number of pages of a PDF. */
+  pageCount?: number;
+  chunks: DocumentChunk[];
+}
+
+/** A chunk picked for a prompt, with the document it comes from. */
+export interface Excerpt {
+  document: SourceDocument;
+  chunk: DocumentChunk;
+}
+
+export const ACCEPTED_DOCUMENT_TYPES = '.pdf,.docx,.md,.markdown,.txt';
+
+/** Roughly how long a chunk may get before it is split. */
+const CHUNK_CHARS = 1200;
+/** How much excerpted text one generation prompt may carry. */
+const MAX_EXCERPT_CHARS = 40_000;
+
+const SENTENCE = new RegExp(`[^.!?]{1,${CHUNK_CHARS}}[.!?]*\\s*`, 'g');
+
+// pdf.js parses in a worker; load the one matching the library's version.
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsVersion}/build/pdf.worker.min.mjs`;
+
+const documentKind = (file: File): SourceDocumentKind | null => {
+  const extension = file.name.toLowerCase().split('.').pop();
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (extension === 'docx') return 'docx';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt' || file.type.startsWith('text/')) return 'text';
+  return null;
+};
+
+/** Groups paragraphs into chunks of about `CHUNK_CHARS`, splitting paragraphs that are longer on their own. */
+const chunkParagraphs = (paragraphs: string[], page?: number): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) chunks.push({ text: current.trim(), page });
+    current = '';
+  };
+  for (const paragraph of paragraphs.map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > CHUNK_CHARS) flush();
+    if (paragraph.length <= CHUNK_CHARS) {
+      current += `${paragraph}\n\n`;
+      continue;
+    }
+    // Split an overlong paragraph at sentence ends, and overlong sentences wherever they reach the limit.
+    for (const sentence of paragraph.match(SENTENCE) ?? [paragraph]) {
+      if (current.length + sentence.length > CHUNK_CHARS) flush();
+      current += sentence;
+    }
+    flush();
+  }
+  flush();
+  return chunks;
+};
+
+const splitParagraphs = (text: string) => text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+const extractPdf = async (data: ArrayBuffer): Promise<{ chunks: DocumentChunk[]; pageCount: number }> => {
+  const pdf = await getDocument({ data }).promise;
+  try {
+    const chunks: DocumentChunk[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      // PDF text has a line break per printed line; treat blank lines as paragraph breaks.
+      chunks.push(...chunkParagraphs(splitParagraphs(text).map(p => p.replace(/\s*\n\s*/g, ' ')), pageNumber));
+    }
+    return { chunks, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-f]+);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+      default: {
+        const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Leave a malformed entity as it is rather than failing the whole document.
+        return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : match;
+      }
+    }
+  });
+
+/** Reads the paragraphs of a Word document's main body. */
+const extractDocx = (data: ArrayBuffer): DocumentChunk[] => {
+  const files = unzipSync(new Uint8Array(data), { filter: file => file.name === 'word/document.xml' });
+  const xml = files['word/document.xml'];
+  if (!xml) throw new Error('The file is not a Word document.');
+  const paragraphs = (strFromU8(xml).match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? []).map(paragraph =>
+    decodeXmlEntities(paragraph
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<[^>]+>/g, (_, text?: string) => text ?? ''))
+  );
+  return chunkParagraphs(paragraphs);
+};
+
+/**
+ * Extracts the text of an uploaded file and splits it into chunks.
+ * @param file A PDF, Word (.docx), Markdown or plain text file.
+ * @returns A promise that resolves to the document with its chunks.
+ */
+export const extractSourceDocument = async (file: File): Promise<SourceDocument> => {
+  const kind = documentKind(file);
+  if (!kind) throw new Error(`"${file.name}" is not a PDF, Word, Markdown or text file.`);
+  console.log(`Extracting text from "${file.name}"...`);
+
+  let chunks: DocumentChunk[];
+  let pageCount: number | undefined;
+  if (kind === 'pdf') {
+    ({ chunks, pageCount } = await extractPdf(await file.arrayBuffer()));
+  } else if (kind === 'docx') {
+    chunks = extractDocx(await file.arrayBuffer());
+  } else {
+    chunks = chunkParagraphs(splitParagraphs(await file.text()));
+  }
+  if (chunks.length === 0) {
+    throw new Error(kind === 'pdf'
+      ? `"${file.name}" has no extractable text. Scanned PDFs need to be run through OCR first.`
+      : `"${file.name}" is empty.`);
+  }
+  return { id: `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: file.name, kind, pageCount, chunks };
+};
+
+const STOP_WORDS = new Set(['about', 'after', 'also', 'because', 'been', 'before', 'being', 'between', 'could', 'does', 'each', 'from', 'have', 'into', 'more', 'most', 'other', 'over', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'very', 'what', 'when', 'where', 'which', 'while', 'with', 'would', 'your']);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []).filter(term => !STOP_WORDS.has(term));
+
+/**
+ * Picks the chunks to quote in a prompt. Everything fits for short documents;
+ * otherwise the chunks sharing the most terms with the query are kept, in
+ * document order.
+ * @param documents The uploaded documents.
+ * @param query What the prompt is about, e.g. the topic and chapter summary.
+ * @returns The excerpts, numbered by their position in the returned array.
+ */
+export const selectExcerpts = (documents: SourceDocument[], query: string): Excerpt[] => {
+  const all = documents.flatMap(document => document.chunks.map(chunk => ({ document, chunk })));
+  const totalChars = all.reduce((sum, { chunk }) => sum + chunk.text.length, 0);
+  if (totalChars <= MAX_EXCERPT_CHARS) return all;
+
+  const queryTerms = new Set(terms(query));
+  const scored = all.map((excerpt, order) => ({
+    excerpt,
+    order,
+    score: terms(excerpt.chunk.text).filter(term => queryTerms.has(term)).length / Math.sqrt(excerpt.chunk.text.length),
+  }));
+  const picked: typeof scored = [];
+  let chars = 0;
+  for (const candidate of [...scored].sort((a, b) => b.score - a.score)) {
+    if (chars + candidate.excerpt.chunk.text.length > MAX_EXCERPT_CHARS) continue;
+    picked.push(candidate);
+    chars += candidate.excerpt.chunk.text.length;
+  }
+  return picked.sort((a, b) => a.order - b.order).map(({ excerpt }) => excerpt);
+};
+
+/** Where an excerpt comes from, e.g. `notes.pdf, p. 12`. */
+const excerptLocation = ({ document, chunk }: Excerpt) => chunk.page ? `${document.name}, p. ${chunk.page}` : document.name;
+
+/** Formats excerpts for a prompt, each under a `[EXCERPT-n]` label the model cites them by. */
+export const formatExcerpts = (excerpts: Excerpt[]): string =>
+  excerpts.map((excerpt, i) => `[EXCERPT-${i + 1}] (${excerptLocation(excerpt)})\n${excerpt.chunk.text}`).join('\n\n');
+
+/** The source entry of an excerpt: one per document, or per page of a PDF. */
+const excerptSource = (excerpt: Excerpt): Source => ({
+  title: excerptLocation(excerpt),
+  uri: `document:${encodeURIComponent(excerpt.document.name)}${excerpt.chunk.page ? `#page=${excerpt.chunk.page}` : ''}`,
+  document: { name: excerpt.document.name, page: excerpt.chunk.page },
+});
+
+const EXCERPT_CITATION = /\s*\[\[((?:EXCERPT-\d+[,;\s]*)+)\]\]/g;
+
+/**
+ * Replaces the model's `[[EXCERPT-n]]` citations with citation markers such as
+ * `[[3]](#ref-3)`, adding the cited document pages to the source list.
+ * @param markdown The generated text.
+ * @param excerpts The excerpts the prompt was given, in label order.
+ * @param sources The source list; modified in place.
+ * @returns The text with resolved markers. Citations of unknown excerpts are dropped.
+ */
+export const citeExcerpts = (markdown: string, excerpts: Excerpt[], sources: Source[]): string =>
+  markdown.replace(EXCERPT_CITATION, (_, labels: string) => {
+    const indices = new Set<number>();
+    for (const [, n] of labels.matchAll(/EXCERPT-(\d+)/g)) {
+      const excerpt = excerpts[Number(n) - 1];
+      if (!excerpt) continue;
+      const source = excerptSource(excerpt);
+      const existing = sources.findIndex(s => s.uri === source.uri);
+      indices.add(existing === -1 ? sources.push(source) - 1 : existing);
+    }
+    return indices.size === 0
+      ? ''
+      : ' ' + [...indices].sort((a, b) => a - b).map(index => `[[${index + 1}]](#${referenceAnchor(index)})`).join('');
+  });
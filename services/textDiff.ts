@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffLine extends DiffPart {
+  /** The line's number in the old text; unset for added lines. */
+  oldNumber?: number;
+  /** The line's number in the new text; unset for removed lines. */
+  newNumber?: number;
+  /** For a changed line, the words that changed within it. */
+  words?: DiffPart[];
+}
+
+/** A run of unchanged lines left out of a diff, standing for `count` lines. */
+export interface SkippedLines {
+  op: 'skipped';
+  count: number;
+}
+
+/**
+ * Beyond this many comparisons the middle of the texts is shown as replaced
+ * wholesale rather than diffed, which keeps huge rewrites quick.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Diffs two sequences by their longest common subsequence, after trimming their common start and end. */
+const diffSequences = (a: string[], b: string[]): DiffPart[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const parts: DiffPart[] = a.slice(0, start).map(text => ({ op: 'equal', text }));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const n = middleA.length;
+  const m = middleB.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    middleA.forEach(text => parts.push({ op: 'removed', text }));
+    middleB.forEach(text => parts.push({ op: 'added', text }));
+  } else {
+    // common[i * (m + 1) + j] is the length of the longest common subsequence of middleA[i..] and middleB[j..].
+    const width = m + 1;
+    const common = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        common[i * width + j] = middleA[i] === middleB[j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (middleA[i] === middleB[j]) {
+        parts.push({ op: 'equal', text: middleA[i] });
+        i++;
+        j++;
+      } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+        parts.push({ op: 'removed', text: middleA[i++] });
+      } else {
+        parts.push({ op: 'added', text: middleB[j++] });
+      }
+    }
+    middleA.slice(i).forEach(text => parts.push({ op: 'removed', text }));
+    middleB.slice(j).forEach(text => parts.push({ op: 'added', text }));
+  }
+
+  a.slice(endA).forEach(text => parts.push({ op: 'equal', text }));
+  return parts;
+};
+
+/** Splits a line into words and the spaces between them, so joining the parts gives the line back. */
+const splitWords = (line: string) => line.split(/(\s+)/).filter(Boolean);
+
+/**
+ * Diffs two texts line by line. Where removed lines are followed by added
+ * ones, each pair also gets a word diff, so a small edit to a long paragraph
+ * shows which words changed.
+ * @param before The old text.
+ * @param after The new text.
+ * @returns Every line of both texts in order, marked as equal, removed or added.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldNumber = 0;
+  let newNumber = 0;
+  for (const part of diffSequences(before.split('\n'), after.split('\n'))) {
+    if (part.op === 'equal') lines.push({ ...part, oldNumber: ++oldNumber, newNumber: ++newNumber });
+    else if (part.op === 'removed') lines.push({ ...part, oldNumber: ++oldNumber });
+    else lines.push({ ...part, newNumber: ++newNumber });
+  }
+
+  // Pair each block of removed lines with the block of added lines right after it.
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].op !== 'removed') {
+      i++;
+      continue;
+    }
+    let removedEnd = i;
+    while (removedEnd < lines.length && lines[removedEnd].op === 'removed') removedEnd++;
+    let addedEnd = removedEnd;
+    while (addedEnd < lines.length && lines[addedEnd].op === 'added') addedEnd++;
+    const pairs = Math.min(removedEnd - i, addedEnd - removedEnd);
+    for (let k = 0; k < pairs; k++) {
+      const removed = lines[i + k];
+      const added = lines[removedEnd + k];
+      const words = diffSequences(splitWords(removed.text), splitWords(added.text));
+      removed.words = words.filter(word => word.op !== 'added');
+      added.words = words.filter(word => word.op !== 'removed');
+    }
+    i = addedEnd;
+  }
+  return lines;
+};
+
+/**
+ * Leaves out the unchanged lines that are more than `context` lines away from a change.
+ * @returns The lines to show, with a marker where lines were left out.
+ */
+export const collapseUnchanged = (lines: DiffLine[], context = 3): (DiffLine | SkippedLines)[] => {
+  const near = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.op === 'equal') return;
+    for (let k = Math.max(0, i - context); k <= Math.min(lines.length - 1, i + context); k++) near[k] = true;
+  });
+  const shown: (DiffLine | SkippedLines)[] = [];
+  lines.forEach((line, i) => {
+    if (near[i] || line.op !== 'equal') {
+      shown.push(line);
+      return;
+    }
+    const last = shown[shown.length - 1];
+    if (last?.op === 'skipped') last.count++;
+    else shown.push({ op: 'skipped', count: 1 });
+  });
+  return shown;
+};
+
+/** Counts the added and removed lines of a diff. */
+export const countChanges = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.op === 'added').length,
+  removed: lines.filter(line => line.op === 'removed').length,
+});